@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+// Runs src/cli/index.ts through tsx, so the CLI uses the app's modules (and @/ paths) as-is.
+// tsx is in `dependencies` so the CLI still runs after `npm install --omit=dev`.
+import { spawnSync } from "node:child_process";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const tsx = createRequire(import.meta.url).resolve("tsx/cli");
+
+// Ctrl-C reaches the child through the process group; just wait for its exit code
+process.on("SIGINT", () => {});
+const res = spawnSync(
+  process.execPath,
+  [
+    tsx,
+    "--tsconfig",
+    path.join(root, "tsconfig.json"),
+    path.join(root, "src", "cli", "index.ts"),
+    ...process.argv.slice(2),
+  ],
+  { stdio: "inherit" }
+);
+process.exit(res.status ?? 1);
@@ -1,27 +1,58 @@
-import sys, json
-from faster_whisper import WhisperModel
+import argparse, json, sys
 
-def main():
-  if len(sys.argv) < 2:
-    print(json.dumps({"error": "usage: transcribe.py <audio_path> [model_size]"}))
-    sys.exit(2)
+# Exit codes the Node side maps to TranscribeError codes (src/lib/server/transcribe.ts).
+# On these failures stdout carries {"error", "code"} instead of a transcript.
+EXIT_MODEL = 3
+EXIT_DEPS = 4
+
+def fail(code, message, exit_code):
+  print(json.dumps({"error": message, "code": code}, ensure_ascii=False))
+  sys.exit(exit_code)
 
-  audio_path = sys.argv[1]
-  model_size = sys.argv[2] if len(sys.argv) > 2 else "base"
+def load_model(model_size, device="cpu", compute_type="int8"):
+  # Loading downloads the model on first use; offline or a bad name fails here
+  from faster_whisper import WhisperModel
+  return WhisperModel(model_size, device=device, compute_type=compute_type)
 
-  model = WhisperModel(model_size, device="cpu", compute_type="int8")
-  segments, info = model.transcribe(audio_path, vad_filter=True, beam_size=5)
+def transcribe_file(model, audio_path, beam_size=5, vad=True):
+  segments, info = model.transcribe(audio_path, vad_filter=vad, beam_size=beam_size)
 
   text_parts = []
+  timed = []
   for s in segments:
     t = (s.text or "").strip()
     if t:
       text_parts.append(t)
+      timed.append({"start": round(s.start, 2), "end": round(s.end, 2), "text": t})
 
-  print(json.dumps({
+  return {
     "language": getattr(info, "language", None),
-    "text": " ".join(text_parts)
-  }, ensure_ascii=False))
+    "text": " ".join(text_parts),
+    "segments": timed
+  }
+
+def main():
+  p = argparse.ArgumentParser(description="Transcribe an audio file with faster-whisper")
+  p.add_argument("audio_path")
+  p.add_argument("model_size", nargs="?", default="base")
+  p.add_argument("--device", default="cpu")
+  p.add_argument("--compute-type", default="int8")
+  p.add_argument("--beam-size", type=int, default=5)
+  p.add_argument("--no-vad", action="store_true")
+  args = p.parse_args()
+
+  try:
+    import faster_whisper  # noqa: F401
+  except ImportError as e:
+    fail("whisper_deps_missing", str(e), EXIT_DEPS)
+
+  try:
+    model = load_model(args.model_size, args.device, args.compute_type)
+  except Exception as e:
+    fail("model_unavailable", f"{type(e).__name__}: {e}", EXIT_MODEL)
+
+  result = transcribe_file(model, args.audio_path, args.beam_size, not args.no_vad)
+  print(json.dumps(result, ensure_ascii=False))
 
 if __name__ == "__main__":
   main()
@@ -0,0 +1,74 @@
+# Long-lived Whisper worker: keeps loaded models in memory and takes jobs as JSON
+# lines on stdin, one at a time. Managed by src/lib/server/whisperWorker.ts.
+#
+# Requests:  {"id": 1, "op": "transcribe", "audio": path, "model": "tiny",
+#             "device": "cpu", "compute_type": "int8", "beam_size": 5, "vad": true}
+#            {"id": 2, "op": "ping"}
+#            {"id": 3, "op": "unload", "model": "tiny", "device": "cpu", "compute_type": "int8"}
+# Replies:   {"id": ..., "ok": true, ...} or {"id": ..., "ok": false, "error": ..., "code": ...}
+# Startup:   {"event": "ready", "pid": ...}, or {"event": "fatal", ...} and exit EXIT_DEPS
+import gc, json, os, sys
+from transcribe import EXIT_DEPS, load_model, transcribe_file
+
+# Libraries sometimes print; keep stdout for the protocol
+out = sys.stdout
+sys.stdout = sys.stderr
+
+def emit(obj):
+  out.write(json.dumps(obj, ensure_ascii=False) + "\n")
+  out.flush()
+
+def model_key(req):
+  return "%s/%s/%s" % (req.get("model") or "base", req.get("device") or "cpu", req.get("compute_type") or "int8")
+
+def main():
+  try:
+    import faster_whisper  # noqa: F401
+  except ImportError as e:
+    emit({"event": "fatal", "error": str(e), "code": "whisper_deps_missing"})
+    sys.exit(EXIT_DEPS)
+
+  models = {}  # "size/device/compute_type" -> WhisperModel; Node decides when to unload
+  emit({"event": "ready", "pid": os.getpid()})
+
+  for line in sys.stdin:
+    line = line.strip()
+    if not line:
+      continue
+    try:
+      req = json.loads(line)
+    except ValueError:
+      emit({"id": None, "ok": False, "error": "bad request line", "code": "bad_request"})
+      continue
+
+    rid = req.get("id")
+    op = req.get("op")
+
+    if op == "ping":
+      emit({"id": rid, "ok": True, "pid": os.getpid(), "models": sorted(models)})
+
+    elif op == "unload":
+      dropped = models.pop(model_key(req), None) is not None
+      gc.collect()
+      emit({"id": rid, "ok": True, "unloaded": dropped, "models": sorted(models)})
+
+    elif op == "transcribe":
+      key = model_key(req)
+      if key not in models:
+        try:
+          models[key] = load_model(req.get("model") or "base", req.get("device") or "cpu",
+                                   req.get("compute_type") or "int8")
+        except Exception as e:
+          emit({"id": rid, "ok": False, "error": "%s: %s" % (type(e).__name__, e), "code": "model_unavailable"})
+          continue
+      try:
+        result = transcribe_file(models[key], req["audio"], int(req.get("beam_size") or 5), req.get("vad", True) is not False)
+        emit(dict(result, id=rid, ok=True))
+      except Exception as e:
+        emit({"id": rid, "ok": False, "error": "%s: %s" % (type(e).__name__, e), "code": "whisper_failed"})
+
+    else:
+      emit({"id": rid, "ok": False, "error": "unknown op %r" % op, "code": "bad_request"})
+
+if __name__ == "__main__":
+  main()
@@ -0,0 +1,13 @@
+// src/app/api/batch/[id]/cancel/route.ts
+import { cancelBatch } from "@/lib/server/batch";
+
+export const runtime = "nodejs";
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const batch = await cancelBatch(id);
+  if (!batch) {
+    return Response.json({ ok: false, error: "Batch not found" }, { status: 404 });
+  }
+  return Response.json({ ok: true, id: batch.id, status: batch.status });
+}
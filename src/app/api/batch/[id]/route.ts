@@ -0,0 +1,13 @@
+// src/app/api/batch/[id]/route.ts
+import { batchCounts, getBatch } from "@/lib/server/batch";
+
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const batch = await getBatch(id);
+  if (!batch) {
+    return Response.json({ ok: false, error: "Batch not found" }, { status: 404 });
+  }
+  return Response.json({ ok: true, batch: { ...batch, counts: batchCounts(batch) } });
+}
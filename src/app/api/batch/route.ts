@@ -0,0 +1,54 @@
+// src/app/api/batch/route.ts
+import { z } from "zod";
+import { batchCounts, createBatch, listBatches } from "@/lib/server/batch";
+import { ExtractBodySchema } from "@/lib/server/extract";
+
+export const runtime = "nodejs";
+
+const BodySchema = z
+  .object({
+    urls: z.array(z.string().url()).optional().default([]),
+    playlistUrl: z.string().url().optional(), // playlist, channel or profile; same as putting it in `urls`
+    whisperModel: ExtractBodySchema.shape.whisperModel, // WHISPER_MODEL, as for single extractions
+    language: z.string().trim().min(2).max(16).optional(),
+    forceRefresh: z.boolean().optional().default(false),
+    ocr: z.boolean().optional().default(false),
+  })
+  .refine((b) => b.urls.length || b.playlistUrl, { message: "Provide `urls` or `playlistUrl`" });
+
+export async function POST(req: Request) {
+  try {
+    const { urls, playlistUrl, whisperModel, language, forceRefresh, ocr } = BodySchema.parse(
+      await req.json()
+    );
+    const inputs = [...(playlistUrl ? [playlistUrl] : []), ...urls];
+    const batch = await createBatch(inputs, { whisperModel, language, forceRefresh, ocr });
+    return Response.json(
+      { ok: true, batchId: batch.id, status: batch.status, statusUrl: `/api/batch/${batch.id}` },
+      { status: 202 }
+    );
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// Summaries only; GET /api/batch/:id has the items
+export async function GET() {
+  try {
+    const batches = await listBatches();
+    return Response.json({
+      ok: true,
+      batches: batches.map((b) => ({
+        id: b.id,
+        status: b.status,
+        createdAt: b.createdAt,
+        updatedAt: b.updatedAt,
+        finishedAt: b.finishedAt,
+        inputs: b.inputs,
+        counts: batchCounts(b),
+      })),
+    });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+// src/app/api/export/route.ts
+import { z } from "zod";
+import {
+  EXPORT_FILE,
+  EXPORT_FORMATS,
+  slugify,
+  toJsonLd,
+  toMarkdown,
+  toMealie,
+  toPlainText,
+  type ExportFormat,
+} from "@/lib/export";
+import type { Recipe } from "@/lib/recipe";
+import { getRecipe, StoredRecipeSchema } from "@/lib/server/library";
+import { toPaprikaArchive } from "@/lib/server/paprika";
+
+export const runtime = "nodejs";
+
+const BodySchema = z
+  .object({
+    recipe: StoredRecipeSchema.optional(),
+    id: z.string().optional(), // a saved recipe instead of a payload
+    format: z.enum(EXPORT_FORMATS),
+  })
+  .refine((b) => b.recipe || b.id, { message: "Provide `recipe` or `id`" });
+
+function render(recipe: Recipe, format: ExportFormat): string | Buffer {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(recipe);
+    case "text":
+      return toPlainText(recipe);
+    case "jsonld":
+      return toJsonLd(recipe);
+    case "mealie":
+      return toMealie(recipe);
+    case "paprika":
+      return toPaprikaArchive([recipe]);
+  }
+}
+
+async function exportResponse(input: { recipe?: Recipe; id?: string; format: ExportFormat }) {
+  let recipe = input.recipe;
+  if (!recipe && input.id) {
+    recipe = (await getRecipe(input.id))?.recipe;
+    if (!recipe) return Response.json({ ok: false, error: "Recipe not found" }, { status: 404 });
+  }
+
+  const { ext, contentType } = EXPORT_FILE[input.format];
+  const body = render(recipe!, input.format);
+  return new Response(typeof body === "string" ? body : new Uint8Array(body), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${slugify(recipe!.title)}.${ext}"`,
+    },
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    const { recipe, id, format } = BodySchema.parse(await req.json());
+    return await exportResponse({ recipe: recipe as Recipe | undefined, id, format });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// GET /api/export?id=<saved id>&format=markdown — plain links for saved recipes
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const { id, format } = BodySchema.parse({
+      id: sp.get("id") ?? undefined,
+      format: sp.get("format") ?? "markdown",
+    });
+    return await exportResponse({ id, format });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
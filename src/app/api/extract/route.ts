@@ -1,118 +1,130 @@
 // src/app/api/extract/route.ts
-import { z } from "zod";
-import { fetchSourceText } from "@/lib/platform";
-import { extractRecipe } from "@/lib/recipe";
-import { transcribeUrl, type StepEvent } from "@/lib/server/transcribe";
+import {
+  enqueueExtract,
+  enqueueExtractUpload,
+  ExtractBodySchema,
+  parseUpload,
+  publicSteps,
+  runExtract,
+  runExtractUpload,
+  type ExtractInput,
+  type ExtractOutcome,
+  type UploadInput,
+} from "@/lib/server/extract";
+import { runQueued } from "@/lib/server/jobs";
+import type { PushStep, StepEvent } from "@/lib/server/transcribe";
+import { discardUpload, isMultipart, UploadError } from "@/lib/server/upload";
 
 export const runtime = "nodejs";
 
-const BodySchema = z.object({
-  url: z.string().url(),
-  pastedText: z.string().optional().default(""),
-  whisperModel: z.string().optional().default("tiny"),
-  debug: z.boolean().optional().default(false),
-});
-
-const MIN_TEXT = 250; // raise this so we don't "succeed" on title-only junk
-
 export async function POST(req: Request) {
   const steps: StepEvent[] = [];
   const push = (step: string, msg?: string, data?: any) =>
     steps.push({ t: Date.now(), step, msg, data });
 
+  // JSON with a `url`, or multipart/form-data with an audio/video `file`
+  let input: ExtractInput | UploadInput;
   try {
     push("extract.start", "Parsing request body");
-    const json = await req.json();
-    const { url, pastedText, whisperModel, debug } = BodySchema.parse(json);
+    input = isMultipart(req) ? await parseUpload(req) : ExtractBodySchema.parse(await req.json());
+  } catch (err: any) {
+    return errorResponse(err, steps, push);
+  }
 
-    push("source.fetch.start", "Fetching platform-native text");
-    const source = await fetchSourceText(url);
-    push("source.fetch.done", "Fetched platform-native text", {
-      platform: source.platform,
-      title: source.title,
-      textLen: source.text?.length ?? 0,
-    });
+  if (input.async) {
+    const job = "upload" in input ? enqueueExtractUpload(input) : enqueueExtract(input);
+    return Response.json(
+      { ok: true, jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` },
+      { status: 202 }
+    );
+  }
 
-    let usedWhisper = false;
-    let whisperError: string | undefined;
+  // whoever runs the pipeline removes the uploaded file afterwards
+  const upload = "upload" in input ? input : undefined;
+  // waits its turn in the job queue like an async request, so JOB_CONCURRENCY
+  // holds for every download and Whisper run
+  const run = (push: PushStep): Promise<ExtractOutcome> =>
+    runQueued("extract", (_jobPush, signal) =>
+      upload ? runExtractUpload(upload, push, signal) : runExtract(input as ExtractInput, push, signal)
+    );
+  const cleanup = async () => {
+    if (upload) await discardUpload(upload.upload);
+  };
 
-    if (!source.text || source.text.trim().length < MIN_TEXT) {
-      try {
-        push("transcribe.start", `Running whisper (${whisperModel})`);
-        const tr = await transcribeUrl(url, whisperModel, push);
-        if (tr.text?.trim()) {
-          source.text = tr.text;
-          usedWhisper = true;
-          push("transcribe.done", "Whisper text set", { textLen: tr.text.length });
-        } else {
-          whisperError = "Transcribe returned empty text.";
-          push("transcribe.empty", whisperError);
-        }
-      } catch (e: any) {
-        whisperError = e?.message ?? "Transcribe failed.";
-        push("transcribe.exception", whisperError);
-      }
-    } else {
-      push("transcribe.skip", "Platform text was sufficient");
-    }
+  if (input.stream) return streamExtract(run, cleanup, input.debug, steps);
 
-    push("combine.start", "Combining text sources");
-    const combinedText = [
-      source.title ? `TITLE: ${source.title}` : "",
-      source.author ? `AUTHOR: ${source.author}` : "",
-      source.text ? `SOURCE TEXT:\n${source.text}` : "",
-      pastedText?.trim() ? `PASTED TEXT:\n${pastedText.trim()}` : "",
-    ]
-      .filter(Boolean)
-      .join("\n\n");
+  try {
+    const { status, body } = await run(push);
+    return Response.json({ ...body, steps: publicSteps(steps, input.debug) }, { status });
+  } catch (err: any) {
+    return errorResponse(err, steps, push);
+  } finally {
+    await cleanup();
+  }
+}
 
-    push("combine.done", "Combined text ready", { combinedLen: combinedText.length });
+function errorResponse(err: any, steps: StepEvent[], push: (step: string, msg?: string) => void) {
+  push("extract.error", err?.message ?? "Unknown error");
+  return Response.json(
+    {
+      ok: false,
+      error: err?.message ?? "Unknown error",
+      steps: publicSteps(steps, false),
+    },
+    { status: err instanceof UploadError ? err.status : 400 }
+  );
+}
 
-    // If we still don't have enough text, ERROR OUT (don’t pretend success)
-    if (combinedText.trim().length < MIN_TEXT) {
-      return Response.json(
-        {
-          ok: false,
-          error:
-            "Couldn’t get enough transcript text (YouTube transcript empty + Whisper failed). Try a different video, or paste captions.",
-          step: "combine.not_enough_text",
-          usedWhisper,
-          whisperError,
-          sourceUsed: source,
-          steps: debug ? steps : steps.map((s) => ({ t: s.t, step: s.step, msg: s.msg })),
-        },
-        { status: 502 }
-      );
-    }
+// Server-Sent Events: one `step` event per push(...), then a single `result`
+// event carrying what the JSON response would have been (plus its status).
+function streamExtract(
+  run: (push: PushStep) => Promise<ExtractOutcome>,
+  cleanup: () => Promise<void>,
+  debug: boolean,
+  earlier: StepEvent[]
+) {
+  const encoder = new TextEncoder();
 
-    push("recipe.extract.start", "Extracting recipe");
-    const recipe = await extractRecipe(combinedText, {
-      sourceUrl: url,
-      sourceTitle: source.title,
-    });
-    push("recipe.extract.done", "Recipe extracted", {
-      ingredients: recipe.ingredients?.length ?? 0,
-      steps: recipe.steps?.length ?? 0,
-    });
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch {
+          closed = true; // client went away; keep running, stop writing
+        }
+      };
 
-    return Response.json({
-      ok: true,
-      recipe,
-      sourceUsed: source,
-      usedWhisper,
-      whisperError: whisperError ?? null,
-      steps: debug ? steps : steps.map((s) => ({ t: s.t, step: s.step, msg: s.msg })),
-    });
-  } catch (err: any) {
-    push("extract.error", err?.message ?? "Unknown error");
-    return Response.json(
-      {
-        ok: false,
-        error: err?.message ?? "Unknown error",
-        steps: steps.map((s) => ({ t: s.t, step: s.step, msg: s.msg })),
-      },
-      { status: 400 }
-    );
-  }
-}
+      const push = (step: string, msg?: string, data?: any) => {
+        const ev: StepEvent = { t: Date.now(), step, msg, data };
+        send("step", publicSteps([ev], debug)[0]);
+      };
+      for (const ev of earlier) send("step", publicSteps([ev], debug)[0]);
 
+      // don't hold up start(): steps should flow while the pipeline runs
+      void (async () => {
+        try {
+          const { status, body } = await run(push);
+          send("result", { status, ...body });
+        } catch (err: any) {
+          push("extract.error", err?.message ?? "Unknown error");
+          send("result", { status: 400, ok: false, error: err?.message ?? "Unknown error" });
+        } finally {
+          await cleanup();
+          if (!closed) controller.close();
+        }
+      })();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,13 @@
+// src/app/api/jobs/[id]/cancel/route.ts
+import { cancelJob } from "@/lib/server/jobs";
+
+export const runtime = "nodejs";
+
+export async function POST(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = cancelJob(id);
+  if (!job) {
+    return Response.json({ ok: false, error: "Job not found" }, { status: 404 });
+  }
+  return Response.json({ ok: true, id: job.id, status: job.status });
+}
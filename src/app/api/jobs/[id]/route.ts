@@ -0,0 +1,23 @@
+// src/app/api/jobs/[id]/route.ts
+import { getJob, queuePosition } from "@/lib/server/jobs";
+import { publicSteps } from "@/lib/server/extract";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const job = getJob(id);
+  if (!job) {
+    return Response.json({ ok: false, error: "Job not found" }, { status: 404 });
+  }
+
+  const debug = new URL(req.url).searchParams.get("debug") === "1";
+  return Response.json({
+    ok: true,
+    job: {
+      ...job,
+      queuePosition: queuePosition(job.id),
+      steps: publicSteps(job.steps, debug),
+    },
+  });
+}
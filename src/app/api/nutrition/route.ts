@@ -0,0 +1,44 @@
+// src/app/api/nutrition/route.ts
+import { z } from "zod";
+import { estimateNutrition } from "@/lib/nutrition";
+import type { Recipe } from "@/lib/recipe";
+import { getRecipe, StoredRecipeSchema } from "@/lib/server/library";
+
+export const runtime = "nodejs";
+
+const BodySchema = z
+  .object({
+    recipe: StoredRecipeSchema.optional(),
+    id: z.string().optional(), // a saved recipe instead of a payload
+    servings: z.coerce.number().positive().optional(), // instead of the recipe's own count
+  })
+  .refine((b) => b.recipe || b.id, { message: "Provide `recipe` or `id`" });
+
+async function nutritionResponse({ recipe, id, servings }: z.infer<typeof BodySchema>) {
+  let found = recipe as Recipe | undefined;
+  if (!found && id) {
+    found = (await getRecipe(id))?.recipe;
+    if (!found) return Response.json({ ok: false, error: "Recipe not found" }, { status: 404 });
+  }
+  return Response.json({ ok: true, nutrition: estimateNutrition(found!, { servings }) });
+}
+
+export async function POST(req: Request) {
+  try {
+    return await nutritionResponse(BodySchema.parse(await req.json()));
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// GET /api/nutrition?id=<saved id>&servings=4
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    return await nutritionResponse(
+      BodySchema.parse({ id: sp.get("id") ?? undefined, servings: sp.get("servings") ?? undefined })
+    );
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
@@ -0,0 +1,54 @@
+// src/app/api/recipes/[id]/route.ts
+import { z } from "zod";
+import type { Recipe } from "@/lib/recipe";
+import {
+  deleteRecipe,
+  getRecipe,
+  SourceMetaSchema,
+  StoredRecipeSchema,
+  updateRecipe,
+} from "@/lib/server/library";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ id: string }> };
+
+const UpdateSchema = z.object({
+  recipe: StoredRecipeSchema.optional(),
+  sourceUsed: SourceMetaSchema.optional(),
+});
+
+function notFound() {
+  return Response.json({ ok: false, error: "Recipe not found" }, { status: 404 });
+}
+
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const saved = await getRecipe((await params).id);
+    return saved ? Response.json({ ok: true, recipe: saved }) : notFound();
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request, { params }: Ctx) {
+  try {
+    const { recipe, sourceUsed } = UpdateSchema.parse(await req.json());
+    const saved = await updateRecipe((await params).id, {
+      recipe: recipe as Recipe | undefined,
+      sourceUsed,
+    });
+    return saved ? Response.json({ ok: true, recipe: saved }) : notFound();
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  try {
+    const deleted = await deleteRecipe((await params).id);
+    return deleted ? Response.json({ ok: true }) : notFound();
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+// src/app/api/recipes/route.ts
+import { z } from "zod";
+import type { Recipe } from "@/lib/recipe";
+import {
+  createRecipe,
+  listRecipes,
+  SourceMetaSchema,
+  StoredRecipeSchema,
+} from "@/lib/server/library";
+
+export const runtime = "nodejs";
+
+const CreateSchema = z.object({
+  recipe: StoredRecipeSchema,
+  sourceUsed: SourceMetaSchema.optional(),
+});
+
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const res = await listRecipes({
+      q: sp.get("q") ?? undefined,
+      page: Number(sp.get("page") || "1") || 1,
+      pageSize: Number(sp.get("pageSize") || "20") || 20,
+    });
+    return Response.json({ ok: true, ...res });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const { recipe, sourceUsed } = CreateSchema.parse(await req.json());
+    const saved = await createRecipe(recipe as Recipe, sourceUsed);
+    return Response.json({ ok: true, recipe: saved }, { status: 201 });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
@@ -0,0 +1,38 @@
+// src/app/api/recipes/scale/route.ts
+import { z } from "zod";
+import { estimateNutrition } from "@/lib/nutrition";
+import type { Recipe } from "@/lib/recipe";
+import { scaleRecipe } from "@/lib/scale";
+import { getRecipe, StoredRecipeSchema } from "@/lib/server/library";
+
+export const runtime = "nodejs";
+
+const BodySchema = z
+  .object({
+    recipe: StoredRecipeSchema.optional(),
+    id: z.string().optional(), // a saved recipe instead of a payload
+    servings: z.number().positive().optional(),
+    factor: z.number().positive().optional(),
+    system: z.enum(["metric", "imperial"]).optional(),
+  })
+  .refine((b) => b.recipe || b.id, { message: "Provide `recipe` or `id`" });
+
+// Returns a scaled copy; the saved recipe (if any) is left as it is
+export async function POST(req: Request) {
+  try {
+    const { recipe: payload, id, ...opts } = BodySchema.parse(await req.json());
+
+    let recipe = payload as Recipe | undefined;
+    if (!recipe && id) {
+      recipe = (await getRecipe(id))?.recipe;
+      if (!recipe) return Response.json({ ok: false, error: "Recipe not found" }, { status: 404 });
+    }
+
+    const scaled = scaleRecipe(recipe!, opts);
+    // totals follow the new amounts
+    if (scaled.recipe.nutrition) scaled.recipe.nutrition = estimateNutrition(scaled.recipe);
+    return Response.json({ ok: true, ...scaled });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
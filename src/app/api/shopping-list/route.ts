@@ -0,0 +1,78 @@
+// src/app/api/shopping-list/route.ts
+import { z } from "zod";
+import { EXPORT_FILE } from "@/lib/export";
+import type { Recipe } from "@/lib/recipe";
+import { scaleRecipe } from "@/lib/scale";
+import { getRecipe, StoredRecipeSchema } from "@/lib/server/library";
+import { getStaples } from "@/lib/server/staples";
+import { buildShoppingList, shoppingToMarkdown, shoppingToText } from "@/lib/shopping";
+
+export const runtime = "nodejs";
+
+const EntrySchema = z
+  .object({
+    recipe: StoredRecipeSchema.optional(),
+    id: z.string().optional(), // a saved recipe instead of a payload
+    servings: z.number().positive().optional(),
+    factor: z.number().positive().optional(),
+  })
+  .refine((b) => b.recipe || b.id, { message: "Provide `recipe` or `id`" });
+
+const BodySchema = z.object({
+  recipes: z.array(EntrySchema).min(1).max(50),
+  staples: z.array(z.string()).optional(), // instead of the saved "always have" list
+  system: z.enum(["metric", "imperial"]).optional(),
+  format: z.enum(["json", "markdown", "text"]).default("json"),
+});
+
+type Body = z.infer<typeof BodySchema>;
+
+async function shoppingResponse(body: Body) {
+  const recipes: Recipe[] = [];
+  for (const entry of body.recipes) {
+    let recipe = entry.recipe as Recipe | undefined;
+    if (!recipe && entry.id) {
+      recipe = (await getRecipe(entry.id))?.recipe;
+      if (!recipe) return Response.json({ ok: false, error: `Recipe not found: ${entry.id}` }, { status: 404 });
+    }
+    // each recipe scaled on its own, before the lines are merged
+    if (entry.servings || entry.factor) recipe = scaleRecipe(recipe!, entry).recipe;
+    recipes.push(recipe!);
+  }
+  const list = buildShoppingList(recipes, {
+    staples: body.staples ?? (await getStaples()),
+    system: body.system,
+  });
+  if (body.format === "json") return Response.json({ ok: true, list });
+
+  const { ext, contentType } = EXPORT_FILE[body.format];
+  return new Response(body.format === "markdown" ? shoppingToMarkdown(list) : shoppingToText(list), {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="shopping-list.${ext}"`,
+    },
+  });
+}
+
+export async function POST(req: Request) {
+  try {
+    return await shoppingResponse(BodySchema.parse(await req.json()));
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
+
+// GET /api/shopping-list?id=<saved id>&id=<saved id>&format=markdown — plain links for saved recipes
+export async function GET(req: Request) {
+  try {
+    const sp = new URL(req.url).searchParams;
+    const body = BodySchema.parse({
+      recipes: sp.getAll("id").map((id) => ({ id })),
+      system: sp.get("system") ?? undefined,
+      format: sp.get("format") ?? "markdown",
+    });
+    return await shoppingResponse(body);
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
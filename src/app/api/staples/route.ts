@@ -0,0 +1,24 @@
+// src/app/api/staples/route.ts
+import { z } from "zod";
+import { getStaples, setStaples } from "@/lib/server/staples";
+
+export const runtime = "nodejs";
+
+const BodySchema = z.object({ items: z.array(z.string()) });
+
+export async function GET() {
+  try {
+    return Response.json({ ok: true, items: await getStaples() });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  try {
+    const { items } = BodySchema.parse(await req.json());
+    return Response.json({ ok: true, items: await setStaples(items) });
+  } catch (e: any) {
+    return Response.json({ ok: false, error: e?.message ?? "Unknown error" }, { status: 400 });
+  }
+}
@@ -1,21 +1,37 @@
 
 // src/app/api/transcribe/route.ts
 import { z } from "zod";
-import { transcribeUrl } from "@/lib/server/transcribe";
+import { enqueueJob, runQueued } from "@/lib/server/jobs";
+import { TranscribeError, transcribeUrl } from "@/lib/server/transcribe";
 
 export const runtime = "nodejs";
 
 const BodySchema = z.object({
   url: z.string().url(),
-  model: z.string().optional().default("tiny"),
+  model: z.string().optional(), // WHISPER_MODEL when unset
+  async: z.boolean().optional().default(false), // enqueue a job, poll /api/jobs/:id
 });
 
 export async function POST(req: Request) {
   try {
-    const { url, model } = BodySchema.parse(await req.json());
-    const res = await transcribeUrl(url, model);
+    const { url, model, async } = BodySchema.parse(await req.json());
+    if (async) {
+      const job = enqueueJob("transcribe", (push, signal) =>
+        transcribeUrl(url, model, push, signal)
+      );
+      return Response.json(
+        { ok: true, jobId: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` },
+        { status: 202 }
+      );
+    }
+
+    // still queued, so JOB_CONCURRENCY covers it
+    const res = await runQueued("transcribe", (_push, signal) => transcribeUrl(url, model, undefined, signal));
     return Response.json({ ok: true, ...res });
   } catch (e: any) {
+    if (e instanceof TranscribeError) {
+      return Response.json({ ok: false, error: e.message, code: e.code, stage: e.stage }, { status: 502 });
+    }
     return Response.json(
       { ok: false, error: e?.message ?? "Unknown error" },
       { status: 400 }
@@ -0,0 +1,11 @@
+import { getTranscribeConfig } from "@/lib/server/transcribe";
+import { pingWorker } from "@/lib/server/whisperWorker";
+
+export const runtime = "nodejs";
+
+// GET /api/whisper/health — worker status; pings it when idle. ?start=1 spawns it if it isn't running.
+export async function GET(req: Request) {
+  const start = new URL(req.url).searchParams.get("start") === "1";
+  const health = await pingWorker({ start, pythonBin: getTranscribeConfig().pythonBin });
+  return Response.json(health, { status: health.ok ? 200 : 503 });
+}
@@ -2,12 +2,72 @@
 
 import { useMemo, useState } from "react";
 
+type SegmentRef = { index: number; start: number; end: number };
+
+type Confidence = { score: number; reason: string };
+
+type RecipeStep = {
+  text: string;
+  segment?: SegmentRef;
+  confidence?: Confidence;
+  duration?: { minutes: number; maxMinutes?: number };
+  temperature?: { value: number; unit: "C" | "F" };
+  heat?: string;
+};
+
+type ParsedIngredient = {
+  raw: string;
+  quantity?: number;
+  quantityMax?: number;
+  unit?: string;
+  item: string;
+  prep?: string;
+  optional: boolean;
+  segment?: SegmentRef;
+  confidence?: Confidence;
+};
+
+type Nutrients = { calories: number; protein: number; fat: number; carbs: number; fiber: number; sodium: number };
+
+type Nutrition = {
+  perServing: Nutrients;
+  servings: number;
+  servingsAssumed: boolean;
+  counted: number;
+  lines: { line: string; food?: string; ignored?: string }[];
+};
+
 type Recipe = {
   title?: string;
+  author?: string;
+  servings?: string;
+  language?: string;
+  time?: string;
   ingredients?: string[];
+  parsedIngredients?: ParsedIngredient[];
   steps?: string[];
+  stepDetails?: RecipeStep[];
   notes?: string[];
   sourceUrl?: string;
+  nutrition?: Nutrition;
+};
+
+type SourceMeta = { platform: string; title?: string; author?: string };
+
+type SavedRecipe = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  recipe: Recipe;
+  sourceUsed?: SourceMeta;
+};
+
+type Diagnostics = {
+  extractedBy?: string;
+  grade: string;
+  score: number;
+  lowConfidenceBelow: number;
+  issues: { code: string; severity: "info" | "warning" | "error"; message: string }[];
 };
 
 type StepEvent = {
@@ -17,11 +77,142 @@ type StepEvent = {
   data?: any;
 };
 
+const EXPORTS: { format: string; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "text", label: "Text" },
+  { format: "jsonld", label: "JSON-LD" },
+  { format: "paprika", label: "Paprika" },
+  { format: "mealie", label: "Mealie" },
+];
+
 function fmtTime(ms: number) {
   const d = new Date(ms);
   return d.toLocaleTimeString();
 }
 
+// Minimal SSE reader for fetch() responses (EventSource can't POST)
+async function readSse(res: Response, onEvent: (event: string, data: any) => void) {
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buf = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += value;
+
+    let sep: number;
+    while ((sep = buf.indexOf("\n\n")) !== -1) {
+      const frame = buf.slice(0, sep);
+      buf = buf.slice(sep + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) onEvent(event, JSON.parse(data.join("\n")));
+    }
+  }
+}
+
+function fmtClock(sec: number) {
+  const s = Math.floor(sec);
+  const h = Math.floor(s / 3600);
+  const mm = String(Math.floor((s % 3600) / 60));
+  const ss = String(s % 60).padStart(2, "0");
+  return h ? `${h}:${mm.padStart(2, "0")}:${ss}` : `${mm}:${ss}`;
+}
+
+// Link to the moment in the video (YouTube and most players honour ?t=)
+function deepLink(sourceUrl: string | undefined, sec: number) {
+  if (!sourceUrl) return null;
+  try {
+    const u = new URL(sourceUrl);
+    u.searchParams.set("t", `${Math.floor(sec)}s`);
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+function TimeLink({ sourceUrl, segment }: { sourceUrl?: string; segment?: SegmentRef }) {
+  if (!segment) return null;
+  const href = deepLink(sourceUrl, segment.start);
+  if (!href) return null;
+  return (
+    <a
+      className="ml-2 whitespace-nowrap text-xs text-emerald-400 hover:underline"
+      href={href}
+      target="_blank"
+      rel="noreferrer"
+      title="Show me where they do this"
+    >
+      ▶ {fmtClock(segment.start)}
+    </a>
+  );
+}
+
+// "10–12 min · 180°C · medium-high heat"
+function NutritionPanel({ nutrition }: { nutrition: Nutrition }) {
+  const n = nutrition.perServing;
+  const ignored = nutrition.lines.filter((l) => l.ignored);
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-medium text-zinc-200">
+        Nutrition{" "}
+        <span className="font-normal text-zinc-500">
+          (estimate, {nutrition.servingsAssumed ? "whole recipe" : `per serving of ${nutrition.servings}`})
+        </span>
+      </h3>
+      <p className="mt-2 text-sm text-zinc-300">
+        {n.calories} kcal · protein {n.protein} g · fat {n.fat} g · carbs {n.carbs} g · fiber {n.fiber} g · sodium{" "}
+        {n.sodium} mg
+      </p>
+      {ignored.length ? (
+        <p
+          className="mt-1 text-xs text-zinc-500"
+          title={ignored.map((l) => `${l.line}: ${l.ignored}`).join("\n")}
+        >
+          {nutrition.counted} of {nutrition.lines.length} ingredient lines counted; hover for the rest
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+function StepTiming({ step }: { step: RecipeStep }) {
+  const { duration: d, temperature: t, heat } = step;
+  const parts = [
+    d ? `${d.minutes}${d.maxMinutes ? `–${d.maxMinutes}` : ""} min` : "",
+    t ? `${t.value}°${t.unit}` : "",
+    heat ? `${heat} heat` : "",
+  ].filter(Boolean);
+  if (!parts.length) return null;
+  return <span className="ml-2 whitespace-nowrap text-xs text-zinc-500">{parts.join(" · ")}</span>;
+}
+
+// Tooltip + amber styling for lines the extractor wasn't sure about
+function confidenceHint(c: Confidence | undefined, below: number) {
+  if (!c) return { low: false, title: undefined };
+  const title = `${Math.round(c.score * 100)}% · ${c.reason}`;
+  return { low: c.score < below, title };
+}
+
+const GRADE_STYLE: Record<string, string> = {
+  A: "border-emerald-700 text-emerald-300",
+  B: "border-emerald-800 text-emerald-400",
+  C: "border-amber-700 text-amber-300",
+  D: "border-orange-700 text-orange-300",
+  F: "border-red-800 text-red-300",
+};
+
+function fmtAmount(p: ParsedIngredient) {
+  if (p.quantity === undefined) return p.unit ?? "";
+  const n = (x: number) => String(Math.round(x * 100) / 100);
+  const qty = p.quantityMax !== undefined ? `${n(p.quantity)}–${n(p.quantityMax)}` : n(p.quantity);
+  return p.unit ? `${qty} ${p.unit}` : qty;
+}
+
 export default function Page() {
   const [url, setUrl] = useState("");
   const [pastedText, setPastedText] = useState("");
@@ -30,11 +221,33 @@ export default function Page() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [recipe, setRecipe] = useState<Recipe | null>(null);
+  // as extracted/opened; scaling always starts from this so repeated changes don't drift
+  const [baseRecipe, setBaseRecipe] = useState<Recipe | null>(null);
+  const [diagnostics, setDiagnostics] = useState<Diagnostics | null>(null);
+  const [scaleServings, setScaleServings] = useState("");
+  const [unitSystem, setUnitSystem] = useState<"" | "metric" | "imperial">("");
 
   const [debugMode, setDebugMode] = useState(true);
+  const [forceRefresh, setForceRefresh] = useState(false);
+  const [language, setLanguage] = useState(""); // preferred caption language, blank = auto
   const [steps, setSteps] = useState<StepEvent[]>([]);
   const [rawResponse, setRawResponse] = useState<string>("");
 
+  const [sourceUsed, setSourceUsed] = useState<SourceMeta | null>(null);
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [libOpen, setLibOpen] = useState(false);
+  const [libQuery, setLibQuery] = useState("");
+  const [libPage, setLibPage] = useState(1);
+  const [library, setLibrary] = useState<{ items: SavedRecipe[]; total: number; pageSize: number }>({
+    items: [],
+    total: 0,
+    pageSize: 10,
+  });
+
+  const lowBelow = diagnostics?.lowConfidenceBelow ?? 0.5;
+
   const canRun = useMemo(() => url.trim().length > 0, [url]);
 
   const pushStep = (step: string, msg?: string, data?: any) => {
@@ -44,6 +257,9 @@ export default function Page() {
   async function extract() {
     setError("");
     setRecipe(null);
+    setBaseRecipe(null);
+    setDiagnostics(null);
+    setSavedId(null);
     setRawResponse("");
     setSteps([]);
     setLoading(true);
@@ -61,36 +277,57 @@ export default function Page() {
           pastedText,
           whisperModel: model,
           debug: debugMode,
+          forceRefresh,
+          language: language.trim() || undefined,
+          stream: true,
         }),
       });
 
       pushStep("client.fetch.done", `HTTP ${res.status}`, { ok: res.ok });
 
-      const raw = await res.text();
-      setRawResponse(raw);
-
       let data: any = null;
-      try {
-        data = raw ? JSON.parse(raw) : null;
-      } catch {
-        pushStep("client.parseJson.fail", "Response was not valid JSON", {
-          preview: raw.slice(0, 200),
-        });
-        throw new Error(`Bad JSON from server: ${raw.slice(0, 200)}`);
-      }
+      let status = res.status;
 
-      // show server-reported steps (super helpful)
-      if (Array.isArray(data?.steps)) {
-        pushStep("client.mergeServerSteps", "Merging server steps", { count: data.steps.length });
-        setSteps((prev) => [...prev, ...data.steps]);
+      if (res.ok && (res.headers.get("content-type") || "").includes("text/event-stream")) {
+        // live steps: render each one as the server emits it
+        await readSse(res, (event, payload) => {
+          if (event === "step") setSteps((prev) => [...prev, payload]);
+          else if (event === "result") data = payload;
+        });
+        setRawResponse(data ? JSON.stringify(data) : "");
+        if (!data) throw new Error("Stream ended without a result");
+        status = data.status ?? status;
+      } else {
+        const raw = await res.text();
+        setRawResponse(raw);
+
+        try {
+          data = raw ? JSON.parse(raw) : null;
+        } catch {
+          pushStep("client.parseJson.fail", "Response was not valid JSON", {
+            preview: raw.slice(0, 200),
+          });
+          throw new Error(`Bad JSON from server: ${raw.slice(0, 200)}`);
+        }
+
+        // show server-reported steps (super helpful)
+        if (Array.isArray(data?.steps)) {
+          pushStep("client.mergeServerSteps", "Merging server steps", { count: data.steps.length });
+          setSteps((prev) => [...prev, ...data.steps]);
+        }
       }
 
-      if (!res.ok) {
-        pushStep("client.error", data?.error || `HTTP ${res.status}`, { step: data?.step });
-        throw new Error(data?.error || `HTTP ${res.status}`);
+      if (!data?.ok) {
+        pushStep("client.error", data?.error || `HTTP ${status}`, { step: data?.step });
+        throw new Error(data?.error || `HTTP ${status}`);
       }
 
       setRecipe(data.recipe ?? null);
+      setBaseRecipe(data.recipe ?? null);
+      setDiagnostics(data.diagnostics ?? null);
+      setScaleServings("");
+      setUnitSystem("");
+      setSourceUsed(data.sourceUsed ?? null);
       pushStep("client.done", "Success");
     } catch (e: any) {
       setError(e?.message ?? String(e));
@@ -100,10 +337,122 @@ export default function Page() {
     }
   }
 
+  async function saveRecipe() {
+    if (!recipe) return;
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(savedId ? `/api/recipes/${savedId}` : "/api/recipes", {
+        method: savedId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipe, sourceUsed: sourceUsed ?? undefined }),
+      });
+      const data = await res.json();
+      if (!data?.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setSavedId(data.recipe.id);
+      if (libOpen) await loadLibrary(libPage, libQuery);
+    } catch (e: any) {
+      setError(`Save failed: ${e?.message ?? String(e)}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function applyScale(servings: string, system: "" | "metric" | "imperial") {
+    if (!baseRecipe) return;
+    setScaleServings(servings);
+    setUnitSystem(system);
+    const n = Number(servings);
+    if (!(n > 0) && !system) {
+      setRecipe(baseRecipe);
+      return;
+    }
+    try {
+      const res = await fetch("/api/recipes/scale", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          recipe: baseRecipe,
+          servings: n > 0 ? n : undefined,
+          system: system || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!data?.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setRecipe(data.recipe);
+    } catch (e: any) {
+      setError(`Scaling failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  async function downloadExport(format: string) {
+    if (!recipe) return;
+    try {
+      const res = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ recipe, format }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || `HTTP ${res.status}`);
+      }
+      const name =
+        res.headers.get("content-disposition")?.match(/filename="([^"]+)"/)?.[1] ?? `recipe.${format}`;
+      const href = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = href;
+      a.download = name;
+      a.click();
+      URL.revokeObjectURL(href);
+    } catch (e: any) {
+      setError(`Export failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  async function loadLibrary(page = 1, q = libQuery) {
+    try {
+      const qs = new URLSearchParams({ page: String(page), pageSize: "10" });
+      if (q.trim()) qs.set("q", q.trim());
+      const res = await fetch(`/api/recipes?${qs}`);
+      const data = await res.json();
+      if (!data?.ok) throw new Error(data?.error || `HTTP ${res.status}`);
+      setLibrary({ items: data.items, total: data.total, pageSize: data.pageSize });
+      setLibPage(data.page);
+    } catch (e: any) {
+      setError(`Library failed: ${e?.message ?? String(e)}`);
+    }
+  }
+
+  async function deleteSaved(id: string) {
+    const res = await fetch(`/api/recipes/${id}`, { method: "DELETE" });
+    if (!res.ok) {
+      setError(`Delete failed (HTTP ${res.status})`);
+      return;
+    }
+    if (savedId === id) setSavedId(null);
+    const lastOnPage = library.items.length === 1 && libPage > 1;
+    await loadLibrary(lastOnPage ? libPage - 1 : libPage);
+  }
+
+  function openSaved(saved: SavedRecipe) {
+    setRecipe(saved.recipe);
+    setBaseRecipe(saved.recipe);
+    setDiagnostics(null);
+    setScaleServings("");
+    setUnitSystem("");
+    setSourceUsed(saved.sourceUsed ?? null);
+    setSavedId(saved.id);
+    setError("");
+  }
+
   function reset() {
     setUrl("");
     setPastedText("");
     setRecipe(null);
+    setBaseRecipe(null);
+    setDiagnostics(null);
+    setSavedId(null);
     setError("");
     setSteps([]);
     setRawResponse("");
@@ -163,6 +512,22 @@ export default function Page() {
                 <option value="large-v3">large-v3 (slowest)</option>
               </select>
 
+              <label className="mt-2 block text-sm text-zinc-300">Caption language</label>
+              <select
+                className="w-full rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={language}
+                onChange={(e) => setLanguage(e.target.value)}
+                disabled={loading}
+              >
+                <option value="">auto (English first)</option>
+                <option value="en">English</option>
+                <option value="es">Spanish</option>
+                <option value="hi">Hindi</option>
+                <option value="it">Italian</option>
+                <option value="fr">French</option>
+                <option value="de">German</option>
+              </select>
+
               <label className="mt-2 flex items-center gap-2 text-sm text-zinc-300">
                 <input
                   type="checkbox"
@@ -173,6 +538,17 @@ export default function Page() {
                 />
                 Debug mode (return server steps + errors)
               </label>
+
+              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-emerald-500"
+                  checked={forceRefresh}
+                  onChange={(e) => setForceRefresh(e.target.checked)}
+                  disabled={loading}
+                />
+                Force refresh (ignore cached transcripts)
+              </label>
             </div>
 
             <div className="flex gap-2">
@@ -255,24 +631,152 @@ export default function Page() {
         {/* Recipe */}
         {recipe ? (
           <section className="mt-8 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-5">
-            <h2 className="text-xl font-semibold">{recipe.title || "Recipe"}</h2>
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <h2 className="flex items-center gap-2 text-xl font-semibold">
+                  {recipe.title || "Recipe"}
+                  {diagnostics ? (
+                    <span
+                      className={`rounded-md border px-1.5 py-0.5 text-xs font-medium ${GRADE_STYLE[diagnostics.grade] ?? ""}`}
+                      title={`Quality ${Math.round(diagnostics.score * 100)}%${
+                        diagnostics.extractedBy ? ` · ${diagnostics.extractedBy}` : ""
+                      }`}
+                    >
+                      {diagnostics.grade}
+                    </span>
+                  ) : null}
+                </h2>
+                {recipe.author || recipe.servings || recipe.time || recipe.language ? (
+                  <p className="mt-1 text-xs text-zinc-400">
+                    {[
+                      recipe.author && `by ${recipe.author}`,
+                      recipe.servings,
+                      recipe.time,
+                      recipe.language && recipe.language.toUpperCase(),
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                ) : null}
+              </div>
+              <button
+                type="button"
+                className="shrink-0 rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-1.5 text-xs hover:border-zinc-700 disabled:opacity-50"
+                onClick={saveRecipe}
+                disabled={saving}
+              >
+                {saving ? "Saving..." : savedId ? "Update saved" : "Save"}
+              </button>
+            </div>
+
+            <div className="mt-3 flex flex-wrap gap-2">
+              {EXPORTS.map((x) => (
+                <button
+                  key={x.format}
+                  type="button"
+                  className="rounded-lg border border-zinc-800 bg-zinc-950 px-2.5 py-1 text-xs text-zinc-300 hover:border-zinc-700"
+                  onClick={() => downloadExport(x.format)}
+                >
+                  ⤓ {x.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+              <label className="flex items-center gap-2">
+                Servings
+                <input
+                  type="number"
+                  min={1}
+                  className="w-16 rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1 text-zinc-100 outline-none focus:border-zinc-600 disabled:opacity-50"
+                  placeholder={baseRecipe?.servings?.match(/\d+/)?.[0] ?? "–"}
+                  value={scaleServings}
+                  onChange={(e) => applyScale(e.target.value, unitSystem)}
+                  disabled={!baseRecipe?.servings?.match(/\d/)}
+                  title={baseRecipe?.servings ? `Original: ${baseRecipe.servings}` : "No serving count found"}
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                Units
+                <select
+                  className="rounded-lg border border-zinc-800 bg-zinc-950 px-2 py-1 text-zinc-100 outline-none focus:border-zinc-600"
+                  value={unitSystem}
+                  onChange={(e) => applyScale(scaleServings, e.target.value as "" | "metric" | "imperial")}
+                >
+                  <option value="">original</option>
+                  <option value="metric">metric</option>
+                  <option value="imperial">imperial</option>
+                </select>
+              </label>
+            </div>
+
+            {diagnostics?.issues.length ? (
+              <ul className="mt-3 space-y-1 text-xs">
+                {diagnostics.issues.map((x) => (
+                  <li
+                    key={x.code}
+                    className={
+                      x.severity === "error"
+                        ? "text-red-300"
+                        : x.severity === "warning"
+                          ? "text-amber-300"
+                          : "text-zinc-400"
+                    }
+                  >
+                    {x.message}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
 
             <div className="mt-4 grid gap-6 sm:grid-cols-2">
               <div>
                 <h3 className="text-sm font-medium text-zinc-200">Ingredients</h3>
                 <ul className="mt-2 list-disc space-y-1 pl-5 text-sm text-zinc-300">
-                  {(recipe.ingredients || []).map((x, i) => (
-                    <li key={i}>{x}</li>
-                  ))}
+                  {recipe.parsedIngredients?.length
+                    ? recipe.parsedIngredients.map((p, i) => {
+                        const hint = confidenceHint(p.confidence, lowBelow);
+                        return (
+                          <li
+                            key={i}
+                            title={[p.raw, hint.title].filter(Boolean).join("\n")}
+                            className={hint.low ? "text-amber-300/90 marker:text-amber-500" : undefined}
+                          >
+                            {fmtAmount(p) ? (
+                              <span className="font-medium text-zinc-100">{fmtAmount(p)} </span>
+                            ) : null}
+                            {p.item}
+                            {p.prep ? <span className="text-zinc-500">, {p.prep}</span> : null}
+                            {p.optional ? <span className="text-zinc-500"> (optional)</span> : null}
+                            <TimeLink sourceUrl={recipe.sourceUrl} segment={p.segment} />
+                            {hint.low ? <span className="ml-1 text-xs text-amber-500">?</span> : null}
+                          </li>
+                        );
+                      })
+                    : (recipe.ingredients || []).map((x, i) => <li key={i}>{x}</li>)}
                 </ul>
               </div>
 
               <div>
                 <h3 className="text-sm font-medium text-zinc-200">Steps</h3>
                 <ol className="mt-2 list-decimal space-y-2 pl-5 text-sm text-zinc-300">
-                  {(recipe.steps || []).map((x, i) => (
-                    <li key={i}>{x}</li>
-                  ))}
+                  {recipe.stepDetails?.length
+                    ? recipe.stepDetails.map((x, i) => {
+                        const hint = confidenceHint(x.confidence, lowBelow);
+                        return (
+                          <li
+                            key={i}
+                            title={hint.title}
+                            className={hint.low ? "text-amber-300/90 marker:text-amber-500" : undefined}
+                          >
+                            {x.text}
+                            <StepTiming step={x} />
+                            <TimeLink sourceUrl={recipe.sourceUrl} segment={x.segment} />
+                            {hint.low ? <span className="ml-1 text-xs text-amber-500">?</span> : null}
+                          </li>
+                        );
+                      })
+                    : (recipe.steps || []).map((x, i) => <li key={i}>{x}</li>)}
                 </ol>
               </div>
             </div>
@@ -288,6 +792,8 @@ export default function Page() {
               </div>
             ) : null}
 
+            {recipe.nutrition?.counted ? <NutritionPanel nutrition={recipe.nutrition} /> : null}
+
             {recipe.sourceUrl ? (
               <p className="mt-4 text-xs text-zinc-400">
                 Source:{" "}
@@ -298,6 +804,88 @@ export default function Page() {
             ) : null}
           </section>
         ) : null}
+
+        {/* Library */}
+        <section className="mt-8 rounded-2xl border border-zinc-800 bg-zinc-900/40 p-5">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium text-zinc-200">Library</h3>
+            <button
+              type="button"
+              className="text-xs text-zinc-400 underline"
+              onClick={() => {
+                if (!libOpen) loadLibrary(1);
+                setLibOpen(!libOpen);
+              }}
+            >
+              {libOpen ? "hide" : "show saved recipes"}
+            </button>
+          </div>
+
+          {libOpen ? (
+            <div className="mt-3 space-y-3">
+              <input
+                className="w-full rounded-xl border border-zinc-800 bg-zinc-950 px-3 py-2 text-sm outline-none focus:border-zinc-600"
+                value={libQuery}
+                onChange={(e) => setLibQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") loadLibrary(1, libQuery);
+                }}
+                placeholder="Search titles and ingredients (Enter)"
+              />
+
+              {library.items.length === 0 ? (
+                <p className="text-xs text-zinc-400">No saved recipes.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {library.items.map((r) => (
+                    <li
+                      key={r.id}
+                      className="flex items-center justify-between gap-3 rounded-xl bg-zinc-950 p-3"
+                    >
+                      <button type="button" className="text-left hover:underline" onClick={() => openSaved(r)}>
+                        <span className="text-zinc-100">{r.recipe.title || "Recipe"}</span>
+                        <span className="ml-2 text-xs text-zinc-500">
+                          {r.sourceUsed?.platform ?? ""} · {new Date(r.updatedAt).toLocaleDateString()}
+                        </span>
+                      </button>
+                      <button
+                        type="button"
+                        className="text-xs text-red-300 underline"
+                        onClick={() => deleteSaved(r.id)}
+                      >
+                        delete
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {library.total > library.pageSize ? (
+                <div className="flex items-center justify-between text-xs text-zinc-400">
+                  <button
+                    type="button"
+                    className="underline disabled:opacity-40"
+                    disabled={libPage <= 1}
+                    onClick={() => loadLibrary(libPage - 1)}
+                  >
+                    prev
+                  </button>
+                  <span>
+                    page {libPage} of {Math.ceil(library.total / library.pageSize)}
+                  </span>
+                  <button
+                    type="button"
+                    className="underline disabled:opacity-40"
+                    disabled={libPage * library.pageSize >= library.total}
+                    onClick={() => loadLibrary(libPage + 1)}
+                  >
+                    next
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </section>
       </div>
     </main>
   );
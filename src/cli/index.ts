@@ -0,0 +1,231 @@
+// src/cli/index.ts
+// recipe-ripper CLI: the /api/extract pipeline without the Next.js server.
+//
+//   recipe-ripper extract <url> [--model small] [--format md|text|json] [--paste file.txt]
+//   recipe-ripper transcribe <url> [--model small] [--format text|json]
+//
+// Output goes to stdout; with --verbose, step events go to stderr.
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { toMarkdown, toPlainText } from "@/lib/export";
+import type { Recipe } from "@/lib/recipe";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import {
+  getTranscribeConfig,
+  TranscribeError,
+  transcribeUrl,
+  type PushStep,
+  type StepEvent,
+  type TranscribeStage,
+} from "@/lib/server/transcribe";
+
+// Exit codes, so shell scripts can tell failures apart
+export const EXIT = {
+  ok: 0,
+  error: 1, // anything unexpected
+  usage: 2,
+  notEnoughText: 3, // nothing usable from the platform, Whisper or --paste
+  downloadFailed: 4, // yt-dlp couldn't fetch the audio
+  whisperFailed: 5, // the transcription script failed
+  interrupted: 130,
+} as const;
+
+const USAGE = `Usage:
+  recipe-ripper extract <url> [options]
+  recipe-ripper transcribe <url> [options]
+
+Options:
+  -m, --model <name>      Whisper model: tiny, base, small, medium, large-v3 (default: $WHISPER_MODEL or tiny)
+  -f, --format <fmt>      extract: md, text or json (default: md); transcribe: text or json (default: text)
+  -p, --paste <file>      Extra text to combine with the source (captions, ingredient list); "-" reads stdin
+  -l, --language <code>   Preferred caption language, e.g. es or pt-BR
+      --force-refresh     Ignore cached platform text and transcripts
+      --ocr               Also read on-screen text from the video (needs tesseract)
+  -v, --verbose           Print pipeline steps to stderr
+  -h, --help              Show this help
+
+Exit codes: 0 ok, 1 error, 2 usage, 3 not enough text, 4 download failed, 5 whisper failed`;
+
+class CliError extends Error {
+  constructor(
+    message: string,
+    public code: number
+  ) {
+    super(message);
+  }
+}
+
+type Options = {
+  model: string;
+  format?: string;
+  paste?: () => Promise<string>;
+  language?: string;
+  forceRefresh: boolean;
+  ocr: boolean;
+  verbose: boolean;
+};
+
+async function readStdin() {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function stepLogger(verbose: boolean, steps: StepEvent[]): PushStep {
+  const t0 = Date.now();
+  return (step, msg, data) => {
+    const t = Date.now();
+    steps.push({ t, step, msg, data });
+    if (!verbose) return;
+    const secs = ((t - t0) / 1000).toFixed(1).padStart(5);
+    process.stderr.write(`[${secs}s] ${step}${msg ? `  ${msg}` : ""}\n`);
+  };
+}
+
+function stageExit(stage?: TranscribeStage): number {
+  if (stage === "download") return EXIT.downloadFailed;
+  if (stage === "whisper") return EXIT.whisperFailed;
+  return EXIT.error;
+}
+
+// runExtract puts the TranscribeError's stage on the transcribe.exception step
+function transcribeFailure(steps: StepEvent[]): number | null {
+  const failed = steps.findLast((s) => s.step === "transcribe.exception");
+  return failed ? stageExit(failed.data?.stage) : null;
+}
+
+function render(recipe: Recipe, body: Record<string, unknown>, format: string) {
+  if (format === "json") return JSON.stringify(body, null, 2) + "\n";
+  if (format === "text") return toPlainText(recipe);
+  return toMarkdown(recipe);
+}
+
+async function extract(url: string, opts: Options, signal: AbortSignal) {
+  if (!["md", "text", "json"].includes(opts.format ?? "md")) {
+    throw new CliError(`Unknown --format "${opts.format}" (md, text, json)`, EXIT.usage);
+  }
+  const pastedText = opts.paste ? await opts.paste() : "";
+
+  const parsed = ExtractBodySchema.safeParse({
+    url,
+    pastedText,
+    whisperModel: opts.model,
+    language: opts.language,
+    forceRefresh: opts.forceRefresh,
+    ocr: opts.ocr,
+  });
+  if (!parsed.success) {
+    throw new CliError(parsed.error.issues.map((i) => i.message).join("; "), EXIT.usage);
+  }
+
+  const steps: StepEvent[] = [];
+  const { body } = await runExtract(parsed.data, stepLogger(opts.verbose, steps), signal);
+  if (!body.ok) {
+    const code = transcribeFailure(steps) ?? EXIT.notEnoughText;
+    const reason = body.whisperErrorCode ? `${body.whisperErrorCode}: ` : "";
+    const detail = body.whisperError ? ` (${reason}${body.whisperError})` : "";
+    throw new CliError(`${body.error}${detail}`, code);
+  }
+  process.stdout.write(render(body.recipe as Recipe, body, opts.format ?? "md"));
+}
+
+async function transcribe(url: string, opts: Options, signal: AbortSignal) {
+  if (!["text", "json"].includes(opts.format ?? "text")) {
+    throw new CliError(`Unknown --format "${opts.format}" (text, json)`, EXIT.usage);
+  }
+  const steps: StepEvent[] = [];
+  const push = stepLogger(opts.verbose, steps);
+  try {
+    push("transcribe.start", `Running whisper (${opts.model})`);
+    const tr = await transcribeUrl(url, opts.model, push, signal);
+    if (!tr.text.trim()) throw new CliError("Transcribe returned empty text.", EXIT.notEnoughText);
+    process.stdout.write(opts.format === "json" ? JSON.stringify(tr, null, 2) + "\n" : tr.text + "\n");
+  } catch (e: any) {
+    if (e instanceof CliError || signal.aborted) throw e;
+    if (e instanceof TranscribeError) throw new CliError(`${e.code}: ${e.message}`, stageExit(e.stage));
+    throw new CliError(e?.message ?? "Transcribe failed", EXIT.error);
+  }
+}
+
+export async function main(argv: string[]): Promise<number> {
+  let args: ReturnType<typeof parse>;
+  try {
+    args = parse(argv);
+  } catch (e: any) {
+    process.stderr.write(`${e?.message ?? e}\n\n${USAGE}\n`);
+    return EXIT.usage;
+  }
+  const { values, positionals } = args;
+  const [command, url, ...extra] = positionals;
+
+  if (values.help || !command) {
+    (values.help ? process.stdout : process.stderr).write(USAGE + "\n");
+    return values.help ? EXIT.ok : EXIT.usage;
+  }
+  if (!["extract", "transcribe"].includes(command) || !url || extra.length) {
+    process.stderr.write(`${USAGE}\n`);
+    return EXIT.usage;
+  }
+
+  // --paste is relative to where the user ran us, before we move to the project root
+  const pasteArg = values.paste;
+  const pasteFile = pasteArg && pasteArg !== "-" ? path.resolve(pasteArg) : undefined;
+  const opts: Options = {
+    model: values.model ?? getTranscribeConfig().model,
+    format: values.format,
+    paste: pasteArg ? () => (pasteFile ? readFile(pasteFile, "utf8") : readStdin()) : undefined,
+    language: values.language,
+    forceRefresh: values["force-refresh"] ?? false,
+    ocr: values.ocr ?? false,
+    verbose: values.verbose ?? false,
+  };
+
+  // scripts/transcribe.py, .venv and .data resolve against cwd, same as for `next start`
+  process.chdir(path.resolve(__dirname, "..", ".."));
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.once("SIGINT", onSigint);
+
+  try {
+    if (command === "extract") await extract(url, opts, controller.signal);
+    else await transcribe(url, opts, controller.signal);
+    return EXIT.ok;
+  } catch (e: any) {
+    if (controller.signal.aborted) {
+      process.stderr.write("Interrupted\n");
+      return EXIT.interrupted;
+    }
+    process.stderr.write(`recipe-ripper: ${e?.message ?? e}\n`);
+    return e instanceof CliError ? e.code : EXIT.error;
+  } finally {
+    process.off("SIGINT", onSigint);
+  }
+}
+
+function parse(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      model: { type: "string", short: "m" },
+      format: { type: "string", short: "f" },
+      paste: { type: "string", short: "p" },
+      language: { type: "string", short: "l" },
+      "force-refresh": { type: "boolean" },
+      ocr: { type: "boolean" },
+      verbose: { type: "boolean", short: "v" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+}
+
+main(process.argv.slice(2)).then(
+  // let stdout drain first when it's a pipe
+  (code) => process.stdout.write("", () => process.exit(code)),
+  (e) => {
+    process.stderr.write(`recipe-ripper: ${e?.stack ?? e}\n`);
+    process.exit(EXIT.error);
+  }
+);
@@ -0,0 +1,12 @@
+// src/instrumentation.ts
+// Runs once when the Next.js server starts.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  // pick up batches a previous process didn't finish
+  const { resumeBatches } = await import("@/lib/server/batch");
+  const resumed = await resumeBatches().catch((e: any) => {
+    console.error("Resuming batches failed:", e?.message ?? e);
+    return [];
+  });
+  if (resumed.length) console.log(`Resumed ${resumed.length} unfinished batch(es)`);
+}
@@ -0,0 +1,204 @@
+// Transcript cleaning before extraction. Sponsor reads, channel intros/outros,
+// "like and subscribe" and self-promotion are cut by phrase, and timed
+// transcripts also by SponsorBlock-style skip spans. Removed segments keep their
+// slot with empty text, so SegmentRef indexes still point into the original list.
+import { segmentsToText, type TranscriptSegment } from "@/lib/segments";
+
+// SponsorBlock's category names; the phrase rules use the same ones
+export type CleanCategory = "sponsor" | "selfpromo" | "interaction" | "intro" | "outro";
+
+export type SkipSpan = { start: number; end: number; category: string }; // seconds
+
+export type RemovedSpan = {
+  category: string;
+  by: "phrase" | "sponsorblock";
+  text: string; // the start of what was cut
+  start?: number; // seconds, timed transcripts only
+  end?: number;
+};
+
+export type CleanResult = {
+  text: string;
+  segments?: TranscriptSegment[];
+  removed: RemovedSpan[];
+  removedChars: number;
+};
+
+// A sentence (plain text) or a segment (timed), as a range of the text the rules run on
+type Unit = { from: number; to: number; start?: number; end?: number };
+type Mark = { category: string; by: RemovedSpan["by"] };
+
+type Rule = { category: CleanCategory; re: RegExp; where?: "start" | "end" };
+
+const RULES: Rule[] = [
+  {
+    category: "sponsor",
+    re: /\b(?:this (?:video|episode) is (?:brought to you|sponsored) by|sponsored by|today's sponsor|thanks? (?:you )?to [\p{L}\p{N} .&'-]{1,40}? for sponsoring|(?:use|with) (?:my |the )?code\b|promo code|discount code|patrocinad[oa] por|c[oó]digo de descuento|sponsoris[ée] par|gesponsert von)/iu,
+  },
+  {
+    category: "selfpromo",
+    re: /\b(?:follow me on|check out my (?:cookbook|channel|merch|patreon|website|blog)|link in (?:my |the )?(?:bio|description)|my patreon|my (?:new )?cookbook)\b/i,
+  },
+  {
+    category: "interaction",
+    re: /\b(?:subscribe|hit the (?:like|bell)|notification bell|smash (?:that|the) like|in the comments|leave (?:me )?a comment|comment below|drop a comment|suscr[ií]b\p{L}*|iscriviti|abonnez-vous|abonniere)/iu,
+  },
+  {
+    category: "intro",
+    where: "start",
+    re: /\b(?:(?:hey|hi|hello) (?:guys|everyone|everybody|there|friends)|what's up|welcome (?:back|to (?:my|the) (?:channel|kitchen))|in (?:this|today's) video|today (?:i'm|we're|i am|we are) (?:gonna be )?(?:making|doing|cooking|showing))/i,
+  },
+  {
+    category: "outro",
+    where: "end",
+    re: /\b(?:thanks? (?:you )?(?:so much )?for watching|see you (?:next time|in the next|next week|soon)|that's (?:it|all) for today|until next time|bye(?:-bye)?|gracias por ver|nos vemos)\b/iu,
+  },
+];
+
+// Sponsor reads, self-promotion and calls to action, wherever they sit in the
+// text. steps.ts uses this to keep them out of steps. Intro and outro rules only
+// hold at the edges of a transcript ("bye" mid-recipe is a step), so they're left out.
+export function isPromo(text: string) {
+  return RULES.some((r) => !r.where && r.re.test(text));
+}
+
+// Lines that keep a sponsor read going, and the line that hands back to the recipe
+const SPONSOR_MORE =
+  /\b(?:code|link|description|offer|free (?:trial|shipping)|sign up|download|app|website|discount|deal|subscription|check (?:them|it) out|first \d+|\d+ ?%|[\p{L}\d-]+\.(?:com|co|io))\b/iu;
+const SPONSOR_RETURN =
+  /\b(?:back to (?:the )?(?:recipe|video|cooking|kitchen|food)|now back to|anyways?,? (?:back|let's)|on with the (?:recipe|video))\b/i;
+const MAX_SPONSOR_UNITS = 8; // a read with no hand-back ends after this many more lines/segments
+
+const EDGE_SHARE = 0.2; // intros/outros sit in the first/last fifth of the text...
+const EDGE_SECONDS = 60; // ...or minute of the video
+
+function words(s: string) {
+  return s.match(/[\p{L}\p{N}']+/gu)?.length ?? 0;
+}
+
+// Sentences and lines; "hellospice.com" or "1.5" don't end one
+function unitsFromText(text: string): Unit[] {
+  return [...text.matchAll(/(?:[^.!?\n]|[.!?](?=[^\s.!?]))+[.!?]*["')\]]*/g)]
+    .filter((m) => m[0].trim())
+    .map((m) => {
+      const from = m.index + (m[0].length - m[0].trimStart().length);
+      return { from, to: m.index + m[0].length };
+    });
+}
+
+function unitsFromSegments(segments: TranscriptSegment[]): { joined: string; units: Unit[] } {
+  let joined = "";
+  const units = segments.map((s) => {
+    if (joined) joined += " ";
+    const from = joined.length;
+    joined += s.text.replace(/\s+/g, " ").trim();
+    return { from, to: joined.length, start: s.start, end: s.end };
+  });
+  return { joined, units };
+}
+
+function inEdge(unit: Unit, where: "start" | "end", units: Unit[], length: number) {
+  if (unit.start !== undefined) {
+    const last = units.at(-1)?.end ?? 0;
+    return where === "start" ? unit.start < EDGE_SECONDS : (unit.end ?? 0) > last - EDGE_SECONDS;
+  }
+  return where === "start" ? unit.from < length * EDGE_SHARE : unit.to > length * (1 - EDGE_SHARE);
+}
+
+function markPhrases(joined: string, units: Unit[], marks: (Mark | undefined)[]) {
+  const text = (i: number) => joined.slice(units[i].from, units[i].to);
+
+  for (let i = 0; i < units.length; i++) {
+    if (marks[i]) continue;
+    const t = text(i);
+    const rule = RULES.find(
+      (r) => r.re.test(t) && (!r.where || inEdge(units[i], r.where, units, joined.length))
+    );
+    if (!rule) continue;
+    // quantities in a greeting or sign-off are probably recipe ("hey guys, 2 cups of flour")
+    if (rule.category !== "sponsor" && /\d/.test(t)) continue;
+    marks[i] = { category: rule.category, by: "phrase" };
+    if (rule.category !== "sponsor") continue;
+
+    // the read runs on through the offer, the link, and the hand-back
+    for (let k = i + 1; k < units.length && k <= i + MAX_SPONSOR_UNITS && !marks[k]; k++) {
+      const next = text(k);
+      if (SPONSOR_RETURN.test(next)) {
+        if (words(next) <= 10 && !/\d/.test(next)) marks[k] = marks[i];
+        break;
+      }
+      // caption lines run mid-sentence; a sentence or line of plain text has to say so itself
+      const midSentence = units[k].start !== undefined && !/[.!?]["')\]]*$/.test(text(k - 1));
+      if (!SPONSOR_MORE.test(next) && !midSentence) break;
+      marks[k] = marks[i];
+      i = k;
+    }
+  }
+}
+
+function markSkipSpans(units: Unit[], spans: SkipSpan[], marks: (Mark | undefined)[]) {
+  // one mark per span, so its segments are reported together
+  const spanMarks = new Map(spans.map((s) => [s, { category: s.category, by: "sponsorblock" } as Mark]));
+  units.forEach((u, i) => {
+    if (u.start === undefined) return;
+    const mid = (u.start + (u.end ?? u.start)) / 2;
+    const span = spans.find((s) => mid >= s.start && mid <= s.end);
+    if (span) marks[i] = spanMarks.get(span);
+  });
+}
+
+function report(joined: string, units: Unit[], marks: (Mark | undefined)[]): RemovedSpan[] {
+  const out: RemovedSpan[] = [];
+  marks.forEach((mark, i) => {
+    if (!mark) return;
+    const prev = out.at(-1);
+    const before = marks[i - 1];
+    if (prev && before?.category === mark.category && before.by === mark.by) {
+      prev.end = units[i].end;
+      return;
+    }
+    const text = joined.slice(units[i].from, units[i].to).trim();
+    out.push({
+      ...mark,
+      text: text.length > 80 ? `${text.slice(0, 79)}…` : text,
+      start: units[i].start,
+      end: units[i].end,
+    });
+  });
+  return out;
+}
+
+export function cleanTranscript(
+  input: { text: string; segments?: TranscriptSegment[] },
+  skip: SkipSpan[] = []
+): CleanResult {
+  const timed = input.segments?.length ? unitsFromSegments(input.segments) : null;
+  const joined = timed?.joined ?? input.text;
+  const units = timed?.units ?? unitsFromText(input.text);
+  const marks: (Mark | undefined)[] = units.map(() => undefined);
+
+  if (timed) markSkipSpans(units, skip, marks);
+  markPhrases(joined, units, marks);
+
+  const removed = report(joined, units, marks);
+  if (!removed.length) return { ...input, removed, removedChars: 0 };
+  const removedChars = units.reduce((n, u, i) => n + (marks[i] ? joined.slice(u.from, u.to).trim().length : 0), 0);
+
+  if (input.segments?.length) {
+    const segments = input.segments.map((s, i) => (marks[i] ? { ...s, text: "" } : s));
+    return { text: segmentsToText(segments), segments, removed, removedChars };
+  }
+
+  let text = input.text;
+  for (let i = units.length - 1; i >= 0; i--) {
+    if (!marks[i]) continue;
+    let to = units[i].to;
+    while (text[to] === " " || text[to] === "\t") to++;
+    text = text.slice(0, units[i].from) + text.slice(to);
+  }
+  text = text
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, removed, removedChars };
+}
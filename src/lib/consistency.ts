@@ -0,0 +1,129 @@
+// Do the ingredient list and the steps agree? Each step is linked to the listed
+// ingredients it mentions (plurals and synonyms included, via foods.ts); foods a
+// step uses that the list lacks, and listed ingredients no step mentions, come
+// back as findings for the diagnostics.
+import { canonicalTokens, FOOD_NAMES } from "@/lib/foods";
+import type { Recipe } from "@/lib/recipe";
+
+export type MissingIngredient = { name: string; steps: number[] }; // 0-based step indexes
+export type UnusedIngredient = { index: number; item: string }; // index into parsedIngredients
+
+export type RecipeConsistency = {
+  stepIngredients: number[][]; // per step, indexes into parsedIngredients
+  missing: MissingIngredient[];
+  unused: UnusedIngredient[];
+};
+
+// Last words that don't name the ingredient ("salt, to taste", "oil as needed")
+const NOT_A_HEAD = new Set(
+  "taste need needed serving garnish more extra each piece large small medium fresh whole other one".split(" ")
+);
+
+// An item with these in it is a sentence the extractor took for an ingredient
+// ("olive oil in a big pot over medium heat"); only the foods inside it count
+const SENTENCE_WORDS = new Set(
+  ("the a an and or in with to into for on over at until el la los las y o con en un una al il lo e " +
+    "le les et avec der die das und mit para por per pour fur").split(" ")
+);
+const MAX_NAME_WORDS = 4;
+
+const FOODS = FOOD_NAMES.map(canonicalTokens).sort((a, b) => b.length - a.length);
+
+function indexOf(haystack: string[], needle: string[], from = 0, used?: boolean[]): number {
+  outer: for (let i = from; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j] || used?.[i + j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function nameLike(item: string[]) {
+  return item.length > 0 && item.length <= MAX_NAME_WORDS && !item.some((w) => SENTENCE_WORDS.has(w));
+}
+
+// Last word of an item, when a step may call it by that alone ("the flour" for "all-purpose flour")
+function headOf(item: string[]): string | undefined {
+  const head = item.at(-1);
+  return nameLike(item) && item.length > 1 && head && head.length >= 3 && !NOT_A_HEAD.has(head) ? head : undefined;
+}
+
+// Listed lines a food belongs to: those that are just that food, else those that mention it
+function ownersOf(food: string[], ingredients: string[][]): number[] {
+  const key = food.join(" ");
+  const exact = ingredients.flatMap((item, i) => (item.join(" ") === key ? [i] : []));
+  return exact.length ? exact : ingredients.flatMap((item, i) => (indexOf(item, food) !== -1 ? [i] : []));
+}
+
+// Fills `stepDetails[].ingredients` and returns what doesn't line up
+export function checkConsistency(recipe: Recipe): RecipeConsistency {
+  const ingredients = (recipe.parsedIngredients ?? []).map((p) => canonicalTokens(p.item));
+  const steps = recipe.stepDetails?.map((s) => s.text) ?? recipe.steps.map((s) => s.replace(/^\d+[.)]\s*/, ""));
+
+  // name -> the listed lines going by it (the same item is often found twice); a
+  // line named "sugar" outranks "coarse sugar" going by its last word
+  const byName = new Map<string, { tokens: string[]; indexes: number[] }>();
+  ingredients.forEach((item, index) => {
+    if (!nameLike(item)) return;
+    const entry = byName.get(item.join(" ")) ?? { tokens: item, indexes: [] };
+    entry.indexes.push(index);
+    byName.set(item.join(" "), entry);
+  });
+  ingredients.forEach((item, index) => {
+    const head = headOf(item);
+    if (!head) return;
+    const entry = byName.get(head) ?? { tokens: [head], indexes: [] };
+    if (entry.indexes.every((i) => headOf(ingredients[i]))) entry.indexes.push(index);
+    byName.set(head, entry);
+  });
+  const names = [...byName.values()].sort((a, b) => b.tokens.length - a.tokens.length);
+
+  const missing = new Map<string, number[]>();
+  const stepIngredients = steps.map((text, s) => {
+    const tokens = canonicalTokens(text);
+    const used = tokens.map(() => false);
+    const linked = new Set<number>();
+    const claim = (at: number, length: number) => used.fill(true, at, at + length);
+
+    // longest names first, so "beef broth" isn't also read as the "ground beef"'s beef
+    for (const { tokens: name, indexes } of names) {
+      for (let at = indexOf(tokens, name, 0, used); at !== -1; at = indexOf(tokens, name, at + 1, used)) {
+        claim(at, name.length);
+        indexes.forEach((i) => linked.add(i));
+      }
+    }
+    // any other food: part of a listed item ("chili" for "chili powder"), or missing
+    for (const food of FOODS) {
+      for (let at = indexOf(tokens, food, 0, used); at !== -1; at = indexOf(tokens, food, at + 1, used)) {
+        claim(at, food.length);
+        const owners = ownersOf(food, ingredients);
+        if (owners.length) {
+          owners.forEach((i) => linked.add(i));
+          continue;
+        }
+        const name = food.join(" ");
+        const where = missing.get(name) ?? [];
+        if (!where.includes(s)) where.push(s);
+        missing.set(name, where);
+      }
+    }
+    return [...linked].sort((a, b) => a - b);
+  });
+
+  // sentences taken for ingredients are the extractor's noise, not unused ingredients
+  const mentioned = new Set(stepIngredients.flat());
+  const unused = steps.length
+    ? (recipe.parsedIngredients ?? [])
+        .map((p, index) => ({ index, item: p.item, optional: p.optional }))
+        .filter((p) => !p.optional && !mentioned.has(p.index) && !p.item.startsWith("#") && nameLike(ingredients[p.index]))
+        .map(({ index, item }) => ({ index, item }))
+    : [];
+
+  recipe.stepDetails = recipe.stepDetails?.map((s, i) => ({ ...s, ingredients: stepIngredients[i] }));
+  return {
+    stepIngredients,
+    missing: [...missing].map(([name, steps]) => ({ name, steps })),
+    unused,
+  };
+}
@@ -0,0 +1,113 @@
+// Recipe -> text formats for download. Binary formats (Paprika) live in lib/server.
+import type { Recipe } from "@/lib/recipe";
+
+export const EXPORT_FORMATS = ["markdown", "text", "jsonld", "mealie", "paprika"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_FILE: Record<ExportFormat, { ext: string; contentType: string }> = {
+  markdown: { ext: "md", contentType: "text/markdown; charset=utf-8" },
+  text: { ext: "txt", contentType: "text/plain; charset=utf-8" },
+  jsonld: { ext: "jsonld", contentType: "application/ld+json; charset=utf-8" },
+  mealie: { ext: "json", contentType: "application/json; charset=utf-8" },
+  paprika: { ext: "paprikarecipes", contentType: "application/zip" },
+};
+
+export function slugify(s: string) {
+  return (
+    s
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "recipe"
+  );
+}
+
+// Step strings carry a "1. " prefix; formats that number steps themselves want it gone
+export function stepTexts(r: Recipe): string[] {
+  return r.stepDetails?.map((s) => s.text) ?? r.steps.map((s) => s.replace(/^\d+[.)]\s*/, ""));
+}
+
+function metaLine(r: Recipe) {
+  return [r.author && `By ${r.author}`, r.servings && `Serves: ${r.servings}`, r.time]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+export function toMarkdown(r: Recipe): string {
+  const out = [`# ${r.title}`, ""];
+  const meta = metaLine(r);
+  if (meta) out.push(`_${meta}_`, "");
+
+  out.push("## Ingredients", "", ...r.ingredients.map((x) => `- ${x}`), "");
+  out.push("## Steps", "", ...stepTexts(r).map((x, i) => `${i + 1}. ${x}`), "");
+  if (r.equipment?.length) out.push("## Equipment", "", ...r.equipment.map((x) => `- ${x}`), "");
+  if (r.notes?.length) out.push("## Notes", "", ...r.notes.map((x) => `- ${x}`), "");
+  if (r.sourceUrl) out.push(`Source: <${r.sourceUrl}>`, "");
+  return out.join("\n");
+}
+
+// Printable: no markup, boxes to tick off while cooking
+export function toPlainText(r: Recipe): string {
+  const rule = "=".repeat(Math.min(Math.max(r.title.length, 8), 72));
+  const out = [r.title.toUpperCase(), rule];
+  const meta = metaLine(r);
+  if (meta) out.push(meta);
+
+  out.push("", "INGREDIENTS", ...r.ingredients.map((x) => `[ ] ${x}`));
+  out.push("", "STEPS", ...stepTexts(r).map((x, i) => `${i + 1}. ${x}`));
+  if (r.equipment?.length) out.push("", "EQUIPMENT", ...r.equipment.map((x) => `- ${x}`));
+  if (r.notes?.length) out.push("", "NOTES", ...r.notes.map((x) => `- ${x}`));
+  if (r.sourceUrl) out.push("", `Source: ${r.sourceUrl}`);
+  return out.join("\n") + "\n";
+}
+
+function isoDuration(min?: number) {
+  if (!min) return undefined;
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  return `PT${h ? `${h}H` : ""}${m || !h ? `${m}M` : ""}`;
+}
+
+export function toJsonLdObject(r: Recipe) {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: r.title,
+    ...(r.author ? { author: { "@type": "Person", name: r.author } } : {}),
+    ...(r.servings ? { recipeYield: r.servings } : {}),
+    ...(r.times?.prepMin ? { prepTime: isoDuration(r.times.prepMin) } : {}),
+    ...(r.times?.cookMin ? { cookTime: isoDuration(r.times.cookMin) } : {}),
+    ...(r.times?.totalMin ? { totalTime: isoDuration(r.times.totalMin) } : {}),
+    recipeIngredient: r.ingredients,
+    recipeInstructions: stepTexts(r).map((text) => ({ "@type": "HowToStep", text })),
+    ...(r.equipment?.length ? { tool: r.equipment } : {}),
+    ...(r.sourceUrl ? { url: r.sourceUrl } : {}),
+  };
+}
+
+export function toJsonLd(r: Recipe): string {
+  return JSON.stringify(toJsonLdObject(r), null, 2);
+}
+
+// Mealie's recipe JSON (also what its "import from JSON" form takes)
+export function toMealie(r: Recipe): string {
+  return JSON.stringify(
+    {
+      name: r.title,
+      description: "",
+      recipeYield: r.servings ?? "",
+      prepTime: r.times?.prepMin ? `${r.times.prepMin} minutes` : null,
+      performTime: r.times?.cookMin ? `${r.times.cookMin} minutes` : null,
+      totalTime: r.times?.totalMin ? `${r.times.totalMin} minutes` : null,
+      orgURL: r.sourceUrl ?? null,
+      recipeIngredient: r.ingredients.map((note) => ({ note, display: note, disableAmount: true })),
+      recipeInstructions: stepTexts(r).map((text) => ({ title: "", text })),
+      notes: (r.notes ?? []).map((text) => ({ title: "", text })),
+      tools: (r.equipment ?? []).map((name) => ({ name })),
+    },
+    null,
+    2
+  );
+}
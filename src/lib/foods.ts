@@ -0,0 +1,143 @@
+// Food names for matching ingredients across lines: tokens are lowercased,
+// accent-folded and singularized, and regional synonyms ("green onions",
+// "spring onions") collapse onto one name ("scallion").
+
+// Words that don't lose their final s
+const KEEP_S = new Set([
+  "hummus", "asparagus", "couscous", "molasses", "swiss", "grits", "citrus", "bass", "lemongrass",
+  "watercress", "anis", "gras", "jus", "tapas", "frijoles",
+]);
+const IRREGULAR: Record<string, string> = {
+  leaves: "leaf",
+  halves: "half",
+  loaves: "loaf",
+  knives: "knife",
+  cloves: "clove",
+  olives: "olive",
+  chives: "chive",
+  anchovies: "anchovy",
+  cookies: "cookie",
+  brownies: "brownie",
+};
+
+export function singular(word: string): string {
+  if (IRREGULAR[word]) return IRREGULAR[word];
+  if (word.length <= 3 || KEEP_S.has(word) || !word.endsWith("s") || /(?:ss|us|is)$/.test(word)) return word;
+  if (word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes|zes|sses)$/.test(word)) return word.slice(0, -2);
+  return word.slice(0, -1);
+}
+
+// Regional and everyday names -> the one we use (all singular)
+const SYNONYMS: Record<string, string[]> = {
+  scallion: ["green onion", "spring onion", "salad onion"],
+  cilantro: ["coriander leaf", "fresh coriander", "chinese parsley"],
+  eggplant: ["aubergine", "brinjal", "baingan"],
+  zucchini: ["courgette"],
+  "bell pepper": ["capsicum", "sweet pepper"],
+  chickpea: ["garbanzo bean", "garbanzo", "chana"],
+  shrimp: ["prawn"],
+  arugula: ["rocket"],
+  "powdered sugar": ["icing sugar", "confectioner sugar", "confectioners sugar"],
+  "baking soda": ["bicarbonate of soda", "bicarb soda", "sodium bicarbonate"],
+  "heavy cream": ["double cream", "whipping cream", "heavy whipping cream"],
+  "ground beef": ["minced beef", "beef mince", "hamburger meat"],
+  "ground pork": ["minced pork", "pork mince"],
+  cornstarch: ["cornflour", "corn starch"],
+  "all-purpose flour": ["plain flour", "ap flour"],
+  "chili flake": ["red pepper flake", "crushed red pepper", "chilli flake"],
+  "chili powder": ["chilli powder"],
+  chili: ["chilli", "chile"],
+  "kosher salt": ["coarse salt"],
+  tomato: ["tomate", "jitomate", "pomodoro"],
+  potato: ["patata", "papa", "aloo"],
+  onion: ["cebolla", "cipolla", "oignon", "pyaz", "pyaaz"],
+  garlic: ["ajo", "aglio", "ail", "lehsun", "lahsun"],
+  egg: ["huevo", "uovo", "oeuf", "ei"],
+  "olive oil": ["aceite de oliva", "olio d'oliva", "olio di oliva", "huile d'olive"],
+  oil: ["aceite", "olio", "huile", "tel"],
+  salt: ["sal", "sale", "sel", "namak"],
+  butter: ["mantequilla", "burro", "beurre"],
+  flour: ["harina", "farina", "farine", "mehl"],
+  milk: ["leche", "latte", "lait", "doodh"],
+  sugar: ["azúcar", "zucchero", "sucre", "zucker", "cheeni"],
+};
+
+// Common ingredients, for spotting ones a step uses that the list doesn't have
+export const FOOD_NAMES: string[] = [
+  ...Object.keys(SYNONYMS),
+  "beef", "pork", "chicken", "chicken breast", "chicken thigh", "turkey", "lamb", "bacon", "ham", "sausage",
+  "salmon", "tuna", "cod", "fish", "tofu", "bean", "black bean", "kidney bean", "lentil",
+  "rice", "pasta", "spaghetti", "noodle", "bread", "bun", "tortilla", "oat", "quinoa", "breadcrumb",
+  "carrot", "celery", "cucumber", "lettuce", "spinach", "kale", "cabbage", "broccoli", "cauliflower",
+  "mushroom", "pea", "corn", "avocado", "ginger", "shallot", "leek", "jalapeño", "pepper",
+  "lemon", "lime", "orange", "apple", "banana", "blueberry", "strawberry", "raspberry",
+  "basil", "parsley", "thyme", "rosemary", "oregano", "mint", "dill", "bay leaf", "sage",
+  "cumin", "paprika", "smoked paprika", "cinnamon", "nutmeg", "turmeric", "garam masala", "curry powder",
+  "black pepper", "cayenne", "vanilla", "vanilla extract", "lemon zest", "lemon juice", "lime juice",
+  "cheese", "cheddar", "mozzarella", "parmesan", "feta", "cream cheese", "sour cream", "yogurt", "cream",
+  "oil", "vegetable oil", "sesame oil", "vinegar", "soy sauce", "fish sauce", "honey", "maple syrup",
+  "brown sugar", "baking powder", "yeast", "cocoa powder", "chocolate", "chocolate chip",
+  "stock", "broth", "chicken stock", "beef broth", "vegetable stock", "tomato paste", "ketchup",
+  "mayo", "mayonnaise", "mustard", "pickle", "wine", "white wine", "red wine", "coconut milk",
+  "walnut", "almond", "peanut", "peanut butter", "sesame seed",
+];
+
+export function foodTokens(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .replace(/’/g, "'")
+      .match(/[\p{L}']+/gu) ?? []
+  )
+    .map((w) => w.replace(/^'+|'+$/g, ""))
+    .filter(Boolean)
+    .map(singular);
+}
+
+// alias tokens -> canonical tokens, both as space-joined strings
+const ALIAS = new Map(
+  Object.entries(SYNONYMS).flatMap(([name, others]) =>
+    others.map((other) => [foodTokens(other).join(" "), foodTokens(name).join(" ")] as const)
+  )
+);
+
+const LONGEST_ALIAS = 4; // words
+
+// Tokens with synonyms replaced by their canonical name ("green onions" -> "scallion")
+export function canonicalTokens(text: string): string[] {
+  const tokens = foodTokens(text);
+  const out: string[] = [];
+  for (let i = 0; i < tokens.length; ) {
+    let n = Math.min(LONGEST_ALIAS, tokens.length - i);
+    for (; n > 0; n--) {
+      const hit = ALIAS.get(tokens.slice(i, i + n).join(" "));
+      if (hit) {
+        out.push(...hit.split(" "));
+        break;
+      }
+    }
+    if (n === 0) out.push(tokens[i++]);
+    else i += n;
+  }
+  return out;
+}
+
+export function canonicalFood(name: string): string {
+  return canonicalTokens(name).join(" ");
+}
+
+// Words that don't change what the food is ("large eggs", "fresh parsley", "patatas medianas")
+const DESCRIPTORS = new Set(
+  ("fresh freshly large small medium big ripe organic extra virgin boneless skinless good quality " +
+    "mediano mediana grande pequeno pequena fresco fresca").split(" ")
+);
+
+// The food an ingredient line is for: canonical name minus descriptors
+export function foodKey(item: string): string {
+  const tokens = canonicalTokens(item);
+  const kept = tokens.filter((t) => !DESCRIPTORS.has(t));
+  return (kept.length ? kept : tokens).join(" ");
+}
@@ -0,0 +1,310 @@
+import { localeUnitAliases } from "@/lib/locales";
+import type { Confidence } from "@/lib/quality";
+import type { SegmentRef } from "@/lib/segments";
+
+export type ParsedIngredient = {
+  raw: string; // original line, as extracted
+  quantity?: number; // lower bound when a range is given ("1-2" -> 1)
+  quantityMax?: number; // upper bound of a range ("1-2" -> 2)
+  unit?: string; // normalized, e.g. "tbsp", "g", "clove"
+  item: string;
+  prep?: string; // "finely chopped", "at room temperature"
+  optional: boolean;
+  segment?: SegmentRef; // where in the video it was mentioned
+  confidence?: Confidence; // set by the extractor that found the line
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "¼": 1 / 4,
+  "½": 1 / 2,
+  "¾": 3 / 4,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "⅕": 1 / 5,
+  "⅖": 2 / 5,
+  "⅗": 3 / 5,
+  "⅘": 4 / 5,
+  "⅙": 1 / 6,
+  "⅚": 5 / 6,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  half: 0.5,
+  dozen: 12,
+};
+
+// normalized unit -> spellings we accept (matched case-insensitively, longest first)
+const UNIT_ALIASES: Record<string, string[]> = {
+  tsp: ["teaspoons", "teaspoon", "tsps", "tsp", "t"],
+  tbsp: ["tablespoons", "tablespoon", "tbsps", "tbsp", "tbs", "tbl", "T"],
+  cup: ["cups", "cup", "c"],
+  "fl oz": ["fluid ounces", "fluid ounce", "fl. oz", "fl oz"],
+  oz: ["ounces", "ounce", "oz"],
+  lb: ["pounds", "pound", "lbs", "lb"],
+  g: ["grams", "gram", "gr", "g"],
+  kg: ["kilograms", "kilogram", "kilos", "kilo", "kg"],
+  ml: ["milliliters", "millilitres", "milliliter", "millilitre", "ml"],
+  l: ["liters", "litres", "liter", "litre", "l"],
+  pinch: ["pinches", "pinch"],
+  dash: ["dashes", "dash"],
+  clove: ["cloves", "clove"],
+  slice: ["slices", "slice"],
+  can: ["cans", "can", "tins", "tin"],
+  stick: ["sticks", "stick"],
+  bunch: ["bunches", "bunch"],
+  sprig: ["sprigs", "sprig"],
+  handful: ["handfuls", "handful"],
+  piece: ["pieces", "piece", "pcs", "pc"],
+};
+
+const PREP_WORDS = [
+  "chopped",
+  "diced",
+  "minced",
+  "sliced",
+  "grated",
+  "shredded",
+  "crushed",
+  "peeled",
+  "cubed",
+  "julienned",
+  "halved",
+  "quartered",
+  "softened",
+  "melted",
+  "beaten",
+  "sifted",
+  "toasted",
+  "drained",
+  "rinsed",
+  "trimmed",
+  "zested",
+  "juiced",
+  "mashed",
+  "torn",
+  "divided",
+  "cut into [^,;]+",
+  "at room temperature",
+  "to taste",
+  "for garnish",
+  "for serving",
+];
+const PREP_ADVERBS = "(?:finely|roughly|coarsely|thinly|thickly|freshly|lightly|well|very)";
+
+const fractionChars = Object.keys(UNICODE_FRACTIONS).join("");
+const NUM = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:[.,]\\d+)?(?:\\s*[${fractionChars}])?|[${fractionChars}])`;
+const QTY_RE = new RegExp(
+  `^(${NUM})(?:\\s*(?:-|–|to|or)\\s*(${NUM}))?(?:\\s*[x×](?=\\s|\\d))?\\s*`,
+  "i"
+);
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const LOCALE_UNITS = localeUnitAliases();
+
+const UNIT_LOOKUP: { re: RegExp; unit: string }[] = Object.entries(UNIT_ALIASES)
+  .flatMap(([unit, aliases]) =>
+    [...aliases, ...(LOCALE_UNITS[unit] ?? [])].map((alias) => ({ unit, alias }))
+  )
+  .sort((a, b) => b.alias.length - a.alias.length)
+  .map(({ unit, alias }) => ({
+    // single-letter and all-caps aliases are case-sensitive ("t" = tsp, "T" = tbsp, "EL")
+    re: new RegExp(
+      `^${escapeRe(alias)}\\.?(?=\\s|$|[,(])`,
+      alias.length === 1 || alias === alias.toUpperCase() ? "" : "i"
+    ),
+    unit,
+  }));
+
+export function parseQuantity(s: string): number | undefined {
+  const t = s.trim().replace(",", ".");
+  if (!t) return undefined;
+
+  // "1 1/2"
+  const mixed = t.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  // "1/2"
+  const frac = t.match(/^(\d+)\/(\d+)$/);
+  if (frac) return Number(frac[2]) ? Number(frac[1]) / Number(frac[2]) : undefined;
+
+  // "1½", "½"
+  const uni = t.match(new RegExp(`^(\\d+(?:\\.\\d+)?)?\\s*([${fractionChars}])$`));
+  if (uni) return Number(uni[1] || 0) + UNICODE_FRACTIONS[uni[2]];
+
+  const n = Number(t);
+  if (Number.isFinite(n)) return n;
+
+  return NUMBER_WORDS[t.toLowerCase()];
+}
+
+export function normalizeUnit(s: string): string | undefined {
+  const t = s.trim();
+  for (const { re, unit } of UNIT_LOOKUP) {
+    if (re.test(t)) return unit;
+  }
+  return undefined;
+}
+
+function stripBullet(s: string) {
+  return s
+    .replace(/^\s*(?:[-–•*·]|\d+[.)])\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function parseIngredient(raw: string): ParsedIngredient {
+  let rest = stripBullet(raw);
+  const out: ParsedIngredient = { raw, item: "", optional: false };
+
+  // optional markers: "(optional)", ", optional", "optional: ..."
+  if (/\boptional\b/i.test(rest)) {
+    out.optional = true;
+    rest = rest
+      .replace(/\(\s*optional\s*\)/gi, "")
+      .replace(/[,;]?\s*\boptional\b:?/gi, "")
+      .trim();
+  }
+
+  // parentheticals are prep/notes: "(softened)", "1 (400g) can ..."
+  const prepParts: string[] = [];
+  rest = rest
+    .replace(/\(([^)]*)\)/g, (_m, inner: string) => {
+      if (inner.trim()) prepParts.push(inner.trim());
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  // quantity (digits, fractions, ranges) or a leading number word
+  const q = rest.match(QTY_RE);
+  if (q) {
+    out.quantity = parseQuantity(q[1]);
+    if (q[2]) out.quantityMax = parseQuantity(q[2]);
+    rest = rest.slice(q[0].length);
+  } else {
+    const w = rest.match(/^(a|an|one|two|three|four|five|six|seven|eight|nine|ten|twelve|half|dozen)\s+/i);
+    if (w) {
+      out.quantity = NUMBER_WORDS[w[1].toLowerCase()];
+      rest = rest.slice(w[0].length);
+    }
+  }
+
+  // unit directly after the quantity
+  for (const { re, unit } of UNIT_LOOKUP) {
+    const m = rest.match(re);
+    if (m) {
+      // a single-letter alias must be followed by more text, or "2 c" -> "c" the item
+      if (m[0].length === 1 && !rest.slice(1).trim()) break;
+      out.unit = unit;
+      rest = rest.slice(m[0].length).trim();
+      break;
+    }
+  }
+  // "of" and its cousins: "2 tazas de harina", "200 g d'huile", "1 spicchio di aglio"
+  rest = rest.replace(/^(?:(?:of|de|di|del|della|du|des)\s+|d['’])/i, "");
+
+  // prep: after the first comma ("onion, finely chopped")
+  const comma = rest.search(/[,;]/);
+  if (comma >= 0) {
+    prepParts.push(rest.slice(comma + 1).trim());
+    rest = rest.slice(0, comma);
+  } else {
+    // trailing prep phrase without a comma: "2 onions finely chopped"
+    const trailing = new RegExp(
+      `\\s+((?:${PREP_ADVERBS}\\s+)?(?:${PREP_WORDS.join("|")})(?:\\s+.*)?)$`,
+      "i"
+    );
+    const m = rest.match(trailing);
+    if (m && m.index) {
+      prepParts.push(m[1].trim());
+      rest = rest.slice(0, m.index);
+    }
+  }
+
+  const prep = prepParts.filter(Boolean).join(", ");
+  if (prep) out.prep = prep;
+
+  out.item = rest.replace(/\s+/g, " ").replace(/[.,;:]+$/, "").trim();
+  return out;
+}
+
+// "2 garlic cloves" is 2 cloves of garlic
+export function unitFromItem(p: ParsedIngredient): ParsedIngredient {
+  const m = !p.unit && p.item.match(/^(.+?)\s+(cloves?|slices?|sprigs?|sticks?|bunch(?:es)?|cans?)$/i);
+  return m ? { ...p, item: m[1], unit: normalizeUnit(m[2]) } : p;
+}
+
+export function parseIngredients(lines: string[]): ParsedIngredient[] {
+  return lines.map(parseIngredient).filter((p) => p.item.length > 0);
+}
+
+const NICE_FRACTIONS: [number, string][] = [
+  [1 / 8, "1/8"],
+  [1 / 4, "1/4"],
+  [1 / 3, "1/3"],
+  [3 / 8, "3/8"],
+  [1 / 2, "1/2"],
+  [5 / 8, "5/8"],
+  [2 / 3, "2/3"],
+  [3 / 4, "3/4"],
+  [7 / 8, "7/8"],
+];
+
+// 1.5 -> "1 1/2", 0.333 -> "1/3", 2.37 -> "2.37"
+export function formatQuantity(n: number): string {
+  const whole = Math.floor(n + 1e-9);
+  const frac = n - whole;
+  if (frac < 0.02) return String(whole);
+  if (frac > 0.98) return String(whole + 1);
+  const nice = NICE_FRACTIONS.find(([v]) => Math.abs(v - frac) < 0.02);
+  if (nice) return whole ? `${whole} ${nice[1]}` : nice[1];
+  return String(Math.round(n * 100) / 100);
+}
+
+const PLURAL_UNITS = new Set(["cup", "clove", "slice", "can", "stick", "sprig", "handful", "piece"]);
+
+// Quantity and unit alone: "1 1/2 cups", "2-3 cloves", "4"
+export function formatAmount(a: { quantity?: number; quantityMax?: number; unit?: string }): string {
+  const parts: string[] = [];
+  if (a.quantity !== undefined) {
+    parts.push(
+      a.quantityMax !== undefined
+        ? `${formatQuantity(a.quantity)}-${formatQuantity(a.quantityMax)}`
+        : formatQuantity(a.quantity)
+    );
+  }
+  if (a.unit) {
+    const plural = (a.quantityMax ?? a.quantity ?? 1) > 1 && PLURAL_UNITS.has(a.unit);
+    parts.push(plural ? `${a.unit}s` : a.unit);
+  }
+  return parts.join(" ");
+}
+
+// Back to a single line: "1 1/2 cups flour, sifted (optional)"
+export function formatIngredient(p: ParsedIngredient): string {
+  const amount = formatAmount(p);
+  let line = amount ? `${amount} ${p.item}` : p.item;
+  if (p.prep) line += `, ${p.prep}`;
+  if (p.optional) line += " (optional)";
+  return line;
+}
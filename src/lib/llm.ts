@@ -0,0 +1,98 @@
+// Pluggable LLM backends for recipe extraction.
+// Providers only turn text into "something JSON-ish"; validation against
+// RecipeSchema (and the heuristic fallback) happens in recipe.ts.
+
+export type LlmConfig = {
+  provider: string; // "openai" = any OpenAI-compatible /chat/completions server
+  baseUrl: string; // e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:11434/v1 (Ollama)
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+};
+
+export type LlmProvider = {
+  name: string;
+  extractRecipe(fullText: string): Promise<unknown>;
+};
+
+const SYSTEM_PROMPT = `You extract cooking recipes from video transcripts, captions, on-screen text and descriptions.
+Reply with ONE JSON object and nothing else, using exactly these keys:
+{"title": string, "servings"?: string, "time"?: string, "ingredients": string[], "steps": string[], "notes"?: string[], "equipment"?: string[]}
+- "ingredients": one line per ingredient, with quantity and unit when stated (e.g. "2 tbsp olive oil").
+- "steps": short imperative instructions in cooking order, without numbering.
+- Only use information present in the text; omit optional keys you cannot fill.`;
+
+// Set LLM_BASE_URL to enable; everything else has defaults.
+export function getLlmConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig | null {
+  const baseUrl = env.LLM_BASE_URL?.trim();
+  if (!baseUrl) return null;
+
+  const timeoutMs = Number(env.LLM_TIMEOUT_MS || "60000");
+  return {
+    provider: env.LLM_PROVIDER || "openai",
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    model: env.LLM_MODEL || "llama3.1",
+    apiKey: env.LLM_API_KEY || undefined,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 60000,
+  };
+}
+
+// Pull the first JSON object out of a model reply (handles ```json fences and chatter)
+export function parseJsonReply(content: string): unknown {
+  const unfenced = content.replace(/^[\s\S]*?```(?:json)?\s*([\s\S]*?)```[\s\S]*$/i, "$1");
+  const start = unfenced.indexOf("{");
+  const end = unfenced.lastIndexOf("}");
+  if (start === -1 || end <= start) throw new Error("LLM reply contained no JSON object");
+  return JSON.parse(unfenced.slice(start, end + 1));
+}
+
+function openAiCompatible(cfg: LlmConfig): LlmProvider {
+  return {
+    name: `openai:${cfg.model}`,
+    async extractRecipe(fullText: string) {
+      const res = await fetch(`${cfg.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(cfg.apiKey ? { Authorization: `Bearer ${cfg.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: cfg.model,
+          temperature: 0,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: SYSTEM_PROMPT },
+            { role: "user", content: fullText.slice(0, 24000) },
+          ],
+        }),
+        signal: AbortSignal.timeout(cfg.timeoutMs),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`LLM request failed (${res.status}) ${body.slice(0, 300)}`);
+      }
+
+      const json = await res.json();
+      const content = json?.choices?.[0]?.message?.content;
+      if (typeof content !== "string" || !content.trim()) {
+        throw new Error("LLM response had no message content");
+      }
+      return parseJsonReply(content);
+    },
+  };
+}
+
+const providers: Record<string, (cfg: LlmConfig) => LlmProvider> = {
+  openai: openAiCompatible,
+};
+
+export function registerLlmProvider(name: string, factory: (cfg: LlmConfig) => LlmProvider) {
+  providers[name] = factory;
+}
+
+export function getLlmProvider(cfg: LlmConfig | null = getLlmConfig()): LlmProvider | null {
+  if (!cfg) return null;
+  const factory = providers[cfg.provider];
+  if (!factory) throw new Error(`Unknown LLM_PROVIDER "${cfg.provider}"`);
+  return factory(cfg);
+}
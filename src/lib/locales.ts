@@ -0,0 +1,222 @@
+// Per-language vocabulary for the heuristic extractor: section headers, cooking
+// verbs, discourse markers, unit spellings, and common words used to guess a
+// transcript's language.
+// English is always applied on top of the detected locale (captions mix languages a lot).
+
+export type LocaleRules = {
+  ingredientHeaders: string[];
+  stepHeaders: string[];
+  verbs: string[];
+  verbFinal?: boolean; // imperatives close the clause ("pyaz kaat lo"), so a verb doesn't start a step
+  markers: string[]; // "then", "next", ... where spoken instructions move on to the next step
+  units: Record<string, string[]>; // normalized unit (as in ingredients.ts) -> local spellings
+  stopwords: string[];
+};
+
+const en: LocaleRules = {
+  ingredientHeaders: ["ingredients", "ingredient"],
+  stepHeaders: ["steps", "step", "method", "directions", "instructions", "notes", "note"],
+  verbs: [
+    "add", "mix", "stir", "whisk", "cook", "bake", "fry", "saute", "sauté", "boil", "simmer",
+    "chop", "slice", "mince", "combine", "blend", "serve", "fold", "pour", "season", "heat",
+    "preheat", "bring", "brown", "sear", "roast", "grill", "toast", "melt", "drain", "flip",
+    "cover", "knead", "spread", "sprinkle", "divide", "smash", "peel", "dice", "grate", "marinate",
+    "beat", "transfer", "toss", "reduce", "garnish", "strain", "break",
+  ],
+  markers: [
+    "first thing", "first of all", "first", "then", "and then", "now", "next", "after that",
+    "after this", "once that's done", "once that is done", "when that's done", "meanwhile",
+    "in the meantime", "finally", "lastly",
+  ],
+  units: {}, // the English spellings live in ingredients.ts
+  stopwords: ["the", "and", "with", "you", "then", "this", "that", "is", "of", "to", "it", "in"],
+};
+
+const es: LocaleRules = {
+  ingredientHeaders: ["ingredientes"],
+  stepHeaders: ["preparación", "elaboración", "pasos", "instrucciones", "modo de preparación", "notas"],
+  verbs: [
+    "añade", "añadir", "agrega", "agregar", "mezcla", "mezclar", "remueve", "bate", "batir",
+    "cocina", "cocinar", "hornea", "hornear", "fríe", "freír", "sofríe", "hierve", "hervir",
+    "cuece", "cocer", "corta", "cortar", "pica", "picar", "licúa", "sirve", "servir", "vierte",
+    "verter", "sazona", "calienta", "calentar", "precalienta", "incorpora", "pela", "pelar",
+    "escurre", "escurrir", "dora", "dorar", "tapa", "tapar",
+  ],
+  markers: ["primero", "luego", "después", "ahora", "a continuación", "mientras tanto", "por último", "finalmente"],
+  units: {
+    tbsp: ["cucharadas", "cucharada", "cdas", "cda"],
+    tsp: ["cucharaditas", "cucharadita", "cdtas", "cdta", "cdita"],
+    cup: ["tazas", "taza"],
+    g: ["gramos", "gramo", "grs"],
+    kg: ["kilogramos", "kilogramo"],
+    ml: ["mililitros", "mililitro"],
+    l: ["litros", "litro"],
+    pinch: ["pizcas", "pizca"],
+    clove: ["dientes", "diente"],
+    slice: ["rebanadas", "rebanada", "rodajas", "rodaja"],
+    can: ["latas", "lata"],
+    bunch: ["manojo"],
+    handful: ["puñado"],
+    piece: ["piezas", "pieza", "unidades", "unidad"],
+  },
+  stopwords: ["el", "la", "los", "las", "que", "con", "para", "una", "por", "del", "y", "es", "pero", "muy"],
+};
+
+// Romanized Hindi as it shows up in Indian cooking video captions and descriptions
+const hi: LocaleRules = {
+  ingredientHeaders: ["samagri", "saamagri", "samagree", "saamgri"],
+  stepHeaders: ["vidhi", "banane ki vidhi", "tarika", "banane ka tarika"],
+  verbs: [
+    "daalein", "daale", "dalein", "daal do", "dal do", "daal dein", "milayein", "milaye", "mila lo",
+    "milao", "pakayein", "pakaye", "paka lo", "bhunein", "bhune", "bhun lo", "talein", "tal lo",
+    "ubaalein", "ubale", "ubal lo", "kaatein", "kaat lo", "chalayein", "chalaye", "garam karein",
+    "garam kare", "dhak dein", "sekein", "lagayein", "goondh lein", "parosein", "karein", "kar lo",
+    "kar dein", "kar lijiye", "kar dijiye",
+  ],
+  verbFinal: true,
+  markers: ["sabse pehle", "phir", "uske baad", "iske baad", "ab", "aakhir mein"],
+  units: {
+    tbsp: ["bade chammach", "bada chammach", "chammach"],
+    tsp: ["chhote chammach", "chhota chammach", "chote chammach", "chota chammach"],
+    cup: ["katoriyan", "katori", "kap"],
+    pinch: ["chutki"],
+    clove: ["kaliyan", "kali"],
+    handful: ["mutthi"],
+    piece: ["tukde", "tukda"],
+  },
+  stopwords: ["hai", "hain", "aur", "ko", "ki", "ka", "ke", "mein", "se", "ye", "yeh", "bhi", "nahi", "ab", "phir", "hum"],
+};
+
+const it: LocaleRules = {
+  ingredientHeaders: ["ingredienti"],
+  stepHeaders: ["procedimento", "preparazione", "istruzioni", "note"],
+  verbs: [
+    "aggiungi", "aggiungere", "mescola", "mescolare", "sbatti", "cuoci", "cuocere", "inforna",
+    "infornare", "friggi", "soffriggi", "bollire", "taglia", "tagliare", "trita", "tritare",
+    "unisci", "unire", "frulla", "servi", "servire", "versa", "versare", "condisci", "scalda",
+    "scaldare", "preriscalda", "impasta", "impastare",
+  ],
+  markers: ["per prima cosa", "poi", "dopo", "adesso", "quindi", "nel frattempo", "infine"],
+  units: {
+    tbsp: ["cucchiai", "cucchiaio"],
+    tsp: ["cucchiaini", "cucchiaino"],
+    cup: ["tazze", "tazza"],
+    g: ["grammi", "grammo"],
+    ml: ["millilitri"],
+    l: ["litri", "litro"],
+    pinch: ["pizzichi", "pizzico"],
+    clove: ["spicchi", "spicchio"],
+    slice: ["fette", "fetta"],
+    can: ["lattine", "lattina", "barattolo"],
+    bunch: ["mazzetto"],
+    handful: ["manciata"],
+    piece: ["pezzi", "pezzo"],
+  },
+  stopwords: ["il", "lo", "gli", "che", "con", "per", "una", "di", "della", "è", "non", "poi", "anche", "e"],
+};
+
+const fr: LocaleRules = {
+  ingredientHeaders: ["ingrédients", "ingrédient"],
+  stepHeaders: ["préparation", "étapes", "instructions", "méthode", "remarques"],
+  verbs: [
+    "ajoutez", "ajouter", "mélangez", "mélanger", "remuez", "fouettez", "faites cuire", "cuire",
+    "enfournez", "faites frire", "faites revenir", "faites bouillir", "coupez", "couper",
+    "hachez", "émincez", "incorporez", "mixez", "servez", "servir", "versez", "verser",
+    "assaisonnez", "salez", "poivrez", "chauffez", "préchauffez", "faites fondre",
+  ],
+  markers: ["d'abord", "ensuite", "puis", "maintenant", "pendant ce temps", "enfin"],
+  units: {
+    tbsp: ["cuillères à soupe", "cuillère à soupe", "c. à soupe", "c. à s", "càs"],
+    tsp: ["cuillères à café", "cuillère à café", "c. à café", "c. à c", "càc"],
+    cup: ["tasses", "tasse"],
+    g: ["grammes", "gramme"],
+    ml: ["millilitres"],
+    l: ["litres", "litre"],
+    pinch: ["pincées", "pincée"],
+    clove: ["gousses", "gousse"],
+    slice: ["tranches", "tranche"],
+    can: ["boîtes", "boîte"],
+    bunch: ["bouquet"],
+    handful: ["poignée"],
+    piece: ["morceaux", "morceau"],
+  },
+  stopwords: ["le", "les", "et", "des", "une", "avec", "pour", "est", "dans", "que", "vous", "du", "on"],
+};
+
+const de: LocaleRules = {
+  ingredientHeaders: ["zutaten"],
+  stepHeaders: ["zubereitung", "anleitung", "schritte"],
+  verbs: [
+    "hinzufügen", "geben", "gib", "mischen", "vermischen", "verrühren", "rühren", "umrühren",
+    "kochen", "backen", "braten", "anbraten", "schneiden", "hacken", "würzen", "servieren",
+    "erhitzen", "vorheizen", "schmelzen", "köcheln",
+  ],
+  verbFinal: true, // recipe German uses the infinitive last: "Zwiebeln schneiden"
+  markers: ["zuerst", "dann", "danach", "jetzt", "anschließend", "inzwischen", "zum Schluss"],
+  units: {
+    tbsp: ["Esslöffel", "EL"], // all-caps spellings match case-sensitively
+    tsp: ["Teelöffel", "TL"],
+    cup: ["Tassen", "Tasse"],
+    g: ["Gramm"],
+    l: ["Liter"],
+    pinch: ["Prisen", "Prise"],
+    clove: ["Zehen", "Zehe"],
+    slice: ["Scheiben", "Scheibe"],
+    can: ["Dosen", "Dose"],
+    bunch: ["Bund"],
+    handful: ["Handvoll"],
+    piece: ["Stücke", "Stück"],
+  },
+  stopwords: ["der", "die", "das", "und", "mit", "ist", "nicht", "ein", "eine", "dann", "auch", "für", "den", "wir"],
+};
+
+export const LOCALES: Record<string, LocaleRules> = { en, es, hi, it, fr, de };
+
+// "es-419" / "pt_BR" / "EN" -> "es" / "pt" / "en"
+export function baseLanguage(code?: string | null): string | undefined {
+  const b = code?.trim().toLowerCase().split(/[-_]/)[0];
+  return b || undefined;
+}
+
+// English plus the locale for `language`, when we have one
+export function rulesFor(language?: string): LocaleRules[] {
+  const extra = LOCALES[baseLanguage(language) ?? ""];
+  return extra && extra !== en ? [en, extra] : [en];
+}
+
+// Every locale's unit spellings, merged: ingredient lines don't say what language they are
+export function localeUnitAliases(): Record<string, string[]> {
+  const out: Record<string, string[]> = {};
+  for (const rules of Object.values(LOCALES)) {
+    for (const [unit, aliases] of Object.entries(rules.units)) (out[unit] ??= []).push(...aliases);
+  }
+  return out;
+}
+
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Whole-word alternation that also works for accented words (\b is ASCII-only)
+export function wordsPattern(words: string[]): string {
+  const alt = [...new Set(words)]
+    .sort((a, b) => b.length - a.length)
+    .map((w) => escapeRe(w).replace(/\s+/g, "\\s+"))
+    .join("|");
+  return `(?<![\\p{L}\\p{N}])(?:${alt})(?![\\p{L}\\p{N}])`;
+}
+
+// Best guess from common words; undefined when the text is too short or nothing stands out
+export function detectLanguage(text: string): string | undefined {
+  const tokens = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+  if (tokens.length < 20) return undefined;
+
+  let best: { lang?: string; hits: number } = { hits: 0 };
+  for (const [lang, rules] of Object.entries(LOCALES)) {
+    const stop = new Set(rules.stopwords);
+    const hits = tokens.reduce((n, t) => n + (stop.has(t) ? 1 : 0), 0);
+    if (hits > best.hits) best = { lang, hits };
+  }
+  // a few hits is noise (recipe names, "la" in "à la")
+  return best.hits >= Math.max(3, tokens.length * 0.04) ? best.lang : undefined;
+}
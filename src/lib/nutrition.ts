@@ -0,0 +1,189 @@
+// Nutrition estimates from the bundled nutrient table (data/nutrients.json):
+// each ingredient line is matched to a food by name, its amount turned into
+// grams, and the sum divided by the servings. Lines that can't be matched or
+// weighed are left out and say why, rather than guessed at.
+import table from "@/lib/data/nutrients.json";
+import { foodKey } from "@/lib/foods";
+import { parseIngredients, unitFromItem, type ParsedIngredient } from "@/lib/ingredients";
+import type { Recipe } from "@/lib/recipe";
+import { servingsCount } from "@/lib/scale";
+import { densityFor, isLiquid, isMass, isVolume, toGrams, toMl } from "@/lib/units";
+
+// calories in kcal, sodium in mg, the rest in grams
+export type Nutrients = {
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  fiber: number;
+  sodium: number;
+};
+
+export type NutritionLine = {
+  line: string; // the ingredient line as written
+  food?: string; // table entry it matched
+  match?: number; // 0..1; 1 is the exact name
+  grams?: number;
+  nutrients?: Nutrients;
+  ignored?: string; // why the line doesn't count ("no quantity", "no match in the nutrient table", ...)
+};
+
+export type RecipeNutrition = {
+  perServing: Nutrients;
+  total: Nutrients;
+  servings: number;
+  servingsAssumed: boolean; // the recipe gave no count, so per serving is the whole recipe
+  counted: number; // lines that went into the totals
+  lines: NutritionLine[];
+  source: string;
+};
+
+export type Food = {
+  name: string;
+  aliases?: string[];
+  per100g: { kcal: number; protein: number; fat: number; carbs: number; fiber: number; sodium: number };
+  each?: number; // grams in one, for counted items ("2 eggs")
+  units?: Record<string, number>; // grams per clove, slice, can...
+  gPerMl?: number; // density, when units.ts doesn't know it
+};
+
+const FOODS = table.foods as Food[];
+
+const NAMES = FOODS.flatMap((food) =>
+  [food.name, ...(food.aliases ?? [])].map((name) => ({ food, tokens: foodKey(name).split(" ") }))
+);
+
+// Joining words that don't help matching ("harina de trigo", "cloves of garlic")
+const STOP_WORDS = new Set("of de del di da du la el le the".split(" "));
+
+// Languages that put the noun first ("harina integral", "pomodori pelati")
+const NOUN_FIRST = /^(?:es|it|fr|pt)\b/;
+
+const MIN_MATCH = 0.5;
+
+// Generic weights for units no food entry lists
+const UNIT_GRAMS: Record<string, number> = { pinch: 0.4, dash: 0.6 };
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// Same word, or a one-letter slip in a long one ("mozarella")
+function sameWord(a: string, b: string) {
+  return a === b || (a.length >= 5 && b.length >= 5 && editDistance(a, b) <= 1);
+}
+
+// Best table entry for an ingredient name. Every word of the entry's name has to
+// be in the line; lines with extra words ("sharp cheddar") score lower, and a
+// match that misses the line's main noun ("lemon" for "lemon zest") lower still.
+export function matchFood(item: string, language?: string): { food: Food; match: number } | undefined {
+  const tokens = foodKey(item)
+    .split(" ")
+    .filter((t) => t && !STOP_WORDS.has(t));
+  if (!tokens.length) return undefined;
+  const head = NOUN_FIRST.test(language ?? "") ? tokens[0] : tokens.at(-1)!;
+
+  let best: { food: Food; match: number } | undefined;
+  for (const { food, tokens: name } of NAMES) {
+    if (!name.every((t) => tokens.some((w) => sameWord(w, t)))) continue;
+    const exact = name.join(" ") === tokens.join(" ");
+    const hasHead = name.some((t) => sameWord(t, head));
+    const match = exact ? 1 : Math.min(0.95, name.length / tokens.length) * (hasHead ? 1 : 0.6);
+    if (match >= MIN_MATCH && (!best || match > best.match)) best = { food, match };
+  }
+  return best;
+}
+
+function gramsFor(p: ParsedIngredient, food: Food): number | string {
+  const qty = p.quantityMax !== undefined ? (p.quantity! + p.quantityMax) / 2 : p.quantity!;
+  const unit = p.unit === "piece" ? undefined : p.unit;
+  if (!unit) return food.each ? qty * food.each : `no weight for one ${food.name}`;
+  if (isMass(unit)) return toGrams(qty, unit)!;
+  if (isVolume(unit)) {
+    const density = food.gPerMl ?? densityFor(food.name) ?? (isLiquid(food.name) ? 1 : undefined);
+    return density ? toMl(qty, unit)! * density : `no density for ${food.name}`;
+  }
+  const per = food.units?.[unit] ?? UNIT_GRAMS[unit];
+  return per ? qty * per : `no weight for a ${unit} of ${food.name}`;
+}
+
+function scaled(food: Food, grams: number): Nutrients {
+  const f = grams / 100;
+  const n = food.per100g;
+  return {
+    calories: n.kcal * f,
+    protein: n.protein * f,
+    fat: n.fat * f,
+    carbs: n.carbs * f,
+    fiber: n.fiber * f,
+    sodium: n.sodium * f,
+  };
+}
+
+const ZERO: Nutrients = { calories: 0, protein: 0, fat: 0, carbs: 0, fiber: 0, sodium: 0 };
+
+function add(a: Nutrients, b: Nutrients): Nutrients {
+  return {
+    calories: a.calories + b.calories,
+    protein: a.protein + b.protein,
+    fat: a.fat + b.fat,
+    carbs: a.carbs + b.carbs,
+    fiber: a.fiber + b.fiber,
+    sodium: a.sodium + b.sodium,
+  };
+}
+
+// Whole kcal and mg, grams to one decimal
+function rounded(n: Nutrients, divide = 1): Nutrients {
+  const one = (x: number) => Math.round((x / divide) * 10) / 10;
+  return {
+    calories: Math.round(n.calories / divide),
+    protein: one(n.protein),
+    fat: one(n.fat),
+    carbs: one(n.carbs),
+    fiber: one(n.fiber),
+    sodium: Math.round(n.sodium / divide),
+  };
+}
+
+// The report line, and the unrounded amount it adds to the totals
+function estimateLine(p: ParsedIngredient, language?: string): { report: NutritionLine; adds?: Nutrients } {
+  const line = p.raw;
+  if (p.optional) return { report: { line, ignored: "optional" } };
+  const found = matchFood(p.item, language);
+  if (!found) return { report: { line, ignored: "no match in the nutrient table" } };
+  const { food, match } = found;
+  const report = { line, food: food.name, match: Math.round(match * 100) / 100 };
+  if (p.quantity === undefined) return { report: { ...report, ignored: "no quantity" } };
+
+  const grams = gramsFor(p, food);
+  if (typeof grams === "string") return { report: { ...report, ignored: grams } };
+  const adds = scaled(food, grams);
+  return { report: { ...report, grams: Math.round(grams), nutrients: rounded(adds) }, adds };
+}
+
+export function estimateNutrition(recipe: Recipe, opts: { servings?: number } = {}): RecipeNutrition {
+  const parsed = recipe.parsedIngredients?.length ? recipe.parsedIngredients : parseIngredients(recipe.ingredients);
+  const estimated = parsed.map((p) => estimateLine(unitFromItem(p), recipe.language));
+
+  const total = estimated.reduce((sum, l) => (l.adds ? add(sum, l.adds) : sum), ZERO);
+  const count = opts.servings ?? servingsCount(recipe.servings);
+  const servings = count ?? 1;
+  return {
+    perServing: rounded(total, servings),
+    total: rounded(total),
+    servings,
+    servingsAssumed: count === undefined,
+    counted: estimated.filter((l) => l.adds).length,
+    lines: estimated.map((l) => l.report),
+    source: table.source,
+  };
+}
@@ -1,19 +1,61 @@
-type SourceText = {
-  platform: "youtube" | "tiktok" | "unknown";
+import { z } from "zod";
+import { baseLanguage } from "@/lib/locales";
+import type { Recipe } from "@/lib/recipe";
+import type { TranscriptSegment } from "@/lib/segments";
+import { facebook } from "@/lib/sources/facebook";
+import { instagram } from "@/lib/sources/instagram";
+import { pinterest } from "@/lib/sources/pinterest";
+import { web } from "@/lib/sources/web";
+
+export type Platform =
+  | "youtube"
+  | "tiktok"
+  | "instagram"
+  | "facebook"
+  | "pinterest"
+  | "web"
+  | "upload" // a file posted to /api/extract; nothing is fetched
+  | "unknown";
+
+export type SourceText = {
+  platform: Platform;
   title?: string;
   author?: string;
   text?: string; // transcript/caption/description-ish
+  segments?: TranscriptSegment[]; // timed version of `text`, when the source has timing
+  recipe?: Recipe; // schema.org Recipe markup found on the page, if any
+  language?: string; // language of `text` when the source says (caption track code)
+  translated?: boolean; // `text` is YouTube's machine translation into `language`
 };
 
-function detectPlatform(url: string): SourceText["platform"] {
-  const u = new URL(url);
-  const h = u.hostname.toLowerCase();
-  if (h.includes("youtube.com") || h.includes("youtu.be")) return "youtube";
-  if (h.includes("tiktok.com")) return "tiktok";
-  return "unknown";
+export type SourceFetchOptions = {
+  language?: string; // preferred caption language, e.g. "es" or "pt-BR"
+};
+
+// One per platform; the first adapter whose matches() accepts the URL handles it
+export type SourceAdapter = {
+  platform: Platform;
+  matches(url: URL): boolean;
+  fetch(url: string, opts?: SourceFetchOptions): Promise<SourceText>;
+};
+
+function findAdapter(url: string): SourceAdapter | null {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return null;
+  }
+  // hostnames compare lower-case; adapters only see the normalized URL
+  u.hostname = u.hostname.toLowerCase();
+  return adapters.find((a) => a.matches(u)) ?? null;
 }
 
-function parseYouTubeId(url: string): string | null {
+export function detectPlatform(url: string): Platform {
+  return findAdapter(url)?.platform ?? "unknown";
+}
+
+export function parseYouTubeId(url: string): string | null {
   try {
     const u = new URL(url);
     const h = u.hostname.toLowerCase();
@@ -38,7 +80,35 @@ function parseYouTubeId(url: string): string | null {
     return null;
   }
 }
-function extractJsonObject(html: string, marker: string): any | null {
+// tiktok.com/@user/video/<id> (also /photo/<id>); vm.tiktok.com short links
+// need a redirect to resolve, so they have no ID here.
+export function parseTikTokId(url: string): string | null {
+  try {
+    const u = new URL(url);
+    const m = u.pathname.match(/\/(?:video|photo|v)\/(\d{8,})/);
+    return m?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// Stable identity for caching: the same video under different URLs maps to one key
+export function canonicalVideoId(
+  url: string
+): { platform: "youtube" | "tiktok"; id: string } | null {
+  const platform = detectPlatform(url);
+  if (platform === "youtube") {
+    const id = parseYouTubeId(url);
+    return id ? { platform, id } : null;
+  }
+  if (platform === "tiktok") {
+    const id = parseTikTokId(url);
+    return id ? { platform, id } : null;
+  }
+  return null;
+}
+
+export function extractJsonObject(html: string, marker: string): unknown {
   const idx = html.indexOf(marker);
   if (idx === -1) return null;
 
@@ -79,28 +149,109 @@ function extractJsonObject(html: string, marker: string): any | null {
   return null;
 }
 
-function transcriptFromJson3(json3: any): string {
-  const events = json3?.events ?? [];
+// json3 events: { tStartMs, dDurationMs, segs: [{ utf8, tOffsetMs }] }; anything
+// malformed reads as no text
+const Json3Schema = z.object({
+  events: z
+    .array(
+      z
+        .object({
+          tStartMs: z.unknown(),
+          dDurationMs: z.unknown(),
+          segs: z.array(z.object({ utf8: z.string().optional() }).catch({})).catch([]),
+        })
+        .catch({ tStartMs: undefined, dDurationMs: undefined, segs: [] })
+    )
+    .catch([]),
+});
+
+export function transcriptFromJson3(json3: unknown): { text: string; segments: TranscriptSegment[] } {
+  const parsed = Json3Schema.safeParse(json3);
+  const events = parsed.success ? parsed.data.events : [];
   const parts: string[] = [];
+  const segments: TranscriptSegment[] = [];
 
   for (const ev of events) {
-    const segs = ev?.segs ?? [];
-    for (const s of segs) {
-      const t = s?.utf8;
-      if (t) parts.push(t);
+    const evParts: string[] = [];
+    for (const s of ev.segs) {
+      if (s.utf8) evParts.push(s.utf8);
+    }
+    parts.push(...evParts, "\n");
+
+    const evText = evParts.join("").replace(/\s+/g, " ").trim();
+    const startMs = Number(ev.tStartMs);
+    if (evText && Number.isFinite(startMs)) {
+      const durMs = Number(ev.dDurationMs) || 0;
+      segments.push({ start: startMs / 1000, end: (startMs + durMs) / 1000, text: evText });
     }
-    parts.push("\n");
   }
 
-  return parts.join("").replace(/\n{3,}/g, "\n\n").trim();
+  return { text: parts.join("").replace(/\n{3,}/g, "\n\n").trim(), segments };
 }
 
-async function fetchYouTubeTranscriptFallback(videoId: string): Promise<string> {
+export type CaptionTrack = {
+  baseUrl?: string;
+  languageCode?: string;
+  kind?: string; // "asr" for auto-generated
+  isTranslatable?: boolean;
+};
+
+// The caption tracks in the watch page's ytInitialPlayerResponse
+const PlayerSchema = z.object({
+  captions: z.object({
+    playerCaptionsTracklistRenderer: z.object({
+      captionTracks: z.array(
+        z
+          .object({
+            baseUrl: z.string().optional().catch(undefined),
+            languageCode: z.string().optional().catch(undefined),
+            kind: z.string().optional().catch(undefined),
+            isTranslatable: z.boolean().optional().catch(undefined),
+          })
+          .catch({})
+      ),
+    }),
+  }),
+});
+
+// Track for a language preference: a native track (uploaded before auto-generated),
+// else YouTube's machine translation of a translatable track via `tlang`.
+// Without a preference English wins, then whatever comes first.
+export function pickCaptionTrack(
+  tracks: CaptionTrack[],
+  language?: string
+): { url: string; language?: string; translated: boolean } | null {
+  const usable = tracks.filter((t) => t?.baseUrl);
+  const inLang = (code: string) =>
+    usable
+      .filter((t) => baseLanguage(t.languageCode) === code)
+      .sort((a, b) => Number(a.kind === "asr") - Number(b.kind === "asr"))[0];
+
+  const want = baseLanguage(language);
+  if (want) {
+    const native = inLang(want);
+    if (native) return { url: native.baseUrl!, language: native.languageCode, translated: false };
+    const source =
+      usable.find((t) => t.isTranslatable && t.kind !== "asr") ?? usable.find((t) => t.isTranslatable);
+    if (source) {
+      return { url: `${source.baseUrl}&tlang=${encodeURIComponent(want)}`, language: want, translated: true };
+    }
+  }
+
+  const fallback = inLang("en") ?? usable[0];
+  return fallback ? { url: fallback.baseUrl!, language: fallback.languageCode, translated: false } : null;
+}
+
+async function fetchYouTubeTranscriptFallback(
+  videoId: string,
+  language?: string
+): Promise<{ text: string; segments: TranscriptSegment[]; language?: string; translated: boolean }> {
   const watchUrl = `https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`;
+  const lang = baseLanguage(language);
     const res = await fetch(watchUrl, {
     headers: {
       "User-Agent": "Mozilla/5.0",
-      "Accept-Language": "en-US,en;q=0.9",
+      "Accept-Language": lang && lang !== "en" ? `${lang},en;q=0.8` : "en-US,en;q=0.9",
     },
   });
   if (!res.ok) throw new Error(`watch page fetch failed (${res.status})`);
@@ -108,20 +259,16 @@ async function fetchYouTubeTranscriptFallback(videoId: string): Promise<string>
   const html = await res.text();
 
   // YouTube embeds this object on the page
-  const player = extractJsonObject(html, "ytInitialPlayerResponse");
-  const tracks =
-    player?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+  const player = PlayerSchema.safeParse(extractJsonObject(html, "ytInitialPlayerResponse"));
+  const tracks = player.success ? player.data.captions.playerCaptionsTracklistRenderer.captionTracks : [];
 
-  if (!Array.isArray(tracks) || tracks.length === 0) {
+  if (tracks.length === 0) {
     throw new Error("no captionTracks found (captions may be disabled/restricted)");
   }
 
-  // Prefer English if present, otherwise first track
-  const preferred =
-    tracks.find((t: any) => (t?.languageCode || "").startsWith("en")) ?? tracks[0];
-
-  const baseUrl = preferred?.baseUrl;
-  if (!baseUrl) throw new Error("caption track missing baseUrl");
+  const preferred = pickCaptionTrack(tracks, language);
+  if (!preferred) throw new Error("caption track missing baseUrl");
+  const baseUrl = preferred.url;
 
   // Try JSON3 timedtext (easiest to parse)
   const timedTextUrl = baseUrl.includes("fmt=")
@@ -134,7 +281,11 @@ async function fetchYouTubeTranscriptFallback(videoId: string): Promise<string>
     if (!ccRes.ok) throw new Error(`timedtext fetch failed (${ccRes.status})`);
 
     const json3 = await ccRes.json();
-    return transcriptFromJson3(json3);
+    return {
+      ...transcriptFromJson3(json3),
+      language: preferred.language,
+      translated: preferred.translated,
+    };
 }
 
 
@@ -144,63 +295,98 @@ async function fetchJson(url: string) {
   return res.json();
 }
 
-export async function fetchSourceText(url: string): Promise<SourceText> {
-  const platform = detectPlatform(url);
+async function fetchYouTube(url: string, opts?: SourceFetchOptions): Promise<SourceText> {
+  const platform = "youtube";
+  const videoId = parseYouTubeId(url);
+  if (!videoId) return { platform, text: "" };
 
-  if (platform === "youtube") {
-    const videoId = parseYouTubeId(url);
-    if (!videoId) return { platform, text: "" };
+  let title: string | undefined;
+  let author: string | undefined;
+  try {
+    const oembed = await fetchJson(
+      `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`
+    );
+      title = oembed?.title;
+      author = oembed?.author_name;
+  } catch (e: any) {
+    console.error("platform.ts error:", e?.message ?? e);
+  }
 
-    let title: string | undefined;
-    let author: string | undefined;
-    try {
-      const oembed = await fetchJson(
-        `https://www.youtube.com/oembed?url=${encodeURIComponent(url)}&format=json`
-      );
-        title = oembed?.title;
-        author = oembed?.author_name;
-    } catch (e: any) {
-      console.error("platform.ts error:", e?.message ?? e);
-    }
+  let text = "";
+  let segments: TranscriptSegment[] | undefined;
+  let language: string | undefined;
+  let translated = false;
+  try {
+    // with a preference this throws when the video has no native track in that
+    // language; the watch-page fallback below can still ask for a translation
+    const { YoutubeTranscript } = await import("youtube-transcript");
+    const items = await YoutubeTranscript.fetchTranscript(
+      videoId,
+      opts?.language ? { lang: opts.language } : undefined
+    );
+    text = items.map((x) => x.text).join(" ");
+    // offset/duration are seconds (from the timedtext XML start/dur attributes)
+    segments = items.map((x) => ({ start: x.offset, end: x.offset + x.duration, text: x.text }));
+    language = items[0]?.lang ?? opts?.language;
+  } catch (e: any) {
+    console.error("youtube-transcript failed:", e?.message ?? e);
+  }
 
-    let text = "";
+  // Fallback: scrape caption track URL from the watch page
+  if (!text.trim()) {
     try {
-      const { YoutubeTranscript } = await import("youtube-transcript");
-      const items = await YoutubeTranscript.fetchTranscript(videoId);
-      text = items.map((x: any) => x.text).join(" ");
+      ({ text, segments, language, translated } = await fetchYouTubeTranscriptFallback(
+        videoId,
+        opts?.language
+      ));
     } catch (e: any) {
-      console.error("youtube-transcript failed:", e?.message ?? e);
-    }
+      if (process.env.RECIPE_RIPPER_DEBUG === "1") {
+        console.warn("youtube transcript failed (will use whisper):", e?.message ?? e);
+      }}
+  }
 
-    // Fallback: scrape caption track URL from the watch page
-    if (!text.trim()) {
-      try {
-        text = await fetchYouTubeTranscriptFallback(videoId);
-      } catch (e: any) {
-        if (process.env.RECIPE_RIPPER_DEBUG === "1") {
-          console.warn("youtube transcript failed (will use whisper):", e?.message ?? e);
-        }}
-    }
+  return { platform, title, author, text, segments, language, translated: translated || undefined };
+}
 
-    return { platform, title, author, text };
+async function fetchTikTok(url: string): Promise<SourceText> {
+  const platform = "tiktok";
+  let title: string | undefined;
+  let author: string | undefined;
+  let text = "";
+  try {
+    const oembed = await fetchJson(
+      `https://www.tiktok.com/oembed?url=${encodeURIComponent(url)}`
+    );
+      title = oembed?.title;
+      author = oembed?.author_name;
+      text = oembed?.title || "";
+  } catch (e: any) {
+    console.error("TikTok oEmbed failed:", e?.message ?? e);
   }
+  return { platform, title, author, text };
+}
 
-  if (platform === "tiktok") {
-    let title: string | undefined;
-    let author: string | undefined;
-    let text = "";
-    try {
-      const oembed = await fetchJson(
-        `https://www.tiktok.com/oembed?url=${encodeURIComponent(url)}`
-      );
-        title = oembed?.title;
-        author = oembed?.author_name;
-        text = oembed?.title || "";
-    } catch (e: any) {
-      console.error("TikTok oEmbed failed:", e?.message ?? e);
-    }
-    return { platform, title, author, text };
-  }
+const youtube: SourceAdapter = {
+  platform: "youtube",
+  matches: (u) => u.hostname.includes("youtube.com") || u.hostname.includes("youtu.be"),
+  fetch: fetchYouTube,
+};
+
+const tiktok: SourceAdapter = {
+  platform: "tiktok",
+  matches: (u) => u.hostname.includes("tiktok.com"),
+  fetch: fetchTikTok,
+};
+
+// Order matters: `web` accepts any http(s) URL, so it stays last
+const adapters: SourceAdapter[] = [youtube, tiktok, instagram, facebook, pinterest, web];
+
+export function registerSourceAdapter(adapter: SourceAdapter) {
+  adapters.splice(adapters.length - 1, 0, adapter);
+}
 
-  return { platform, text: "" };
+export async function fetchSourceText(url: string, opts?: SourceFetchOptions): Promise<SourceText> {
+  const adapter = findAdapter(url);
+  if (!adapter) return { platform: "unknown", text: "" };
+  return adapter.fetch(url, opts);
 }
@@ -0,0 +1,162 @@
+// How much to trust an extracted recipe: per-line confidence plus an overall grade.
+import type { MissingIngredient, RecipeConsistency, UnusedIngredient } from "@/lib/consistency";
+import type { Recipe } from "@/lib/recipe";
+
+// 0..1, and why we think so ("matched qty+unit regex", "fallback sentence", ...)
+export type Confidence = { score: number; reason: string };
+
+export type ExtractPath = "structured" | "llm" | "heuristic";
+
+export type QualityGrade = "A" | "B" | "C" | "D" | "F";
+
+export type DiagnosticIssue = {
+  code: string; // stable, e.g. "fallback_steps"
+  severity: "info" | "warning" | "error";
+  message: string;
+};
+
+export type RecipeDiagnostics = {
+  extractedBy?: ExtractPath;
+  grade: QualityGrade;
+  score: number; // 0..1
+  lowConfidenceBelow: number;
+  ingredients: { count: number; withQuantity: number; lowConfidence: number; avgConfidence: number };
+  steps: { count: number; lowConfidence: number; avgConfidence: number; fallback: number };
+  consistency?: { missing: MissingIngredient[]; unused: UnusedIngredient[] };
+  issues: DiagnosticIssue[];
+};
+
+// Lines under this are flagged in the UI and counted as low confidence
+export const LOW_CONFIDENCE = 0.5;
+
+// Reasons used by the extractors, kept together so scores stay comparable
+export const CONFIDENCE = {
+  structured: { score: 0.95, reason: "schema.org Recipe markup" },
+  llm: { score: 0.8, reason: "LLM output" },
+  sectionQtyUnit: { score: 0.95, reason: "ingredients section, qty+unit" },
+  sectionQty: { score: 0.85, reason: "ingredients section, quantity" },
+  sectionLine: { score: 0.6, reason: "ingredients section line" },
+  sectionSentence: { score: 0.3, reason: "prose in ingredients section" },
+  qtyUnitRegex: { score: 0.7, reason: "matched qty+unit regex" },
+  qtyRegex: { score: 0.4, reason: "matched quantity regex, no unit" },
+  leadingVerb: { score: 0.8, reason: "starts with cooking verb" },
+  cookingVerb: { score: 0.65, reason: "matched cooking verb" },
+  fallbackSentence: { score: 0.2, reason: "fallback sentence" },
+} satisfies Record<string, Confidence>;
+
+function average(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+function round(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function gradeFor(score: number): QualityGrade {
+  if (score >= 0.85) return "A";
+  if (score >= 0.7) return "B";
+  if (score >= 0.55) return "C";
+  if (score >= 0.4) return "D";
+  return "F";
+}
+
+// Lines without a score (older saved recipes, hand edits) count as middling
+const UNSCORED = 0.5;
+
+function listNames(names: string[]) {
+  return names.length > 5 ? `${names.slice(0, 5).join(", ")} and ${names.length - 5} more` : names.join(", ");
+}
+
+export function diagnoseRecipe(recipe: Recipe, consistency?: RecipeConsistency): RecipeDiagnostics {
+  const ingredients = recipe.parsedIngredients ?? [];
+  const steps = recipe.stepDetails ?? recipe.steps.map((text) => ({ text, confidence: undefined }));
+
+  const ingScores = ingredients.map((p) => p.confidence?.score ?? UNSCORED);
+  const stepScores = steps.map((s) => s.confidence?.score ?? UNSCORED);
+  const fallback = steps.filter(
+    (s) => s.confidence?.reason === CONFIDENCE.fallbackSentence.reason
+  ).length;
+  const withQuantity = ingredients.filter((p) => p.quantity !== undefined).length;
+
+  const issues: DiagnosticIssue[] = [];
+  if (!ingredients.length) {
+    issues.push({ code: "no_ingredients", severity: "error", message: "No ingredients found" });
+  } else {
+    if (ingredients.length < 3) {
+      issues.push({
+        code: "few_ingredients",
+        severity: "warning",
+        message: `Only ${ingredients.length} ingredient(s) found`,
+      });
+    }
+    if (!withQuantity) {
+      issues.push({ code: "no_quantities", severity: "warning", message: "No ingredient has a quantity" });
+    }
+  }
+  if (!steps.length) {
+    issues.push({ code: "no_steps", severity: "error", message: "No steps found" });
+  } else if (fallback === steps.length) {
+    issues.push({
+      code: "fallback_steps",
+      severity: "warning",
+      message: "No sentence looked like an instruction; steps are the first sentences of the text",
+    });
+  }
+  const lowIng = ingScores.filter((s) => s < LOW_CONFIDENCE).length;
+  const lowSteps = stepScores.filter((s) => s < LOW_CONFIDENCE).length;
+  if (lowIng && ingredients.length) {
+    issues.push({
+      code: "low_confidence_ingredients",
+      severity: "info",
+      message: `${lowIng} ingredient line(s) are uncertain`,
+    });
+  }
+  if (lowSteps && fallback !== steps.length) {
+    issues.push({
+      code: "low_confidence_steps",
+      severity: "info",
+      message: `${lowSteps} step(s) are uncertain`,
+    });
+  }
+
+  if (consistency?.missing.length) {
+    issues.push({
+      code: "ingredient_not_listed",
+      severity: "warning",
+      message: `Steps use ${listNames(consistency.missing.map((m) => m.name))}, missing from the ingredients`,
+    });
+  }
+  if (consistency?.unused.length) {
+    issues.push({
+      code: "ingredient_unused",
+      severity: "info",
+      message: `No step mentions ${listNames(consistency.unused.map((u) => u.item))}`,
+    });
+  }
+
+  // Mostly line confidence; an empty half caps the grade
+  let score = 0.5 * average(ingScores) + 0.5 * average(stepScores);
+  if (ingredients.length && ingredients.length < 3) score -= 0.1;
+  if (!ingredients.length || !steps.length) score = Math.min(score, 0.35);
+
+  return {
+    extractedBy: recipe.extractedBy,
+    grade: gradeFor(score),
+    score: round(Math.max(0, score)),
+    lowConfidenceBelow: LOW_CONFIDENCE,
+    ingredients: {
+      count: ingredients.length,
+      withQuantity,
+      lowConfidence: lowIng,
+      avgConfidence: round(average(ingScores)),
+    },
+    steps: {
+      count: steps.length,
+      lowConfidence: lowSteps,
+      avgConfidence: round(average(stepScores)),
+      fallback,
+    },
+    consistency: consistency && { missing: consistency.missing, unused: consistency.unused },
+    issues,
+  };
+}
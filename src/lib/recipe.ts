@@ -1,14 +1,51 @@
+import { z } from "zod";
+import { parseIngredient, parseIngredients, type ParsedIngredient } from "@/lib/ingredients";
+import { getLlmProvider } from "@/lib/llm";
+import { baseLanguage, detectLanguage, rulesFor, wordsPattern, type LocaleRules } from "@/lib/locales";
+import type { RecipeNutrition } from "@/lib/nutrition";
+import { CONFIDENCE, type Confidence, type ExtractPath } from "@/lib/quality";
+import { locateSegment, type SegmentRef, type TranscriptSegment } from "@/lib/segments";
+import { buildSteps, parseStepTiming, type StepTiming } from "@/lib/steps";
+import type { PushStep } from "@/lib/server/transcribe";
+
+export type RecipeStep = StepTiming & {
+  text: string; // step text without its "1. " prefix
+  segment?: SegmentRef; // where it was said, for ?t= deep links
+  confidence?: Confidence;
+  ingredients?: number[]; // indexes into `parsedIngredients` the step mentions (see consistency.ts)
+};
+
+export type RecipeTimes = { prepMin?: number; cookMin?: number; totalMin?: number };
+
 export type Recipe = {
   title: string;
+  author?: string;
   servings?: string;
-  time?: string;
+  time?: string; // human-readable, e.g. "Prep 15 min · Cook 30 min"
+  times?: RecipeTimes;
   ingredients: string[];
+  parsedIngredients?: ParsedIngredient[]; // structured view of `ingredients`
   steps: string[];
+  stepDetails?: RecipeStep[]; // structured view of `steps`, same order
   notes?: string[];
   equipment?: string[];
   sourceUrl?: string;
+  language?: string; // ISO 639-1 code of the source text, when known
+  extractedBy?: ExtractPath;
+  nutrition?: RecipeNutrition; // estimate from the bundled nutrient table (see nutrition.ts)
 };
 
+// What we accept back from an LLM provider
+export const RecipeSchema = z.object({
+  title: z.string().min(1),
+  servings: z.string().optional(),
+  time: z.string().optional(),
+  ingredients: z.array(z.string().min(1)).min(1),
+  steps: z.array(z.string().min(1)).min(1),
+  notes: z.array(z.string()).optional(),
+  equipment: z.array(z.string()).optional(),
+});
+
 function clean(s: string) {
   return s.replace(/\s+/g, " ").trim();
 }
@@ -17,6 +54,21 @@ function uniq(arr: string[]) {
   return Array.from(new Set(arr.map((x) => clean(x)).filter(Boolean)));
 }
 
+// A candidate line and why the heuristics picked it
+type Scored = { text: string; confidence: Confidence };
+
+// The same line often comes from two places ("- 4 patatas" in the description,
+// "4 patatas" in the captions); the first one wins
+function uniqScored(arr: Scored[]): Scored[] {
+  const seen = new Set<string>();
+  return arr
+    .map((x) => ({ ...x, text: clean(x.text) }))
+    .filter((x) => {
+      const key = x.text.replace(/^[-–•*]\s*/, "").toLowerCase();
+      return key && !seen.has(key) && seen.add(key);
+    });
+}
+
 function splitSentences(text: string): string[] {
   return text
     .replace(/\n+/g, " ")
@@ -31,69 +83,186 @@ function guessTitle(fullText: string, fallback = "Recipe") {
   const first = splitSentences(fullText)[0];
   return (first?.slice(0, 80) || fallback).replace(/^SOURCE TEXT:\s*/i, "");
 }
-function extractIngredientCandidates(text: string): string[] {
-  // 1) Prefer explicit "ingredients" section if present
+function extractIngredientCandidates(text: string, rules: LocaleRules[]): Scored[] {
+  // 1) Prefer an explicit "ingredients" / "ingredientes" / "zutaten" section if present
+  const headers = wordsPattern(rules.flatMap((r) => r.ingredientHeaders));
   const ingredientsSection =
-    text.match(/ingredients?\s*[:\n]+([\s\S]{0,3000})/i)?.[1] ?? "";
+    text.match(new RegExp(`${headers}\\s*[:\\n]+([\\s\\S]{0,3000})`, "iu"))?.[1] ?? "";
 
   const sectionLines = ingredientsSection
     .split("\n")
     .map((s) => s.trim())
     .filter((s) => s && s.length < 120);
 
+  const stepHeader = new RegExp(`^${wordsPattern(rules.flatMap((r) => r.stepHeaders))}`, "iu");
   const likelyIngredientLine = (s: string) =>
-    !/^(step|steps|method|directions|instructions|notes?)\b/i.test(s) &&
+    !stepHeader.test(s) &&
     !/\bsubscribe|like|follow\b/i.test(s) &&
-    /[a-z]/i.test(s);
+    /\p{L}/u.test(s);
 
   const fromSection = sectionLines
     .filter(likelyIngredientLine)
-    .slice(0, 40);
+    .slice(0, 40)
+    .map((line) => {
+      const p = parseIngredient(line);
+      // the section runs on into the method when there's no blank line or header
+      const confidence = /[.!?]\s+\S/.test(line)
+        ? CONFIDENCE.sectionSentence
+        : p.quantity === undefined
+          ? CONFIDENCE.sectionLine
+          : p.unit
+            ? CONFIDENCE.sectionQtyUnit
+            : CONFIDENCE.sectionQty;
+      return { text: line, confidence };
+    });
 
   // 2) Quantity+unit pattern anywhere (your original approach)
-  const units =
-    "(tsp|tbsp|teaspoon|tablespoon|cup|cups|oz|ounce|ounces|lb|pound|pounds|g|gram|grams|kg|ml|l|liter|litre|clove|cloves|pinch|dash|slice|slices)";
+  const units = wordsPattern([
+    ..."tsp|tbsp|teaspoon|tablespoon|cup|cups|oz|ounce|ounces|lb|pound|pounds|g|gram|grams|kg|ml|l|liter|litre|clove|cloves|pinch|dash|slice|slices".split("|"),
+    ...rules.flatMap((r) => Object.values(r.units).flat()),
+  ]);
   const qty = "(?:\\d+(?:\\.\\d+)?|\\d+\\/\\d+)";
   const pattern = new RegExp(
-    `\\b${qty}\\s*(?:-\\s*${qty}\\s*)?(?:\\s*(?:x|×)\\s*${qty}\\s*)?(?:\\s*${units})?\\s+[a-z][^.!?\\n]{0,60}`,
-    "gi"
+    `\\b${qty}\\s*(?:-\\s*${qty}\\s*)?(?:\\s*(?:x|×)\\s*${qty}\\s*)?(?:\\s*${units})?\\s+\\p{L}[^.!?\\n]{0,60}`,
+    "giu"
   );
 
   const hits = text.match(pattern) || [];
   const filtered = hits.filter(
-    (h) => !/\b(minutes?|seconds?|degrees?|°f|°c)\b/i.test(h)
+    (h) =>
+      // times, temperatures and head counts aren't ingredients
+      !/\b(minutes?|seconds?|degrees?|°f|°c|minutos|minuti|Minuten|segundos|secondi|grados|gradi|Grad|minat)\b/i.test(h) &&
+      !/^\S+\s+(people|persons|servings|personas|persone|personnes|Personen|porciones|porzioni|log)\b/i.test(h)
   );
 
-  return uniq([...fromSection, ...filtered]).slice(0, 40);
+  const fromRegex = filtered.map((h) => ({
+    text: h,
+    confidence: parseIngredient(h).unit ? CONFIDENCE.qtyUnitRegex : CONFIDENCE.qtyRegex,
+  }));
+
+  return uniqScored([...fromSection, ...fromRegex]).slice(0, 40);
+}
+// "serves 4", "servings: 4-6", "makes 12 cookies", "yield: 2 loaves", "for 4 people"
+export function detectServings(text: string): string | undefined {
+  const patterns = [
+    /\b(?:serves|serving|servings|portions|porciones|raciones|porzioni|Portionen)\s*[:\-]?\s*(\d+(?:\s*(?:-|–|to)\s*\d+)?)/i,
+    /\b(\d+(?:\s*(?:-|–|to)\s*\d+)?)\s+(?:servings|portions|porciones|raciones|porzioni|Portionen)\b/i,
+    /\b(?:makes|yields?|yield)\s*[:\-]?\s*(?:about\s+|approximately\s+)?(\d+(?:\s*(?:-|–|to)\s*\d+)?(?:\s+[a-z]+){0,2})/i,
+    /\b(?:for|para|per|pour|für)\s+(\d+(?:\s*(?:-|–|to)\s*\d+)?)\s+(?:people|persons|guests|personas|persone|personnes|Personen|log)\b/i,
+  ];
+  for (const re of patterns) {
+    const m = text.match(re);
+    if (m?.[1]) {
+      return clean(m[1])
+        .replace(/\s*(?:–|to)\s*/, "-")
+        .replace(/\s+(?:and|in|of|with|for|the|a|to)\b.*$/i, "");
+    }
+  }
+  return undefined;
+}
+
+// Models love `null` for "unknown"; treat it as a missing optional key
+function dropNulls(v: unknown): unknown {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return v;
+  return Object.fromEntries(Object.entries(v).filter(([, x]) => x !== null));
 }
-function extractSteps(text: string): string[] {
-  const sentences = splitSentences(text);
-  const keep = sentences.filter((s) =>
-    /\b(add|mix|stir|whisk|cook|bake|fry|saute|sauté|boil|simmer|chop|slice|mince|combine|blend|serve|fold|pour|season|heat|preheat)\b/i.test(
-      s
-    )
-  );
 
-  const steps = (keep.length ? keep : sentences).slice(0, 18);
-  return uniq(steps).map((s, i) => `${i + 1}. ${s}`);
+async function maybeUseLLM(fullText: string, push?: PushStep): Promise<Recipe | null> {
+  let provider;
+  try {
+    provider = getLlmProvider();
+  } catch (e: any) {
+    push?.("recipe.llm.fail", e?.message ?? "LLM provider misconfigured");
+    return null;
+  }
+  if (!provider) return null;
+
+  push?.("recipe.llm.start", `Asking ${provider.name}`);
+  let reply: unknown;
+  try {
+    reply = await provider.extractRecipe(fullText);
+  } catch (e: any) {
+    push?.("recipe.llm.fail", e?.message ?? "LLM call failed");
+    return null;
+  }
+
+  const parsed = RecipeSchema.safeParse(dropNulls(reply));
+  if (!parsed.success) {
+    push?.("recipe.llm.invalid", "LLM reply failed schema validation", {
+      issues: parsed.error.issues.slice(0, 5).map((i) => `${i.path.join(".")}: ${i.message}`),
+    });
+    return null;
+  }
+
+  const r = parsed.data;
+  const ingredients = uniq(r.ingredients);
+  const steps = uniq(r.steps).map((s) => s.replace(/^\d+[.)]\s*/, ""));
+  return {
+    ...r,
+    ingredients,
+    parsedIngredients: parseIngredients(ingredients).map((p) => ({ ...p, confidence: CONFIDENCE.llm })),
+    steps: steps.map((s, i) => `${i + 1}. ${s}`),
+    stepDetails: steps.map((text) => ({ text, confidence: CONFIDENCE.llm })),
+    extractedBy: "llm",
+  };
 }
 
-// placeholder – you can plug an LLM here later
-async function maybeUseLLM(_fullText: string): Promise<Recipe | null> {
-  return null;
+// Fill `stepDetails` (with times/temperatures read from each step) and, given timed segments, point steps/ingredients back at them.
+// Confidence already on `stepDetails` (same order as `steps`) is kept.
+export function linkRecipe(recipe: Recipe, segments?: TranscriptSegment[]): Recipe {
+  const find = (text: string) =>
+    segments?.length ? locateSegment(text, segments) ?? undefined : undefined;
+
+  const scored = recipe.stepDetails;
+  recipe.stepDetails = recipe.steps.map((s, i) => {
+    const text = s.replace(/^\d+[.)]\s*/, "");
+    return { text, ...parseStepTiming(text), segment: find(text), confidence: scored?.[i]?.confidence };
+  });
+  recipe.parsedIngredients = recipe.parsedIngredients?.map((p) => ({
+    ...p,
+    segment: find(p.item || p.raw),
+  }));
+  return recipe;
 }
 
 export async function extractRecipe(
   fullText: string,
-  opts?: { sourceUrl?: string; sourceTitle?: string }
+  opts?: {
+    sourceUrl?: string;
+    sourceTitle?: string;
+    segments?: TranscriptSegment[];
+    language?: string; // known language of the source (caption track, Whisper); guessed otherwise
+    push?: PushStep;
+  }
 ): Promise<Recipe> {
-  const llm = await maybeUseLLM(fullText);
-  if (llm) return llm;
+  const push = opts?.push;
+  const language = baseLanguage(opts?.language) ?? detectLanguage(fullText);
+  push?.("recipe.language", language ? `Source language: ${language}` : "Source language unknown", {
+    language,
+    detected: !opts?.language,
+  });
+
+  const llm = await maybeUseLLM(fullText, push);
+  if (llm) {
+    push?.("recipe.path", "Recipe produced by LLM", { path: "llm" });
+    llm.servings ??= detectServings(fullText);
+    return linkRecipe({ ...llm, sourceUrl: opts?.sourceUrl, language }, opts?.segments);
+  }
+  push?.("recipe.path", "Recipe produced by heuristic extractor", { path: "heuristic" });
 
   const title = opts?.sourceTitle || guessTitle(fullText);
 
-  const ingredients = extractIngredientCandidates(fullText);
-  const steps = extractSteps(fullText);
+  const rules = rulesFor(language);
+  const candidates = extractIngredientCandidates(fullText, rules);
+  const ingredients = candidates.map((c) => c.text);
+  const scoredSteps = buildSteps(fullText, { rules, segments: opts?.segments });
+  const steps = scoredSteps.map((s, i) => `${i + 1}. ${s.text}`);
+
+  const ingredientConfidence = new Map(candidates.map((c) => [c.text, c.confidence]));
+  const parsedIngredients = parseIngredients(ingredients).map((p) => ({
+    ...p,
+    confidence: ingredientConfidence.get(p.raw),
+  }));
 
   const notes: string[] = [];
   if (!ingredients.length)
@@ -105,11 +274,19 @@ export async function extractRecipe(
       "No clear steps found — consider pasting captions/transcript."
     );
 
-  return {
-    title,
-    ingredients,
-    steps,
-    notes: notes.length ? notes : undefined,
-    sourceUrl: opts?.sourceUrl,
-  };
+  return linkRecipe(
+    {
+      title,
+      servings: detectServings(fullText),
+      ingredients,
+      parsedIngredients,
+      steps,
+      stepDetails: scoredSteps.map((s) => ({ text: s.text, confidence: s.confidence })),
+      notes: notes.length ? notes : undefined,
+      sourceUrl: opts?.sourceUrl,
+      language,
+      extractedBy: "heuristic",
+    },
+    opts?.segments
+  );
 }
@@ -0,0 +1,70 @@
+// Rescale a recipe to a serving count and/or convert its units.
+import { formatIngredient, formatQuantity, parseIngredients, type ParsedIngredient } from "@/lib/ingredients";
+import type { Recipe } from "@/lib/recipe";
+import { convertAmount, type UnitSystem } from "@/lib/units";
+
+export type ScaleOptions = {
+  servings?: number; // target servings; needs recipe.servings to work out the factor
+  factor?: number; // explicit multiplier, wins over `servings`
+  system?: UnitSystem;
+};
+
+// "4", "4-6 servings", "12 cookies" -> 4 / 4 / 12
+export function servingsCount(servings?: string): number | undefined {
+  const m = servings?.match(/\d+(?:\.\d+)?/);
+  const n = m ? Number(m[0]) : NaN;
+  return n > 0 ? n : undefined;
+}
+
+export function scaleIngredient(
+  p: ParsedIngredient,
+  factor: number,
+  system?: UnitSystem
+): ParsedIngredient {
+  if (p.quantity === undefined) return p;
+  let next: ParsedIngredient = {
+    ...p,
+    quantity: p.quantity * factor,
+    quantityMax: p.quantityMax !== undefined ? p.quantityMax * factor : undefined,
+  };
+  if (system) {
+    const converted = convertAmount(
+      { quantity: next.quantity!, quantityMax: next.quantityMax, unit: next.unit },
+      next.item,
+      system
+    );
+    if (converted) next = { ...next, ...converted };
+  }
+  return next;
+}
+
+export function scaleRecipe(recipe: Recipe, opts: ScaleOptions): { recipe: Recipe; factor: number } {
+  const base = servingsCount(recipe.servings);
+  let factor = 1;
+  if (opts.factor && opts.factor > 0) factor = opts.factor;
+  else if (opts.servings && opts.servings > 0) {
+    if (!base) throw new Error("Recipe has no servings count to scale from; pass `factor` instead");
+    factor = opts.servings / base;
+  }
+
+  // payloads can come without parsed lines ({ title, ingredients, steps })
+  const parsed = recipe.parsedIngredients?.length ? recipe.parsedIngredients : parseIngredients(recipe.ingredients);
+  const scaled = parsed.map((p) => scaleIngredient(p, factor, opts.system));
+  const changed = factor !== 1 || !!opts.system;
+
+  // keep the wording of the original ("12 cookies" -> "24 cookies", "4-6" -> "8-12")
+  const servings =
+    base && factor !== 1
+      ? recipe.servings!.replace(/\d+(?:\.\d+)?/g, (n) => formatQuantity(Number(n) * factor))
+      : recipe.servings;
+
+  return {
+    factor,
+    recipe: {
+      ...recipe,
+      servings,
+      parsedIngredients: scaled,
+      ingredients: changed && parsed.length ? scaled.map(formatIngredient) : recipe.ingredients,
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// Timed transcript segments (captions or Whisper) and mapping extracted text back to them.
+
+export type TranscriptSegment = { start: number; end: number; text: string }; // seconds
+
+// Where in the video a step/ingredient was said: segment index + its time span
+export type SegmentRef = { index: number; start: number; end: number };
+
+const STOP = new Set([
+  "the", "and", "for", "with", "you", "your", "then", "that", "this", "are", "was",
+  "just", "into", "now", "some", "all", "its", "it's", "our", "out", "from", "about",
+]);
+
+function words(s: string): string[] {
+  return (s.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(
+    (w) => w.length >= 3 && !STOP.has(w)
+  );
+}
+
+const WINDOW = 3; // a sentence often spans a few caption lines
+
+// Best-matching run of segments for `snippet`, or null when nothing overlaps enough
+export function locateSegment(snippet: string, segments: TranscriptSegment[]): SegmentRef | null {
+  const want = new Set(words(snippet));
+  if (want.size === 0 || segments.length === 0) return null;
+
+  const segWords = segments.map((s) => new Set(words(s.text)));
+  let best = { score: 0, first: -1, last: -1 };
+
+  for (let i = 0; i < segments.length; i++) {
+    const seen = new Set<string>();
+    let first = -1;
+    let last = -1;
+    for (let j = i; j < Math.min(i + WINDOW, segments.length); j++) {
+      let hit = false;
+      for (const w of want) {
+        if (segWords[j].has(w)) {
+          seen.add(w);
+          hit = true;
+        }
+      }
+      if (hit) {
+        if (first === -1) first = j;
+        last = j;
+      }
+    }
+    if (seen.size > best.score) best = { score: seen.size, first, last };
+  }
+
+  // at least two words, and half of what the snippet says
+  const needed = Math.max(2, Math.ceil(want.size / 2));
+  if (best.first === -1 || best.score < Math.min(needed, want.size)) return null;
+
+  return {
+    index: best.first,
+    start: segments[best.first].start,
+    end: segments[best.last].end,
+  };
+}
+
+export function segmentsToText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((s) => s.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
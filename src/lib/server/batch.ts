@@ -0,0 +1,396 @@
+// src/lib/server/batch.ts
+// Batch extraction over a list of URLs and/or playlists/channels. Each batch is
+// one JSON file under DATA_DIR/batches, rewritten after every item, so a server
+// restart picks up where it left off (see resumeBatches, called from
+// src/instrumentation.ts). Items run BATCH_CONCURRENCY at a time per batch,
+// each as a job, so JOB_CONCURRENCY caps them along with everything else.
+import { randomUUID } from "node:crypto";
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { detectPlatform } from "@/lib/platform";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { runQueued } from "@/lib/server/jobs";
+import { dataDir, readJsonFile, writeJsonFile } from "@/lib/server/jsonFile";
+import { getTranscribeConfig, runJson } from "@/lib/server/transcribe";
+
+export type BatchItemStatus = "pending" | "running" | "done" | "failed" | "cancelled";
+export type BatchStatus = "expanding" | "running" | "done" | "failed" | "cancelled";
+
+export type BatchItem = {
+  url: string;
+  title?: string; // from the playlist listing
+  from?: string; // playlist/channel URL it was expanded from
+  status: BatchItemStatus;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts: number;
+  result?: Record<string, unknown>; // the /api/extract success payload, minus steps
+  error?: string;
+  step?: string; // pipeline step that failed
+};
+
+export type BatchOptions = {
+  whisperModel: string;
+  language?: string;
+  forceRefresh: boolean;
+  ocr?: boolean; // unset in batches saved before OCR existed
+};
+
+export type Batch = {
+  id: string;
+  status: BatchStatus;
+  createdAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  inputs: string[]; // as submitted
+  options: BatchOptions;
+  items: BatchItem[];
+  error?: string; // expansion failure
+};
+
+type BatchState = { batches: Map<string, Batch>; running: Map<string, AbortController> };
+
+// globalThis for the same reason as jobs.ts: dev reloads must not lose running batches
+const g = globalThis as typeof globalThis & { __recipeRipperBatches?: BatchState };
+const state: BatchState = (g.__recipeRipperBatches ??= { batches: new Map(), running: new Map() });
+
+function batchDir() {
+  return path.join(dataDir(), "batches");
+}
+
+function batchPath(id: string) {
+  return path.join(batchDir(), `${id}.json`);
+}
+
+function concurrency() {
+  const n = Number(process.env.BATCH_CONCURRENCY || "2");
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 2;
+}
+
+function maxItems() {
+  const n = Number(process.env.BATCH_MAX_ITEMS || "50");
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 50;
+}
+
+// Writes per batch are chained so a slow write never lands after a newer one
+const writes = new Map<string, Promise<unknown>>();
+
+function save(batch: Batch) {
+  batch.updatedAt = Date.now();
+  const snapshot = structuredClone(batch);
+  const next = (writes.get(batch.id) ?? Promise.resolve())
+    .catch(() => {})
+    .then(() => writeJsonFile(batchPath(batch.id), snapshot));
+  writes.set(batch.id, next);
+  return next;
+}
+
+// For saves while a batch runs: a failed write (full disk) is logged rather than
+// stopping the workers, and the batch keeps going in memory until a save lands
+function trySave(batch: Batch) {
+  return save(batch).catch((e: any) => console.error(`batch ${batch.id} not saved:`, e?.message ?? e));
+}
+
+// ---------- playlist / channel expansion ----------
+
+// Playlists, channels and profiles; a watch URL that merely carries &list= stays one video
+export function isCollectionUrl(url: string): boolean {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch {
+    return false;
+  }
+  const platform = detectPlatform(url);
+  if (platform === "youtube") {
+    if (u.pathname === "/playlist") return u.searchParams.has("list");
+    return /^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)(\/|$)/.test(u.pathname);
+  }
+  if (platform === "tiktok") return /^\/@[^/]+\/?$/.test(u.pathname);
+  return false;
+}
+
+// A bare channel URL lists its tabs, not videos; ask for the uploads tab
+function listingUrl(url: string) {
+  const u = new URL(url);
+  if (
+    detectPlatform(url) === "youtube" &&
+    /^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)\/?$/.test(u.pathname)
+  ) {
+    u.pathname = u.pathname.replace(/\/?$/, "/videos");
+  }
+  return u.toString();
+}
+
+// An entry of yt-dlp's --flat-playlist -J listing (the listing itself has the same
+// shape); a nested playlist or tab has `entries` of its own
+const optionalString = z.string().optional().catch(undefined);
+const EntrySchema = z.object({
+  webpage_url: optionalString,
+  url: optionalString,
+  id: optionalString,
+  ie_key: optionalString,
+  title: optionalString,
+  entries: z.array(z.unknown()).optional().catch(undefined),
+});
+type Entry = z.infer<typeof EntrySchema>;
+
+function entryUrl(e: Entry): string | null {
+  for (const v of [e.webpage_url, e.url]) {
+    if (v && /^https?:\/\//.test(v)) return v;
+  }
+  if (e.id && /youtube/i.test(e.ie_key ?? "")) {
+    return `https://www.youtube.com/watch?v=${encodeURIComponent(e.id)}`;
+  }
+  return null;
+}
+
+function flatEntries(entries: unknown[], out: { url: string; title?: string }[], limit: number) {
+  for (const raw of entries) {
+    if (out.length >= limit) return;
+    const parsed = EntrySchema.safeParse(raw);
+    if (!parsed.success) continue;
+    const e = parsed.data;
+    if (e.entries) {
+      flatEntries(e.entries, out, limit);
+      continue;
+    }
+    if (e.ie_key === "YoutubeTab") continue; // nested tab/playlist link, not a video
+    const url = entryUrl(e);
+    if (url) out.push({ url, title: e.title });
+  }
+}
+
+// yt-dlp --flat-playlist lists entries without downloading or resolving each video
+export async function expandPlaylist(
+  url: string,
+  limit = maxItems(),
+  signal?: AbortSignal
+): Promise<{ url: string; title?: string }[]> {
+  const { ytdlpBin, downloadTimeoutMs } = getTranscribeConfig();
+  const json = await runJson(
+    ytdlpBin,
+    ["--flat-playlist", "-J", "--playlist-end", String(limit), listingUrl(url)],
+    undefined,
+    signal,
+    downloadTimeoutMs
+  );
+  const listing = EntrySchema.safeParse(json);
+  const out: { url: string; title?: string }[] = [];
+  flatEntries(listing.success ? (listing.data.entries ?? []) : [], out, limit);
+  return out;
+}
+
+async function expand(batch: Batch, signal: AbortSignal) {
+  const limit = maxItems();
+  const seen = new Set<string>();
+  const items: BatchItem[] = [];
+  const add = (item: Omit<BatchItem, "status" | "attempts">) => {
+    if (items.length >= limit || seen.has(item.url)) return;
+    seen.add(item.url);
+    items.push({ ...item, status: "pending", attempts: 0 });
+  };
+
+  for (const input of batch.inputs) {
+    if (!isCollectionUrl(input)) {
+      add({ url: input });
+      continue;
+    }
+    const entries = await expandPlaylist(input, limit - items.length, signal);
+    for (const e of entries) add({ url: e.url, title: e.title, from: input });
+  }
+  return items;
+}
+
+// ---------- running ----------
+
+function settle(batch: Batch) {
+  if (batch.status !== "running") return;
+  if (batch.items.every((i) => i.status !== "pending" && i.status !== "running")) {
+    batch.status = "done";
+    batch.finishedAt = Date.now();
+  }
+}
+
+async function runItem(batch: Batch, item: BatchItem, signal: AbortSignal) {
+  item.status = "running";
+  item.startedAt = Date.now();
+  item.attempts++;
+  item.error = item.step = undefined;
+  await trySave(batch);
+
+  try {
+    const input = ExtractBodySchema.parse({ url: item.url, ...batch.options });
+    const steps: string[] = [];
+    const { body } = await runQueued(
+      "extract",
+      (push, jobSignal) =>
+        runExtract(
+          input,
+          (step, msg, data) => {
+            steps.push(step);
+            push(step, msg, data);
+          },
+          jobSignal
+        ),
+      signal
+    );
+    // extraction and the LLM call don't watch the signal; a cancel can land mid-run
+    if (signal.aborted) return;
+    if (body.ok) {
+      // the transcript can be large; keep the batch file to what people look at
+      const { sourceUsed, ...rest } = body;
+      item.result = {
+        ...rest,
+        sourceUsed:
+          sourceUsed && typeof sourceUsed === "object"
+            ? { ...sourceUsed, text: undefined, segments: undefined }
+            : sourceUsed,
+      };
+      item.status = "done";
+    } else {
+      item.status = "failed";
+      item.error = String(body.error ?? "Extraction failed");
+      item.step = typeof body.step === "string" ? body.step : steps.at(-1);
+    }
+  } catch (e: any) {
+    if (signal.aborted) return; // cancelBatch already marked it
+    item.status = "failed";
+    item.error = e?.message ?? "Extraction failed";
+  }
+  item.finishedAt = Date.now();
+  settle(batch);
+  await trySave(batch);
+}
+
+async function drive(batch: Batch) {
+  if (state.running.has(batch.id)) return;
+  const controller = new AbortController();
+  state.running.set(batch.id, controller);
+  const { signal } = controller;
+
+  try {
+    if (batch.status === "expanding") {
+      try {
+        batch.items = await expand(batch, signal);
+        batch.status = "running";
+      } catch (e: any) {
+        if (signal.aborted) return;
+        batch.status = "failed";
+        batch.error = `Couldn't expand playlist: ${e?.message ?? e}`;
+        batch.finishedAt = Date.now();
+      }
+      await trySave(batch);
+    }
+
+    // N workers pulling the next pending item
+    const worker = async () => {
+      while (!signal.aborted && batch.status === "running") {
+        const item = batch.items.find((i) => i.status === "pending");
+        if (!item) return;
+        await runItem(batch, item, signal);
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency() }, worker));
+    settle(batch);
+    await trySave(batch);
+  } finally {
+    state.running.delete(batch.id);
+  }
+}
+
+function start(batch: Batch) {
+  drive(batch).catch((e: any) => console.error(`batch ${batch.id} stopped:`, e?.message ?? e));
+}
+
+// ---------- public API ----------
+
+export async function createBatch(inputs: string[], options: BatchOptions): Promise<Batch> {
+  const now = Date.now();
+  const batch: Batch = {
+    id: randomUUID(),
+    status: "expanding",
+    createdAt: now,
+    updatedAt: now,
+    inputs,
+    options,
+    items: [],
+  };
+  state.batches.set(batch.id, batch);
+  await save(batch);
+  start(batch);
+  return batch;
+}
+
+export async function getBatch(id: string): Promise<Batch | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  const cached = state.batches.get(id);
+  if (cached) return cached;
+  const batch = await readJsonFile<Batch | null>(batchPath(id), null);
+  if (batch) state.batches.set(id, batch);
+  return batch;
+}
+
+export async function listBatches(): Promise<Batch[]> {
+  const files = await readdir(batchDir()).catch(() => [] as string[]);
+  const batches = await Promise.all(
+    files
+      .filter((f) => f.endsWith(".json"))
+      .map((f) =>
+        // one unreadable file shouldn't hide (or stop resuming) the others
+        getBatch(f.slice(0, -".json".length)).catch((e: any) => {
+          console.error(`Skipping batch file ${f}:`, e?.message ?? e);
+          return null;
+        })
+      )
+  );
+  return batches.filter((b): b is Batch => !!b).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function cancelBatch(id: string): Promise<Batch | null> {
+  const batch = await getBatch(id);
+  if (!batch) return null;
+  if (batch.status === "expanding" || batch.status === "running") {
+    batch.status = "cancelled";
+    batch.finishedAt = Date.now();
+    for (const item of batch.items) {
+      if (item.status === "pending" || item.status === "running") {
+        item.status = "cancelled";
+        item.finishedAt = Date.now();
+      }
+    }
+    state.running.get(id)?.abort();
+    await save(batch);
+  }
+  return batch;
+}
+
+// Restart batches a previous server process left unfinished. Items that were
+// mid-run when it died go back to pending and run again.
+export async function resumeBatches(): Promise<string[]> {
+  const resumed: string[] = [];
+  for (const batch of await listBatches()) {
+    if (batch.status !== "expanding" && batch.status !== "running") continue;
+    if (state.running.has(batch.id)) continue;
+    for (const item of batch.items) {
+      if (item.status === "running") item.status = "pending";
+    }
+    await save(batch);
+    start(batch);
+    resumed.push(batch.id);
+  }
+  return resumed;
+}
+
+export function batchCounts(batch: Batch) {
+  const counts: Record<BatchItemStatus, number> = {
+    pending: 0,
+    running: 0,
+    done: 0,
+    failed: 0,
+    cancelled: 0,
+  };
+  for (const item of batch.items) counts[item.status]++;
+  return { total: batch.items.length, ...counts };
+}
@@ -0,0 +1,490 @@
+// src/lib/server/extract.ts
+// The /api/extract pipeline, shared by the JSON and streaming (SSE) responses.
+import path from "node:path";
+import { z } from "zod";
+import { cleanTranscript, type CleanResult, type RemovedSpan } from "@/lib/clean";
+import { checkConsistency } from "@/lib/consistency";
+import { baseLanguage } from "@/lib/locales";
+import { estimateNutrition } from "@/lib/nutrition";
+import { canonicalVideoId, fetchSourceText, type SourceText } from "@/lib/platform";
+import { diagnoseRecipe } from "@/lib/quality";
+import { extractRecipe, type Recipe } from "@/lib/recipe";
+import { enqueueJob } from "@/lib/server/jobs";
+import { OcrError, ocrUrl, ocrVideo, type OcrErrorCode, type OnScreenText } from "@/lib/server/ocr";
+import {
+  getTranscribeConfig,
+  TranscribeError,
+  transcribeFile,
+  transcribeUrl,
+  type PushStep,
+  type StepEvent,
+  type Transcript,
+  type TranscribeErrorCode,
+  type TranscribeStage,
+} from "@/lib/server/transcribe";
+import {
+  getCachedSource,
+  getCachedWhisper,
+  putCachedSource,
+  putCachedWhisper,
+} from "@/lib/server/transcriptCache";
+import { loadSkipSpans } from "@/lib/server/sponsorBlock";
+import { discardUpload, receiveUpload, type Upload } from "@/lib/server/upload";
+
+export const ExtractBodySchema = z.object({
+  url: z.string().url(),
+  pastedText: z.string().optional().default(""),
+  whisperModel: z.string().optional().default(() => getTranscribeConfig().model), // WHISPER_MODEL
+  debug: z.boolean().optional().default(false),
+  stream: z.boolean().optional().default(false),
+  async: z.boolean().optional().default(false), // enqueue a job, poll /api/jobs/:id
+  forceRefresh: z.boolean().optional().default(false), // ignore cached source text/transcripts
+  language: z.string().trim().min(2).max(16).optional(), // preferred caption language ("es", "pt-BR")
+  ocr: z.boolean().optional().default(false), // read on-screen text from video frames (Tesseract)
+});
+
+export type ExtractInput = z.infer<typeof ExtractBodySchema>;
+
+// multipart fields arrive as strings: "true", "1" and "on" count as set
+const formFlag = z
+  .preprocess((v) => (typeof v === "string" ? /^(true|1|on|yes)$/i.test(v.trim()) : v), z.boolean())
+  .optional()
+  .default(false);
+
+// The other fields of a multipart upload to /api/extract (the file is the `file` part)
+export const UploadBodySchema = z.object({
+  title: z.string().trim().max(300).optional(), // the file name (minus extension) otherwise
+  pastedText: ExtractBodySchema.shape.pastedText,
+  whisperModel: ExtractBodySchema.shape.whisperModel,
+  debug: formFlag,
+  stream: formFlag,
+  async: formFlag,
+  ocr: formFlag,
+});
+
+export type UploadInput = z.infer<typeof UploadBodySchema> & { upload: Upload };
+
+// Saves the file and validates the fields; the caller discards the upload when done
+export async function parseUpload(req: Request): Promise<UploadInput> {
+  const { upload, fields } = await receiveUpload(req);
+  try {
+    return { ...UploadBodySchema.parse(fields), upload };
+  } catch (e) {
+    await discardUpload(upload);
+    throw e;
+  }
+}
+
+// HTTP status + JSON payload, minus the step log (callers attach that)
+export type ExtractOutcome = { status: number; body: Record<string, unknown> };
+
+export const MIN_TEXT = 250; // raise this so we don't "succeed" on title-only junk
+
+export function publicSteps(steps: StepEvent[], debug: boolean) {
+  return debug ? steps : steps.map((s) => ({ t: s.t, step: s.step, msg: s.msg }));
+}
+
+// The cache only saves time: a corrupt file or a failed write is reported and
+// the extraction goes on without it
+async function bestEffort<T>(cache: "source" | "whisper", op: () => Promise<T>, push: PushStep) {
+  try {
+    return (await op()) ?? null;
+  } catch (e: any) {
+    push(`cache.${cache}.fail`, e?.message ?? "Transcript cache failed");
+    return null;
+  }
+}
+
+export async function runExtract(
+  input: ExtractInput,
+  push: PushStep,
+  signal?: AbortSignal
+): Promise<ExtractOutcome> {
+  const { url, pastedText, whisperModel, forceRefresh, language, ocr } = input;
+  const videoKey = canonicalVideoId(url);
+  // captions differ per preferred language; Whisper output doesn't (it hears what's spoken)
+  const lang = baseLanguage(language);
+  const sourceKey = videoKey && lang ? { ...videoKey, id: `${videoKey.id}@${lang}` } : videoKey;
+
+  let source: SourceText | null = null;
+  if (sourceKey && !forceRefresh) {
+    source = await bestEffort("source", () => getCachedSource(sourceKey), push);
+    push(source ? "cache.source.hit" : "cache.source.miss", "Platform text cache", sourceKey);
+  }
+
+  if (!source) {
+    push("source.fetch.start", "Fetching platform-native text", { language });
+    const fetched = await fetchSourceText(url, { language });
+    if (sourceKey) await bestEffort("source", () => putCachedSource(sourceKey, fetched), push);
+    source = fetched;
+  }
+  push("source.fetch.done", "Fetched platform-native text", {
+    platform: source.platform,
+    title: source.title,
+    textLen: source.text?.length ?? 0,
+    language: source.language,
+    translated: source.translated,
+  });
+
+  // Recipe markup on the page beats anything we could transcribe or guess
+  if (source.recipe) {
+    push("transcribe.skip", "Page has schema.org Recipe markup");
+    if (ocr) push("ocr.skip", "Page has schema.org Recipe markup");
+    push("recipe.path", "Recipe read from schema.org markup", { path: "structured" });
+    const recipe = { ...source.recipe, sourceUrl: source.recipe.sourceUrl ?? url };
+    addNutrition(recipe, push);
+    push("recipe.extract.done", "Recipe extracted", {
+      ingredients: recipe.ingredients.length,
+      steps: recipe.steps.length,
+    });
+    return {
+      status: 200,
+      body: {
+        ok: true,
+        recipe,
+        sourceUsed: { ...source, recipe: undefined },
+        language: recipe.language ?? source.language ?? null,
+        diagnostics: diagnose(recipe, push),
+        usedWhisper: false,
+        whisperError: null,
+        whisperErrorCode: null,
+        ocr: null,
+      },
+    };
+  }
+
+  // OCR reads the video Whisper's download keeps; without one it downloads its own
+  let onScreen: OcrReport | undefined;
+  const onVideo = ocr
+    ? async (video: string | null) => {
+        if (video) onScreen = await attemptOcr(() => ocrVideo(video, push, signal), push, signal);
+      }
+    : undefined;
+
+  let usedWhisper = false;
+  let whisperError: string | undefined;
+  let whisperErrorCode: TranscribeErrorCode | undefined;
+
+  if (!source.text || source.text.trim().length < MIN_TEXT) {
+    const cached =
+      videoKey && !forceRefresh
+        ? await bestEffort("whisper", () => getCachedWhisper(videoKey, whisperModel), push)
+        : null;
+    if (videoKey && !forceRefresh) {
+      push(cached ? "cache.whisper.hit" : "cache.whisper.miss", "Whisper transcript cache", {
+        ...videoKey,
+        requested: whisperModel,
+        cachedModel: cached?.model,
+      });
+    }
+
+    if (cached) {
+      applyTranscript(source, cached);
+      usedWhisper = true;
+      push("transcribe.done", `Whisper text set from cache (${cached.model})`, {
+        textLen: cached.text.length,
+      });
+    } else {
+      const attempt = await attemptWhisper(
+        whisperModel,
+        () => transcribeUrl(url, whisperModel, push, signal, {}, onVideo),
+        push,
+        signal
+      );
+      ({ error: whisperError, code: whisperErrorCode } = attempt);
+      // no point fetching the same video again
+      if (ocr && attempt.stage === "download") {
+        onScreen = ocrFailure(`Couldn't download the video: ${whisperError}`, "download_failed", push);
+      }
+      if (attempt.transcript) {
+        const tr = attempt.transcript;
+        applyTranscript(source, tr);
+        usedWhisper = true;
+        if (videoKey) {
+          const entry = { model: whisperModel, language: tr.language, text: tr.text, segments: tr.segments };
+          await bestEffort("whisper", () => putCachedWhisper(videoKey, entry), push);
+        }
+      }
+    }
+  } else {
+    push("transcribe.skip", "Platform text was sufficient");
+  }
+
+  if (ocr && !onScreen) onScreen = await attemptOcr(() => ocrUrl(url, push, signal), push, signal);
+
+  return finishExtract(
+    source,
+    { pastedText, sourceUrl: url, usedWhisper, whisperError, whisperErrorCode, onScreen },
+    push,
+    signal
+  );
+}
+
+// An uploaded file has no platform text: Whisper (plus any pasted text) is all there is
+export async function runExtractUpload(
+  input: UploadInput,
+  push: PushStep,
+  signal?: AbortSignal
+): Promise<ExtractOutcome> {
+  const { upload, pastedText, whisperModel, title, ocr } = input;
+  const source: SourceText = {
+    platform: "upload",
+    title: title || path.parse(upload.name).name || undefined,
+  };
+  push("source.upload", "Received uploaded file", { name: upload.name, size: upload.size });
+
+  const attempt = await attemptWhisper(
+    whisperModel,
+    () => transcribeFile(upload.path, whisperModel, push, signal),
+    push,
+    signal
+  );
+  if (attempt.transcript) applyTranscript(source, attempt.transcript);
+  const onScreen = ocr
+    ? await attemptOcr(() => ocrVideo(upload.path, push, signal), push, signal)
+    : undefined;
+
+  return finishExtract(
+    source,
+    {
+      pastedText,
+      usedWhisper: Boolean(attempt.transcript),
+      whisperError: attempt.error,
+      whisperErrorCode: attempt.code,
+      onScreen,
+    },
+    push,
+    signal
+  );
+}
+
+type WhisperAttempt = {
+  transcript?: Transcript;
+  error?: string;
+  code?: TranscribeErrorCode;
+  stage?: TranscribeStage;
+};
+
+// Failures don't throw (pasted text may still be enough); they come back as
+// the whisperError/whisperErrorCode the response reports. Cancellation does throw.
+async function attemptWhisper(
+  model: string,
+  transcribe: () => Promise<Transcript>,
+  push: PushStep,
+  signal?: AbortSignal
+): Promise<WhisperAttempt> {
+  try {
+    push("transcribe.start", `Running whisper (${model})`);
+    const tr = await transcribe();
+    if (tr.text?.trim()) {
+      push("transcribe.done", "Whisper text set", {
+        textLen: tr.text.length,
+        language: tr.language,
+      });
+      return { transcript: tr };
+    }
+    const error = "Transcribe returned empty text.";
+    push("transcribe.empty", error);
+    return { error };
+  } catch (e: any) {
+    if (signal?.aborted) throw e;
+    const error = e?.message ?? "Transcribe failed.";
+    push(
+      "transcribe.exception",
+      error,
+      e instanceof TranscribeError ? { code: e.code, stage: e.stage } : undefined
+    );
+    return e instanceof TranscribeError ? { error, code: e.code, stage: e.stage } : { error };
+  }
+}
+
+// What the response reports under `ocr`; failures leave `lines` empty
+export type OcrReport = OnScreenText & { error?: string; code?: OcrErrorCode };
+
+// Like attemptWhisper: OCR is extra text, so failing it never fails the extraction
+async function attemptOcr(
+  read: () => Promise<OnScreenText>,
+  push: PushStep,
+  signal?: AbortSignal
+): Promise<OcrReport> {
+  try {
+    push("ocr.start", "Reading on-screen text");
+    const found = await read();
+    push("ocr.done", `Read ${found.lines.length} on-screen lines`, {
+      frames: found.frames,
+      lines: found.lines.length,
+    });
+    return found;
+  } catch (e: any) {
+    if (signal?.aborted) throw e;
+    return ocrFailure(e?.message ?? "OCR failed.", e instanceof OcrError ? e.code : undefined, push);
+  }
+}
+
+function ocrFailure(error: string, code: OcrErrorCode | undefined, push: PushStep): OcrReport {
+  push("ocr.exception", error, code ? { code } : undefined);
+  return { frames: 0, lines: [], error, code };
+}
+
+function applyTranscript(source: SourceText, tr: Pick<SourceText, "language" | "segments"> & { text: string }) {
+  source.text = tr.text;
+  source.segments = tr.segments;
+  source.language = tr.language;
+  source.translated = undefined;
+}
+
+// Sponsor reads, intros/outros and calls to action come out of the source and
+// pasted text before extraction; `sourceUsed` keeps the original
+async function cleanSources(
+  source: SourceText,
+  pastedText: string | undefined,
+  sourceUrl: string | undefined,
+  push: PushStep
+): Promise<{ source: CleanResult; pasted?: CleanResult }> {
+  let skip: Awaited<ReturnType<typeof loadSkipSpans>> = null;
+  const video = sourceUrl ? canonicalVideoId(sourceUrl) : null;
+  if (video?.platform === "youtube" && source.segments?.length) {
+    try {
+      skip = await loadSkipSpans(video.id);
+      if (skip) push("clean.sponsorblock", `${skip.length} SponsorBlock spans for ${video.id}`, { spans: skip.length });
+    } catch (e: any) {
+      push("clean.sponsorblock.fail", e?.message ?? "Couldn't read SPONSORBLOCK_FILE");
+    }
+  }
+
+  const cleaned = {
+    source: cleanTranscript({ text: source.text ?? "", segments: source.segments }, skip ?? []),
+    pasted: pastedText?.trim() ? cleanTranscript({ text: pastedText.trim() }) : undefined,
+  };
+  const removed: RemovedSpan[] = [...cleaned.source.removed, ...(cleaned.pasted?.removed ?? [])];
+  const removedChars = cleaned.source.removedChars + (cleaned.pasted?.removedChars ?? 0);
+  push("clean.done", `Removed ${removedChars} characters of sponsor/intro/outro text`, {
+    removedChars,
+    removed: removed.slice(0, 20),
+  });
+  return cleaned;
+}
+
+// Cross-check ingredients against steps (linking each step to what it uses), then grade
+function diagnose(recipe: Recipe, push: PushStep) {
+  const consistency = checkConsistency(recipe);
+  push("recipe.consistency", "Checked ingredients against steps", {
+    missing: consistency.missing.map((m) => m.name),
+    unused: consistency.unused.map((u) => u.item),
+  });
+  return diagnoseRecipe(recipe, consistency);
+}
+
+// Per-serving estimate from the bundled nutrient table, with the lines it left out
+function addNutrition(recipe: Recipe, push: PushStep) {
+  recipe.nutrition = estimateNutrition(recipe);
+  push("recipe.nutrition", "Estimated nutrition", {
+    counted: recipe.nutrition.counted,
+    lines: recipe.nutrition.lines.length,
+    caloriesPerServing: recipe.nutrition.perServing.calories,
+  });
+}
+
+type FinishContext = {
+  pastedText?: string;
+  sourceUrl?: string;
+  usedWhisper: boolean;
+  whisperError?: string;
+  whisperErrorCode?: TranscribeErrorCode;
+  onScreen?: OcrReport;
+};
+
+async function finishExtract(
+  source: SourceText,
+  { pastedText, sourceUrl, usedWhisper, whisperError, whisperErrorCode, onScreen }: FinishContext,
+  push: PushStep,
+  signal?: AbortSignal
+): Promise<ExtractOutcome> {
+  signal?.throwIfAborted();
+  const cleaned = await cleanSources(source, pastedText, sourceUrl, push);
+  push("combine.start", "Combining text sources");
+  const combinedText = [
+    source.title ? `TITLE: ${source.title}` : "",
+    source.author ? `AUTHOR: ${source.author}` : "",
+    cleaned.source.text.trim() ? `SOURCE TEXT:\n${cleaned.source.text}` : "",
+    onScreen?.lines.length ? `ON-SCREEN TEXT:\n${onScreen.lines.join("\n")}` : "",
+    cleaned.pasted?.text ? `PASTED TEXT:\n${cleaned.pasted.text}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  push("combine.done", "Combined text ready", { combinedLen: combinedText.length });
+
+  // If we still don't have enough text, ERROR OUT (don’t pretend success)
+  if (combinedText.trim().length < MIN_TEXT) {
+    return {
+      status: 502,
+      body: {
+        ok: false,
+        error:
+          source.platform === "upload"
+            ? "Couldn’t get enough transcript text from the file (Whisper failed or heard too little). Paste the recipe text along with it."
+            : "Couldn’t get enough transcript text (YouTube transcript empty + Whisper failed). Try a different video, or paste captions.",
+        step: "combine.not_enough_text",
+        usedWhisper,
+        whisperError,
+        whisperErrorCode,
+        ocr: onScreen ?? null,
+        sourceUsed: source,
+      },
+    };
+  }
+
+  push("recipe.extract.start", "Extracting recipe");
+  const recipe = await extractRecipe(combinedText, {
+    sourceUrl,
+    sourceTitle: source.title,
+    segments: cleaned.source.segments,
+    language: source.language,
+    push,
+  });
+  addNutrition(recipe, push);
+  const diagnostics = diagnose(recipe, push);
+  push("recipe.extract.done", "Recipe extracted", {
+    ingredients: recipe.ingredients?.length ?? 0,
+    steps: recipe.steps?.length ?? 0,
+    grade: diagnostics.grade,
+  });
+
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      recipe,
+      sourceUsed: source,
+      language: recipe.language ?? null,
+      diagnostics,
+      usedWhisper,
+      whisperError: whisperError ?? null,
+      whisperErrorCode: whisperErrorCode ?? null,
+      ocr: onScreen ?? null,
+    },
+  };
+}
+
+// Background variant: the job result is the success payload; failures become the job error
+export function enqueueExtract(input: ExtractInput) {
+  return enqueueJob("extract", async (push, signal) => {
+    const { body } = await runExtract(input, push, signal);
+    if (!body.ok) throw new Error(String(body.error ?? "Extraction failed"));
+    return body;
+  });
+}
+
+// The job owns the uploaded file and removes it when done (or cancelled before it starts)
+export function enqueueExtractUpload(input: UploadInput) {
+  return enqueueJob(
+    "extract",
+    async (push, signal) => {
+      const { body } = await runExtractUpload(input, push, signal);
+      if (!body.ok) throw new Error(String(body.error ?? "Extraction failed"));
+      return body;
+    },
+    () => discardUpload(input.upload)
+  );
+}
@@ -0,0 +1,163 @@
+// src/lib/server/jobs.ts
+// In-process background jobs, so long yt-dlp/Whisper runs don't have to fit
+// inside one HTTP request. Jobs live in memory (single instance on Render),
+// run at most JOB_CONCURRENCY at a time and are forgotten JOB_TTL_MINUTES
+// after they finish.
+import { randomUUID } from "node:crypto";
+import { TranscribeError, type PushStep, type StepEvent } from "@/lib/server/transcribe";
+
+export type JobKind = "extract" | "transcribe";
+export type JobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export type Job = {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  steps: StepEvent[];
+  result?: unknown;
+  error?: string;
+  errorCode?: string; // TranscribeError code, for transcribe jobs
+};
+
+// Resolve with the job result; throw to fail the job. `signal` aborts on cancel.
+export type JobRunner = (push: PushStep, signal: AbortSignal) => Promise<unknown>;
+
+// Runs once the job no longer needs its inputs: after it ran, or on cancel while queued
+export type JobCleanup = () => unknown;
+
+type Entry = { job: Job; run: JobRunner; controller: AbortController; cleanup?: JobCleanup };
+
+type JobState = { entries: Map<string, Entry>; queue: string[]; running: number };
+
+// Keep state on globalThis so dev-mode module reloads don't orphan running jobs
+const g = globalThis as typeof globalThis & { __recipeRipperJobs?: JobState };
+const state: JobState = (g.__recipeRipperJobs ??= { entries: new Map(), queue: [], running: 0 });
+
+function concurrency() {
+  const n = Number(process.env.JOB_CONCURRENCY || "1");
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 1;
+}
+
+function ttlMs() {
+  const min = Number(process.env.JOB_TTL_MINUTES || "60");
+  return (Number.isFinite(min) && min > 0 ? min : 60) * 60_000;
+}
+
+function prune() {
+  const cutoff = Date.now() - ttlMs();
+  for (const [id, { job }] of state.entries) {
+    if (job.finishedAt && job.finishedAt < cutoff) state.entries.delete(id);
+  }
+}
+
+function finish(entry: Entry, status: JobStatus, patch: Partial<Job> = {}) {
+  Object.assign(entry.job, patch, { status, finishedAt: Date.now() });
+}
+
+function pump() {
+  while (state.running < concurrency() && state.queue.length) {
+    const id = state.queue.shift()!;
+    const entry = state.entries.get(id);
+    if (!entry || entry.job.status !== "queued") continue;
+
+    state.running++;
+    const { job, controller } = entry;
+    job.status = "running";
+    job.startedAt = Date.now();
+
+    const push: PushStep = (step, msg, data) => {
+      job.steps.push({ t: Date.now(), step, msg, data });
+    };
+
+    entry
+      .run(push, controller.signal)
+      .then((result) => {
+        if (job.status === "running") finish(entry, "done", { result });
+      })
+      .catch((e: any) => {
+        if (job.status === "running") {
+          finish(entry, "failed", {
+            error: e?.message ?? "Job failed",
+            errorCode: e instanceof TranscribeError ? e.code : undefined,
+          });
+        }
+      })
+      .finally(() => {
+        state.running--;
+        void entry.cleanup?.();
+        pump();
+      });
+  }
+}
+
+export function enqueueJob(kind: JobKind, run: JobRunner, cleanup?: JobCleanup): Job {
+  prune();
+  const job: Job = {
+    id: randomUUID(),
+    kind,
+    status: "queued",
+    createdAt: Date.now(),
+    steps: [{ t: Date.now(), step: "job.queued", msg: `Queued ${kind} job` }],
+  };
+  state.entries.set(job.id, { job, run, controller: new AbortController(), cleanup });
+  state.queue.push(job.id);
+  pump();
+  return job;
+}
+
+// Runs `run` as a queued job and resolves with what it returns, for callers that
+// wait on the work themselves (synchronous requests, batch items), so
+// JOB_CONCURRENCY covers them too.
+// Aborting `signal` cancels the job.
+export function runQueued<T>(
+  kind: JobKind,
+  run: (push: PushStep, signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const job = enqueueJob(
+      kind,
+      // the caller keeps the result; the job doesn't hold on to it
+      (push, jobSignal) =>
+        run(push, jobSignal).then(resolve, (e) => {
+          reject(e);
+          throw e; // fails the job as well
+        }),
+      // a job cancelled before it ran never settles otherwise
+      () => reject(new Error("Job cancelled"))
+    );
+    signal?.addEventListener("abort", () => cancelJob(job.id), { once: true });
+  });
+}
+
+export function getJob(id: string): Job | null {
+  prune();
+  return state.entries.get(id)?.job ?? null;
+}
+
+// Marks the job cancelled and aborts its signal, which kills spawned yt-dlp/python
+export function cancelJob(id: string): Job | null {
+  const entry = state.entries.get(id);
+  if (!entry) return null;
+
+  const { job } = entry;
+  if (job.status === "queued" || job.status === "running") {
+    const neverRan = job.status === "queued";
+    // leave the queue now, so the jobs behind it move up
+    if (neverRan) state.queue = state.queue.filter((q) => q !== id);
+    job.steps.push({ t: Date.now(), step: "job.cancelled", msg: "Cancelled by request" });
+    finish(entry, "cancelled");
+    entry.controller.abort();
+    if (neverRan) void entry.cleanup?.();
+  }
+  return job;
+}
+
+export function queuePosition(id: string): number | null {
+  const idx = state.queue.indexOf(id);
+  return idx === -1 ? null : idx;
+}
@@ -0,0 +1,25 @@
+// src/lib/server/jsonFile.ts
+// Tiny helpers for the JSON files we keep under DATA_DIR (library, caches, batches).
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export function dataDir() {
+  return process.env.DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+export async function readJsonFile<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return fallback;
+    throw new Error(`Failed to read ${file}: ${e?.message ?? e}`);
+  }
+}
+
+// Write to a temp file then rename, so a crash never leaves half a JSON file behind
+export async function writeJsonFile(file: string, data: unknown) {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+  await rename(tmp, file);
+}
@@ -0,0 +1,135 @@
+// src/lib/server/library.ts
+// Saved recipes, kept in one JSON file (DATA_DIR/recipes.json). Small enough
+// to hold in memory; every mutation rewrites the file.
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+import { z } from "zod";
+import { RecipeSchema, type Recipe } from "@/lib/recipe";
+import { dataDir, readJsonFile, writeJsonFile } from "@/lib/server/jsonFile";
+
+export const SourceMetaSchema = z.object({
+  platform: z.string(),
+  title: z.string().optional(),
+  author: z.string().optional(),
+});
+
+// Looser than what we accept from an LLM: empty lists are fine, extra fields are kept
+export const StoredRecipeSchema = RecipeSchema.extend({
+  ingredients: z.array(z.string()),
+  steps: z.array(z.string()),
+  sourceUrl: z.string().optional(),
+}).loose();
+
+export type SourceMeta = z.infer<typeof SourceMetaSchema>;
+
+export type SavedRecipe = {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  recipe: Recipe;
+  sourceUsed?: SourceMeta;
+};
+
+type LibraryFile = { version: 1; recipes: SavedRecipe[] };
+
+function libraryPath() {
+  return path.join(dataDir(), "recipes.json");
+}
+
+let cache: SavedRecipe[] | null = null;
+let lock: Promise<unknown> = Promise.resolve();
+
+async function load(): Promise<SavedRecipe[]> {
+  if (!cache) {
+    const file = await readJsonFile<LibraryFile>(libraryPath(), { version: 1, recipes: [] });
+    cache = Array.isArray(file.recipes) ? file.recipes : [];
+  }
+  return cache;
+}
+
+// Serialize read-modify-write cycles so concurrent requests don't drop updates.
+// `fn` works on a copy that only replaces the cache once it's on disk.
+function mutate<T>(fn: (recipes: SavedRecipe[]) => T): Promise<T> {
+  const next = lock.then(async () => {
+    const recipes = (await load()).map((r) => ({ ...r }));
+    const out = fn(recipes);
+    await writeJsonFile(libraryPath(), { version: 1, recipes } satisfies LibraryFile);
+    cache = recipes;
+    return out;
+  });
+  lock = next.catch(() => {});
+  return next;
+}
+
+function searchText(r: SavedRecipe) {
+  return [r.recipe.title, ...(r.recipe.ingredients ?? [])].join("\n").toLowerCase();
+}
+
+export type ListOptions = { q?: string; page?: number; pageSize?: number };
+
+export async function listRecipes({ q, page = 1, pageSize = 20 }: ListOptions = {}) {
+  const recipes = await load();
+  const terms = (q ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+
+  let hits = [...recipes].sort((a, b) => b.updatedAt - a.updatedAt);
+  if (terms.length) {
+    // every term must appear somewhere; title hits rank first
+    hits = hits
+      .filter((r) => {
+        const text = searchText(r);
+        return terms.every((t) => text.includes(t));
+      })
+      .map((r) => ({
+        r,
+        score: terms.filter((t) => r.recipe.title.toLowerCase().includes(t)).length,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .map((x) => x.r);
+  }
+
+  const size = Math.min(Math.max(1, Math.floor(pageSize)), 100);
+  const p = Math.max(1, Math.floor(page));
+  return {
+    items: hits.slice((p - 1) * size, p * size),
+    total: hits.length,
+    page: p,
+    pageSize: size,
+  };
+}
+
+export async function getRecipe(id: string): Promise<SavedRecipe | null> {
+  const recipes = await load();
+  return recipes.find((r) => r.id === id) ?? null;
+}
+
+export function createRecipe(recipe: Recipe, sourceUsed?: SourceMeta): Promise<SavedRecipe> {
+  return mutate((recipes) => {
+    const now = Date.now();
+    const saved: SavedRecipe = { id: randomUUID(), createdAt: now, updatedAt: now, recipe, sourceUsed };
+    recipes.push(saved);
+    return saved;
+  });
+}
+
+export function updateRecipe(
+  id: string,
+  patch: { recipe?: Recipe; sourceUsed?: SourceMeta }
+): Promise<SavedRecipe | null> {
+  return mutate((recipes) => {
+    const saved = recipes.find((r) => r.id === id);
+    if (!saved) return null;
+    if (patch.recipe) saved.recipe = patch.recipe;
+    if (patch.sourceUsed) saved.sourceUsed = patch.sourceUsed;
+    saved.updatedAt = Date.now();
+    return saved;
+  });
+}
+
+export function deleteRecipe(id: string): Promise<boolean> {
+  return mutate((recipes) => {
+    const idx = recipes.findIndex((r) => r.id === id);
+    if (idx === -1) return false;
+    recipes.splice(idx, 1);
+    return true;
+  });
+}
@@ -0,0 +1,221 @@
+// src/lib/server/ocr.ts
+// On-screen text: ffmpeg samples frames from a video, Tesseract reads them,
+// and overlay lines repeated across frames (with OCR noise) collapse into one.
+// Failures are OcrErrors; the pipeline reports them and carries on without.
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { lastLine, ProcessError, runProcess } from "@/lib/server/process";
+import {
+  downloadVideo,
+  envNumber,
+  ffmpegCommand,
+  TranscribeError,
+  type PushStep,
+  type TranscribeConfig,
+} from "@/lib/server/transcribe";
+
+export type OcrConfig = {
+  tesseractBin: string;
+  ffmpegBin?: string; // same FFMPEG_BIN as transcription
+  lang: string; // Tesseract language(s), "eng" or "eng+spa"
+  frameSeconds: number; // one frame every N seconds
+  maxFrames: number;
+  timeoutMs: number; // for each of the ffmpeg and Tesseract runs
+};
+
+export function getOcrConfig(env: NodeJS.ProcessEnv = process.env): OcrConfig {
+  return {
+    tesseractBin: env.TESSERACT_BIN || "tesseract",
+    ffmpegBin: env.FFMPEG_BIN || undefined,
+    lang: env.OCR_LANG || "eng",
+    frameSeconds: envNumber(env.OCR_FRAME_SECONDS, 2, 0.1),
+    maxFrames: Math.floor(envNumber(env.OCR_MAX_FRAMES, 60, 1)),
+    timeoutMs: envNumber(env.OCR_TIMEOUT_MS, 5 * 60_000, 1),
+  };
+}
+
+export type OcrErrorCode =
+  | "tesseract_missing" // TESSERACT_BIN not found
+  | "ffmpeg_missing"
+  | "no_video" // audio-only media, nothing to read
+  | "download_failed"
+  | "timeout"
+  | "ocr_failed"; // bad OCR_LANG, unreadable frames, ...
+
+export class OcrError extends Error {
+  constructor(
+    message: string,
+    public code: OcrErrorCode
+  ) {
+    super(message);
+    this.name = "OcrError";
+  }
+}
+
+export type OnScreenText = { frames: number; lines: string[] };
+
+// ---------- de-duplication ----------
+
+function lineKey(line: string) {
+  return line
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Stray glyphs from edges and textures ("| — ,", "~ .") aren't text
+function looksLikeText(line: string) {
+  const chars = line.replace(/\s+/g, "");
+  const letters = chars.match(/\p{L}/gu)?.length ?? 0;
+  const alnum = chars.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+  return letters >= 3 && alnum / chars.length >= 0.6 && /\p{L}{2}/u.test(line);
+}
+
+function bigrams(s: string) {
+  const out = new Map<string, number>();
+  for (let i = 0; i < s.length - 1; i++) out.set(s.slice(i, i + 2), (out.get(s.slice(i, i + 2)) ?? 0) + 1);
+  return out;
+}
+
+// Dice coefficient on character bigrams: 1 for identical, ~0.8 for one misread letter in a short line
+function similarity(a: string, b: string) {
+  if (a === b) return 1;
+  const x = bigrams(a);
+  const y = bigrams(b);
+  let shared = 0;
+  for (const [k, n] of x) shared += Math.min(n, y.get(k) ?? 0);
+  return (2 * shared) / (Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0) || 1);
+}
+
+// Same overlay: near-identical, or one is the other partly typed out
+function sameLine(a: string, b: string) {
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  return similarity(a, b) >= 0.8 || (long.startsWith(short) && short.length >= long.length / 2);
+}
+
+// Lines of all frames in order of first appearance; each one's most-read spelling wins
+export function dedupeOverlayLines(frames: string[]): string[] {
+  const groups: { key: string; variants: Map<string, number> }[] = [];
+
+  for (const frame of frames) {
+    for (const raw of frame.split("\n")) {
+      const line = raw.replace(/\s+/g, " ").trim();
+      if (!looksLikeText(line)) continue;
+      const key = lineKey(line);
+      let group = groups.find((g) => sameLine(g.key, key));
+      if (!group) groups.push((group = { key, variants: new Map() }));
+      group.variants.set(line, (group.variants.get(line) ?? 0) + 1);
+    }
+  }
+
+  return groups.map(({ variants }) => {
+    const [best] = [...variants].sort((a, b) => b[1] - a[1] || b[0].length - a[0].length);
+    return best[0];
+  });
+}
+
+// ---------- processes ----------
+
+function frameError(e: ProcessError): OcrError {
+  if (e.reason === "spawn") return new OcrError(`ffmpeg not found (${e.cmd}); set FFMPEG_BIN`, "ffmpeg_missing");
+  if (e.reason === "timeout") return new OcrError(e.message, "timeout");
+  if (/does not contain any stream|Output file .* does not contain|matches no streams/i.test(e.stderr)) {
+    return new OcrError("The media has no video stream", "no_video");
+  }
+  return new OcrError(`ffmpeg couldn't sample frames: ${lastLine(e.stderr)}`, "ocr_failed");
+}
+
+function tesseractError(e: ProcessError, lang: string): OcrError {
+  if (e.reason === "spawn") {
+    return new OcrError(`Tesseract not found (${e.cmd}); set TESSERACT_BIN`, "tesseract_missing");
+  }
+  if (e.reason === "timeout") return new OcrError(e.message, "timeout");
+  if (/Failed loading language|Error opening data file/i.test(e.stderr)) {
+    return new OcrError(`Tesseract has no "${lang}" language data; install it or set OCR_LANG`, "ocr_failed");
+  }
+  return new OcrError(`Tesseract failed: ${lastLine(e.stderr)}`, "ocr_failed");
+}
+
+// ---------- service ----------
+
+export async function ocrVideo(
+  videoPath: string,
+  push?: PushStep,
+  signal?: AbortSignal,
+  overrides: Partial<OcrConfig> = {}
+): Promise<OnScreenText> {
+  const cfg = { ...getOcrConfig(), ...overrides };
+  const tmp = await mkdtemp(path.join(tmpdir(), "recipe-ripper-ocr-"));
+
+  try {
+    push?.("ocr.frames.start", `Sampling a frame every ${cfg.frameSeconds}s`);
+    try {
+      await runProcess(
+        ffmpegCommand(cfg.ffmpegBin),
+        [
+          "-hide_banner",
+          "-nostdin",
+          "-i",
+          videoPath,
+          "-map",
+          "0:v:0",
+          "-vf",
+          `fps=1/${cfg.frameSeconds}`,
+          "-frames:v",
+          String(cfg.maxFrames),
+          path.join(tmp, "frame-%03d.png"),
+        ],
+        { push, signal, timeoutMs: cfg.timeoutMs }
+      );
+    } catch (e) {
+      throw e instanceof ProcessError ? frameError(e) : e;
+    }
+
+    const frames = (await readdir(tmp)).filter((n) => n.endsWith(".png")).sort();
+    push?.("ocr.frames.done", `Sampled ${frames.length} frames`, { frames: frames.length });
+    if (!frames.length) throw new OcrError("ffmpeg produced no frames", "no_video");
+
+    // one Tesseract run over a list file loads the model once; pages come back split by \f
+    const list = path.join(tmp, "frames.txt");
+    await writeFile(list, frames.map((n) => path.join(tmp, n)).join("\n") + "\n");
+    let stdout: string;
+    try {
+      ({ stdout } = await runProcess(cfg.tesseractBin, [list, "stdout", "-l", cfg.lang, "--psm", "11"], {
+        push,
+        signal,
+        timeoutMs: cfg.timeoutMs,
+      }));
+    } catch (e) {
+      throw e instanceof ProcessError ? tesseractError(e, cfg.lang) : e;
+    }
+
+    const lines = dedupeOverlayLines(stdout.split("\f"));
+    return { frames: frames.length, lines };
+  } finally {
+    await rm(tmp, { recursive: true, force: true }).catch(() => {});
+  }
+}
+
+// When nothing else downloaded the video (captions were enough, or Whisper came from cache)
+export async function ocrUrl(
+  url: string,
+  push?: PushStep,
+  signal?: AbortSignal,
+  overrides: { transcribe?: Partial<TranscribeConfig>; ocr?: Partial<OcrConfig> } = {}
+): Promise<OnScreenText> {
+  const tmp = await mkdtemp(path.join(tmpdir(), "recipe-ripper-"));
+  try {
+    let video: string;
+    try {
+      video = await downloadVideo(url, tmp, push, signal, overrides.transcribe);
+    } catch (e) {
+      if (!(e instanceof TranscribeError)) throw e;
+      throw new OcrError(`Couldn't download the video: ${e.message}`, e.code === "timeout" ? "timeout" : "download_failed");
+    }
+    return await ocrVideo(video, push, signal, overrides.ocr);
+  } finally {
+    await rm(tmp, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,53 @@
+// src/lib/server/paprika.ts
+// .paprikarecipes = ZIP of "<name>.paprikarecipe" entries, each gzipped JSON.
+import { createHash, randomUUID } from "node:crypto";
+import { gzipSync } from "node:zlib";
+import { slugify, stepTexts } from "@/lib/export";
+import type { Recipe } from "@/lib/recipe";
+import { zip } from "@/lib/server/zip";
+
+function minutes(min?: number) {
+  return min ? `${min} min` : "";
+}
+
+function paprikaRecipe(r: Recipe) {
+  const body = {
+    uid: randomUUID().toUpperCase(),
+    name: r.title,
+    ingredients: r.ingredients.join("\n"),
+    directions: stepTexts(r).join("\n\n"),
+    notes: (r.notes ?? []).join("\n"),
+    servings: r.servings ?? "",
+    prep_time: minutes(r.times?.prepMin),
+    cook_time: minutes(r.times?.cookMin),
+    total_time: minutes(r.times?.totalMin),
+    source: r.author ?? "",
+    source_url: r.sourceUrl ?? "",
+    description: "",
+    nutritional_info: "",
+    difficulty: "",
+    rating: 0,
+    categories: [] as string[],
+    image_url: null,
+    photo_data: null,
+    photos: [],
+    created: new Date().toISOString().replace("T", " ").slice(0, 19),
+  };
+  const hash = createHash("sha256").update(JSON.stringify(body)).digest("hex");
+  return { ...body, hash };
+}
+
+export function toPaprikaArchive(recipes: Recipe[]): Buffer {
+  const used = new Set<string>();
+  return zip(
+    recipes.map((r) => {
+      let name = slugify(r.title);
+      for (let i = 2; used.has(name); i++) name = `${slugify(r.title)}-${i}`;
+      used.add(name);
+      return {
+        name: `${name}.paprikarecipe`,
+        data: gzipSync(JSON.stringify(paprikaRecipe(r))),
+      };
+    })
+  );
+}
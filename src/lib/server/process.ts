@@ -0,0 +1,87 @@
+// src/lib/server/process.ts
+// Child processes with step logging, cancellation and timeouts. Failures are
+// ProcessErrors; callers (transcribe.ts) turn them into their own error codes.
+import { spawn } from "node:child_process";
+import type { PushStep } from "@/lib/server/transcribe";
+
+// How a child process failed
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    public cmd: string,
+    public exitCode: number | null,
+    public stdout: string,
+    public stderr: string,
+    public reason: "exit" | "spawn" | "timeout" | "badjson",
+    public errno?: string
+  ) {
+    super(message);
+    this.name = "ProcessError";
+  }
+}
+
+export type RunOptions = {
+  push?: PushStep;
+  signal?: AbortSignal;
+  timeoutMs?: number; // SIGTERM, then SIGKILL if it lingers
+  step?: string; // step prefix, "exec" by default; callers push their own .done
+};
+
+export const KILL_GRACE_MS = 5000;
+
+export function runProcess(cmd: string, args: string[], opts: RunOptions = {}) {
+  const { push, signal, timeoutMs } = opts;
+  const step = opts.step ?? "exec";
+  return new Promise<{ stdout: string; stderr: string }>((resolve, reject) => {
+    push?.(`${step}.start`, `${cmd} ${args.join(" ")}`);
+
+    // `signal` kills the child (SIGTERM) when a job is cancelled
+    const p = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"], signal });
+
+    let stdout = "";
+    let stderr = "";
+    p.stdout.on("data", (d) => (stdout += d.toString()));
+    p.stderr.on("data", (d) => (stderr += d.toString()));
+
+    let timedOut = false;
+    let killTimer: NodeJS.Timeout | undefined;
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          p.kill("SIGTERM");
+          killTimer = setTimeout(() => p.kill("SIGKILL"), KILL_GRACE_MS);
+        }, timeoutMs)
+      : undefined;
+    const clear = () => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+    };
+
+    p.on("error", (e: NodeJS.ErrnoException) => {
+      clear();
+      if (e.name === "AbortError") return reject(e);
+      const msg = `${cmd} could not be started (${e.code ?? e.message})`;
+      push?.(`${step}.fail`, msg);
+      reject(new ProcessError(msg, cmd, null, stdout, stderr, "spawn", e.code));
+    });
+    p.on("close", (code) => {
+      clear();
+      if (timedOut) {
+        const msg = `${cmd} timed out after ${Math.round(timeoutMs! / 1000)}s`;
+        push?.(`${step}.fail`, msg);
+        return reject(new ProcessError(msg, cmd, code, stdout, stderr, "timeout"));
+      }
+      if (code !== 0) {
+        const msg = `${cmd} failed (${code}). ${stderr.slice(0, 800)}`;
+        push?.(`${step}.fail`, msg);
+        return reject(new ProcessError(msg, cmd, code, stdout, stderr, "exit"));
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+}
+
+// The last non-empty line of a process's output, for error messages
+export function lastLine(s: string) {
+  return s.trim().split("\n").filter(Boolean).at(-1)?.slice(0, 300) ?? "";
+}
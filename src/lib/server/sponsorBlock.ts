@@ -0,0 +1,52 @@
+// src/lib/server/sponsorBlock.ts
+// Skip spans from a local SponsorBlock-format file (SPONSORBLOCK_FILE), for
+// cutting sponsor reads, intros and outros out of timed YouTube transcripts.
+// Nothing is fetched: export or mirror the segments you want and point at them.
+import { z } from "zod";
+import type { SkipSpan } from "@/lib/clean";
+import { readJsonFile } from "@/lib/server/jsonFile";
+
+const DEFAULT_CATEGORIES = ["sponsor", "selfpromo", "interaction", "intro", "outro"];
+
+// { segment: [start, end], category, actionType? } as SponsorBlock's API returns them
+const SegmentSchema = z.object({
+  segment: z.tuple([z.number(), z.number()]),
+  category: z.string(),
+  actionType: z.string().optional(),
+});
+
+// Either the /api/skipSegments/<hashPrefix> reply, [{ videoID, segments }], or { "<videoID>": segments }
+const FileSchema = z.union([
+  z.array(z.object({ videoID: z.string(), segments: z.array(SegmentSchema) })),
+  z.record(z.string(), z.array(SegmentSchema)),
+]);
+
+export function sponsorBlockCategories(env: NodeJS.ProcessEnv = process.env): string[] {
+  const list = (env.SPONSORBLOCK_CATEGORIES ?? "")
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean);
+  return list.length ? list : DEFAULT_CATEGORIES;
+}
+
+// null when no file is configured; throws when it can't be read or parsed
+export async function loadSkipSpans(
+  videoId: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<SkipSpan[] | null> {
+  const file = env.SPONSORBLOCK_FILE;
+  if (!file) return null;
+
+  const raw = await readJsonFile<unknown>(file, undefined);
+  if (raw === undefined) throw new Error(`SPONSORBLOCK_FILE not found: ${file}`);
+  const parsed = FileSchema.safeParse(raw);
+  if (!parsed.success) throw new Error(`${file} is not a SponsorBlock segments file`);
+
+  const segments = Array.isArray(parsed.data)
+    ? parsed.data.filter((v) => v.videoID === videoId).flatMap((v) => v.segments)
+    : (parsed.data[videoId] ?? []);
+  const categories = sponsorBlockCategories(env);
+  return segments
+    .filter((s) => categories.includes(s.category) && (s.actionType ?? "skip") === "skip")
+    .map((s) => ({ start: s.segment[0], end: s.segment[1], category: s.category }));
+}
@@ -0,0 +1,26 @@
+// src/lib/server/staples.ts
+// The cook's "always have" list (DATA_DIR/staples.json): salt, oil, flour...
+// Shopping lists leave these off unless a request brings its own list.
+import path from "node:path";
+import { dataDir, readJsonFile, writeJsonFile } from "@/lib/server/jsonFile";
+
+type StaplesFile = { version: 1; items: string[] };
+
+function staplesPath() {
+  return path.join(dataDir(), "staples.json");
+}
+
+export async function getStaples(): Promise<string[]> {
+  const file = await readJsonFile<StaplesFile>(staplesPath(), { version: 1, items: [] });
+  return Array.isArray(file.items) ? file.items : [];
+}
+
+// Replaces the whole list; blanks and repeats (ignoring case) are dropped
+export async function setStaples(items: string[]): Promise<string[]> {
+  const seen = new Set<string>();
+  const clean = items
+    .map((s) => s.trim())
+    .filter((s) => s && !seen.has(s.toLowerCase()) && seen.add(s.toLowerCase()));
+  await writeJsonFile(staplesPath(), { version: 1, items: clean } satisfies StaplesFile);
+  return clean;
+}
@@ -1,121 +1,415 @@
 // src/lib/server/transcribe.ts
-import { spawn } from "node:child_process";
-import { mkdtemp, rm } from "node:fs/promises";
+// Audio transcription: yt-dlp downloads the audio (or ffmpeg converts an
+// uploaded file), scripts/transcribe.py runs faster-whisper on it. Every knob is in TranscribeConfig (env defaults via
+// getTranscribeConfig); failures are TranscribeErrors with a stable `code`.
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import path from "node:path";
+import { z } from "zod";
+import type { TranscriptSegment } from "@/lib/segments";
+import { lastLine, ProcessError, runProcess } from "@/lib/server/process";
+import { transcribeInWorker } from "@/lib/server/whisperWorker";
 
 export type StepEvent = { t: number; step: string; msg?: string; data?: any };
 export type PushStep = (step: string, msg?: string, data?: any) => void;
 
-function run(cmd: string, args: string[], push?: PushStep) {
-  return new Promise<void>((resolve, reject) => {
-    push?.("exec.start", `${cmd} ${args.join(" ")}`);
-
-    const p = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
-
-    let stderr = "";
-    p.stderr.on("data", (d) => (stderr += d.toString()));
-
-    p.on("error", (e) => reject(e));
-    p.on("close", (code) => {
-      if (code === 0) {
-        push?.("exec.done", `${cmd} OK`);
-        resolve();
-      } else {
-        const msg = `${cmd} failed (${code}). ${stderr.slice(0, 800)}`;
-        push?.("exec.fail", msg);
-        reject(new Error(msg));
-      }
-    });
-  });
+export type TranscribeConfig = {
+  pythonBin: string;
+  ytdlpBin: string;
+  ffmpegBin?: string; // binary or its directory; passed to yt-dlp as --ffmpeg-location; PATH otherwise
+  scriptPath: string;
+  worker: boolean; // keep models loaded in scripts/whisper_worker.py instead of one process per job
+  model: string;
+  device: string; // "cpu", "cuda" or "auto"
+  computeType: string; // "int8", "float16", ...
+  beamSize: number;
+  vad: boolean;
+  maxAudioMinutes: number; // 0 downloads everything
+  maxFileMinutes: number; // longer files are rejected; 0 allows any length
+  downloadTimeoutMs: number;
+  convertTimeoutMs: number;
+  whisperTimeoutMs: number;
+};
+
+// A numeric env setting, or the fallback when it's unset, not a number or below min
+export function envNumber(value: string | undefined, fallback: number, min = 0) {
+  const n = Number(value || fallback);
+  return Number.isFinite(n) && n >= min ? n : fallback;
 }
 
-function runJson(cmd: string, args: string[], push?: PushStep) {
-  return new Promise<any>((resolve, reject) => {
-    push?.("execjson.start", `${cmd} ${args.join(" ")}`);
-
-    const p = spawn(cmd, args, { stdio: ["ignore", "pipe", "pipe"] });
-
-    let out = "";
-    let err = "";
-    p.stdout.on("data", (d) => (out += d.toString()));
-    p.stderr.on("data", (d) => (err += d.toString()));
-
-    p.on("error", (e) => reject(e));
-    p.on("close", (code) => {
-      if (code !== 0) {
-        const msg = `${cmd} failed (${code}). ${err.slice(0, 800)}`;
-        push?.("execjson.fail", msg);
-        return reject(new Error(msg));
-      }
-      try {
-        const json = JSON.parse(out);
-        push?.("execjson.done", `${cmd} JSON OK`, { keys: Object.keys(json || {}) });
-        resolve(json);
-      } catch {
-        const msg = `Failed to parse JSON from ${cmd}. Output: ${out.slice(0, 500)}`;
-        push?.("execjson.badjson", msg);
-        reject(new Error(msg));
-      }
-    });
-  });
+export function getTranscribeConfig(env: NodeJS.ProcessEnv = process.env): TranscribeConfig {
+  return {
+    pythonBin: env.PYTHON_BIN || path.join(process.cwd(), ".venv", "bin", "python"),
+    ytdlpBin: env.YTDLP_BIN || "yt-dlp",
+    ffmpegBin: env.FFMPEG_BIN || undefined,
+    scriptPath: path.join(process.cwd(), "scripts", "transcribe.py"),
+    worker: env.WHISPER_WORKER !== "0",
+    model: env.WHISPER_MODEL || "tiny",
+    device: env.WHISPER_DEVICE || "cpu",
+    computeType: env.WHISPER_COMPUTE_TYPE || "int8",
+    beamSize: Math.floor(envNumber(env.WHISPER_BEAM_SIZE, 5, 1)),
+    vad: env.WHISPER_VAD !== "0",
+    maxAudioMinutes: envNumber(env.MAX_AUDIO_MINUTES, 0),
+    maxFileMinutes: envNumber(env.UPLOAD_MAX_MINUTES, 30),
+    downloadTimeoutMs: envNumber(env.YTDLP_TIMEOUT_MS, 10 * 60_000, 1),
+    convertTimeoutMs: envNumber(env.FFMPEG_TIMEOUT_MS, 10 * 60_000, 1),
+    whisperTimeoutMs: envNumber(env.WHISPER_TIMEOUT_MS, 30 * 60_000, 1),
+  };
 }
 
-export async function transcribeUrl(
-  url: string,
-  model: string,
-  push?: PushStep
-): Promise<{ language?: string; text: string }> {
-  const tmp = await mkdtemp(path.join(tmpdir(), "cookclip-"));
+// ---------- errors ----------
+
+export type TranscribeErrorCode =
+  | "ytdlp_missing" // yt-dlp binary not found
+  | "ytdlp_blocked" // bot check, 403/429, sign-in wall
+  | "video_unavailable" // private, removed, region-locked
+  | "ffmpeg_missing" // yt-dlp can't extract audio without it, or FFMPEG_BIN not found
+  | "download_failed"
+  | "bad_media" // ffmpeg couldn't read an uploaded file
+  | "too_long" // uploaded file longer than maxFileMinutes
+  | "python_missing" // PYTHON_BIN not found
+  | "whisper_deps_missing" // faster-whisper not installed
+  | "model_unavailable" // model not downloaded and can't be fetched, or bad name
+  | "whisper_failed"
+  | "timeout"
+  | "bad_output";
+
+export type TranscribeStage = "download" | "convert" | "whisper";
+
+export class TranscribeError extends Error {
+  constructor(
+    message: string,
+    public code: TranscribeErrorCode,
+    public stage: TranscribeStage,
+    public stderr?: string
+  ) {
+    super(message);
+    this.name = "TranscribeError";
+  }
+}
+
+// ---------- processes ----------
+
+async function run(cmd: string, args: string[], push?: PushStep, signal?: AbortSignal, timeoutMs?: number) {
+  await runProcess(cmd, args, { push, signal, timeoutMs });
+  push?.("exec.done", `${cmd} OK`);
+}
+
+export async function runJson(
+  cmd: string,
+  args: string[],
+  push?: PushStep,
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<unknown> {
+  const { stdout, stderr } = await runProcess(cmd, args, { push, signal, timeoutMs, step: "execjson" });
+  try {
+    const json: unknown = JSON.parse(stdout);
+    push?.("execjson.done", `${cmd} JSON OK`, { keys: Object.keys(json || {}) });
+    return json;
+  } catch {
+    const msg = `Failed to parse JSON from ${cmd}. Output: ${stdout.slice(0, 500)}`;
+    push?.("execjson.badjson", msg);
+    throw new ProcessError(msg, cmd, 0, stdout, stderr, "badjson");
+  }
+}
+
+// ---------- classification ----------
+
+const YTDLP_BLOCKED =
+  /Sign in to confirm|not a bot|HTTP Error 403|HTTP Error 429|Too Many Requests|rate-limit|login required/i;
+const YTDLP_UNAVAILABLE =
+  /Video unavailable|Private video|This video is private|has been removed|not available in your country|members-only/i;
+const FFMPEG_MISSING = /ffmpeg (?:not found|is not installed)|ffprobe and ffmpeg not found|ffprobe\/avprobe and ffmpeg\/avconv not found/i;
+const MODEL_UNAVAILABLE =
+  /Unable to open file 'model\.bin'|LocalEntryNotFoundError|Invalid model size|couldn't connect to 'https:\/\/huggingface\.co'/i;
+const DEPS_MISSING = /No module named '?(faster_whisper|ctranslate2|av)'?/i;
+
+function downloadError(e: ProcessError): TranscribeError {
+  const err = e.stderr.trim();
+  if (e.reason === "spawn") {
+    return new TranscribeError(`yt-dlp not found (${e.cmd}); set YTDLP_BIN`, "ytdlp_missing", "download");
+  }
+  if (e.reason === "timeout") return new TranscribeError(e.message, "timeout", "download", err);
+  if (FFMPEG_MISSING.test(err)) {
+    return new TranscribeError("ffmpeg is missing; yt-dlp needs it to extract audio", "ffmpeg_missing", "download", err);
+  }
+  if (YTDLP_BLOCKED.test(err)) {
+    return new TranscribeError(`YouTube blocked the download. ${lastLine(err)}`, "ytdlp_blocked", "download", err);
+  }
+  if (YTDLP_UNAVAILABLE.test(err)) {
+    return new TranscribeError(`Video unavailable. ${lastLine(err)}`, "video_unavailable", "download", err);
+  }
+  return new TranscribeError(e.message, "download_failed", "download", err);
+}
+
+function convertError(e: ProcessError): TranscribeError {
+  const err = e.stderr.trim();
+  if (e.reason === "spawn") {
+    return new TranscribeError(`ffmpeg not found (${e.cmd}); set FFMPEG_BIN`, "ffmpeg_missing", "convert");
+  }
+  if (e.reason === "timeout") return new TranscribeError(e.message, "timeout", "convert", err);
+  return new TranscribeError(`ffmpeg couldn't read the file. ${lastLine(err)}`, "bad_media", "convert", err);
+}
+
+function whisperError(e: ProcessError): TranscribeError {
+  const err = e.stderr.trim();
+  if (e.reason === "spawn") {
+    return new TranscribeError(`Python not found (${e.cmd}); set PYTHON_BIN`, "python_missing", "whisper");
+  }
+  if (e.reason === "timeout") return new TranscribeError(e.message, "timeout", "whisper", err);
+  if (e.reason === "badjson") return new TranscribeError(e.message, "bad_output", "whisper", err);
+
+  // transcribe.py reports the failures it recognizes as {"error", "code"} on stdout
+  let reported: { error?: string; code?: string } | undefined;
+  try {
+    reported = JSON.parse(e.stdout);
+  } catch {}
+  if (reported?.code === "model_unavailable" || MODEL_UNAVAILABLE.test(err)) {
+    return new TranscribeError(
+      `Whisper model not available: ${reported?.error ?? lastLine(err)}`,
+      "model_unavailable",
+      "whisper",
+      err
+    );
+  }
+  if (reported?.code === "whisper_deps_missing" || DEPS_MISSING.test(err)) {
+    return new TranscribeError(
+      `faster-whisper is not installed for ${e.cmd}: ${reported?.error ?? lastLine(err)}`,
+      "whisper_deps_missing",
+      "whisper",
+      err
+    );
+  }
+  return new TranscribeError(reported?.error ?? e.message, "whisper_failed", "whisper", err);
+}
 
+// ---------- service ----------
+
+export type Transcript = { language?: string; text: string; segments: TranscriptSegment[] };
+
+// What transcribe.py prints (and the worker replies); a segment without numeric times is dropped
+const SegmentSchema = z.object({ start: z.number(), end: z.number(), text: z.string() });
+const WhisperOutputSchema = z.object({
+  text: z.string().catch(""),
+  language: z.string().optional().catch(undefined),
+  segments: z.array(z.unknown()).catch([]),
+});
+
+async function whisper(
+  wavPath: string,
+  cfg: TranscribeConfig,
+  push?: PushStep,
+  signal?: AbortSignal
+): Promise<Transcript> {
+  push?.("transcribe.whisper.start", `Running whisper (${cfg.model})`);
+
+  let result: unknown;
   try {
-    const scriptPath = path.join(process.cwd(), "scripts", "transcribe.py");
+    result = cfg.worker
+      ? await transcribeInWorker(wavPath, cfg, push, signal)
+      : await runJson(
+          cfg.pythonBin,
+          [
+            cfg.scriptPath,
+            wavPath,
+            cfg.model,
+            "--device",
+            cfg.device,
+            "--compute-type",
+            cfg.computeType,
+            "--beam-size",
+            String(cfg.beamSize),
+            ...(cfg.vad ? [] : ["--no-vad"]),
+          ],
+          push,
+          signal,
+          cfg.whisperTimeoutMs
+        );
+  } catch (e) {
+    throw e instanceof ProcessError ? whisperError(e) : e;
+  }
 
-    const pythonBin =
-      process.env.PYTHON_BIN || path.join(process.cwd(), ".venv", "bin", "python");
+  const parsed = WhisperOutputSchema.safeParse(result);
+  const { text, language } = parsed.success ? parsed.data : { text: "", language: undefined };
+  const segments: TranscriptSegment[] = (parsed.success ? parsed.data.segments : []).flatMap((s) => {
+    const segment = SegmentSchema.safeParse(s);
+    return segment.success ? [segment.data] : [];
+  });
 
-    const ytdlpBin = process.env.YTDLP_BIN || "yt-dlp";
+  push?.("transcribe.whisper.done", "Whisper done", {
+    language,
+    textLen: text.length,
+    segments: segments.length,
+  });
 
-    push?.("transcribe.dl.start", "Downloading audio with yt-dlp");
+  return { language, text, segments };
+}
 
-    // Optional: cap how much audio we download (helps long videos)
-    // Set MAX_AUDIO_MINUTES=8 in env if you want.
-    const maxMin = Number(process.env.MAX_AUDIO_MINUTES || "0");
-    const downloadSections =
-      Number.isFinite(maxMin) && maxMin > 0
-        ? ["--download-sections", `*00:00-${String(maxMin).padStart(2, "0")}:00`]
-        : [];
+// Keeps the video small enough to sample frames from (OCR) without fetching 4K
+const VIDEO_FORMAT = "b[height<=720]/bv*[height<=720]+ba/b";
+
+async function download(
+  url: string,
+  outTemplate: string,
+  extra: string[],
+  cfg: TranscribeConfig,
+  push?: PushStep,
+  signal?: AbortSignal
+) {
+  const downloadSections =
+    cfg.maxAudioMinutes > 0
+      ? ["--download-sections", `*00:00-${String(cfg.maxAudioMinutes).padStart(2, "0")}:00`]
+      : [];
 
+  try {
     await run(
-      ytdlpBin,
+      cfg.ytdlpBin,
       [
         "--no-playlist",
         "--extractor-args",
         "youtube:player_client=android",
+        ...(cfg.ffmpegBin ? ["--ffmpeg-location", cfg.ffmpegBin] : []),
         ...downloadSections,
-        "-x",
-        "--audio-format",
-        "wav",
+        ...extra,
         "-o",
-        path.join(tmp, "audio.%(ext)s"),
+        outTemplate,
         url,
       ],
-      push
+      push,
+      signal,
+      cfg.downloadTimeoutMs
     );
+  } catch (e) {
+    throw e instanceof ProcessError ? downloadError(e) : e;
+  }
+}
 
-    const wavPath = path.join(tmp, "audio.wav");
-    push?.("transcribe.whisper.start", `Running whisper (${model})`);
-
-    const result = await runJson(pythonBin, [scriptPath, wavPath, model], push);
+// yt-dlp picks the extension; anything under `base` that isn't the extracted audio
+async function findVideo(dir: string, base: string) {
+  const names = await readdir(dir);
+  const video = names.find((n) => n.startsWith(`${base}.`) && !/\.(wav|part|ytdl)$/.test(n));
+  return video ? path.join(dir, video) : null;
+}
 
-    const text = typeof result?.text === "string" ? result.text : "";
-    const language = typeof result?.language === "string" ? result.language : undefined;
+// `onVideo`, when given, also keeps the downloaded video and gets its path
+// (null if yt-dlp only found audio) before Whisper runs and the temp dir goes.
+export async function transcribeUrl(
+  url: string,
+  model?: string,
+  push?: PushStep,
+  signal?: AbortSignal,
+  overrides: Partial<TranscribeConfig> = {},
+  onVideo?: (videoPath: string | null) => Promise<void>
+): Promise<Transcript> {
+  const cfg = { ...getTranscribeConfig(), ...overrides };
+  if (model) cfg.model = model;
+  const tmp = await mkdtemp(path.join(tmpdir(), "recipe-ripper-"));
 
-    push?.("transcribe.whisper.done", "Whisper done", { language, textLen: text.length });
+  try {
+    push?.("transcribe.dl.start", onVideo ? "Downloading video with yt-dlp" : "Downloading audio with yt-dlp");
+    await download(
+      url,
+      path.join(tmp, "audio.%(ext)s"),
+      [...(onVideo ? ["-f", VIDEO_FORMAT, "-k"] : []), "-x", "--audio-format", "wav"],
+      cfg,
+      push,
+      signal
+    );
+    if (onVideo) await onVideo(await findVideo(tmp, "audio"));
 
-    return { language, text };
+    return await whisper(path.join(tmp, "audio.wav"), cfg, push, signal);
   } finally {
     await rm(tmp, { recursive: true, force: true }).catch(() => {});
   }
 }
 
+// Just the video, for when there's no audio to transcribe (OCR on a captioned video).
+// Saved under `dir`, which the caller owns.
+export async function downloadVideo(
+  url: string,
+  dir: string,
+  push?: PushStep,
+  signal?: AbortSignal,
+  overrides: Partial<TranscribeConfig> = {}
+): Promise<string> {
+  const cfg = { ...getTranscribeConfig(), ...overrides };
+  push?.("transcribe.dl.start", "Downloading video with yt-dlp");
+  await download(url, path.join(dir, "video.%(ext)s"), ["-f", VIDEO_FORMAT], cfg, push, signal);
+  const video = await findVideo(dir, "video");
+  if (!video) throw new TranscribeError("yt-dlp finished without a video file", "download_failed", "download");
+  return video;
+}
+
+// FFMPEG_BIN may name the binary or (as yt-dlp's --ffmpeg-location allows) its directory
+export function ffmpegCommand(ffmpegBin?: string) {
+  if (!ffmpegBin) return "ffmpeg";
+  const inDir = path.join(ffmpegBin, "ffmpeg");
+  return existsSync(inDir) ? inDir : ffmpegBin;
+}
+
+// ffmpeg prints the input's length as "Duration: 00:03:12.48" (or "N/A")
+export function mediaSeconds(ffmpegStderr: string): number | undefined {
+  const m = ffmpegStderr.match(/Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  return m ? Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]) : undefined;
+}
+
+// Same as transcribeUrl for a local audio/video file: ffmpeg converts it to
+// 16 kHz mono WAV in a temp dir, Whisper runs on that. The caller owns `filePath`.
+export async function transcribeFile(
+  filePath: string,
+  model?: string,
+  push?: PushStep,
+  signal?: AbortSignal,
+  overrides: Partial<TranscribeConfig> = {}
+): Promise<Transcript> {
+  const cfg = { ...getTranscribeConfig(), ...overrides };
+  if (model) cfg.model = model;
+  const tmp = await mkdtemp(path.join(tmpdir(), "recipe-ripper-"));
+  const maxSeconds = cfg.maxFileMinutes * 60;
+
+  try {
+    push?.("transcribe.convert.start", "Converting audio with ffmpeg");
+
+    let stderr: string;
+    const wavPath = path.join(tmp, "audio.wav");
+    try {
+      ({ stderr } = await runProcess(
+        ffmpegCommand(cfg.ffmpegBin),
+        [
+          "-hide_banner",
+          "-nostdin",
+          "-y",
+          "-i",
+          filePath,
+          "-vn",
+          "-ac",
+          "1",
+          "-ar",
+          "16000",
+          // a file that hides its length still can't convert past the limit
+          ...(maxSeconds > 0 ? ["-t", String(maxSeconds + 1)] : []),
+          wavPath,
+        ],
+        { push, signal, timeoutMs: cfg.convertTimeoutMs }
+      ));
+    } catch (e) {
+      throw e instanceof ProcessError ? convertError(e) : e;
+    }
+
+    const seconds = mediaSeconds(stderr);
+    if (maxSeconds > 0 && seconds !== undefined && seconds > maxSeconds) {
+      throw new TranscribeError(
+        `File is ${Math.ceil(seconds / 60)} minutes long; the limit is ${cfg.maxFileMinutes}`,
+        "too_long",
+        "convert"
+      );
+    }
+    push?.("transcribe.convert.done", "Audio converted", { seconds });
+
+    return await whisper(wavPath, cfg, push, signal);
+  } finally {
+    await rm(tmp, { recursive: true, force: true }).catch(() => {});
+  }
+}
@@ -0,0 +1,147 @@
+// src/lib/server/transcriptCache.ts
+// Platform text and Whisper transcripts keyed by platform + canonical video ID,
+// so re-extracting a video skips oEmbed/caption fetches and, above all, the
+// yt-dlp download + Whisper run. Stored in DATA_DIR/transcript-cache.json.
+import path from "node:path";
+import type { SourceText } from "@/lib/platform";
+import type { TranscriptSegment } from "@/lib/segments";
+import { dataDir, readJsonFile, writeJsonFile } from "@/lib/server/jsonFile";
+
+export type VideoKey = { platform: string; id: string };
+
+export type CachedWhisper = {
+  model: string;
+  language?: string;
+  text: string;
+  segments?: TranscriptSegment[];
+  at: number;
+};
+
+export type CacheEntry = {
+  key: string;
+  source?: { value: SourceText; at: number };
+  whisper?: CachedWhisper;
+  usedAt: number;
+};
+
+type CacheFile = { version: 1; entries: Record<string, CacheEntry> };
+
+// Larger models give better transcripts; a cached result from a model at least
+// as large as the one requested is good enough ("small" serves "tiny").
+const MODEL_RANK: Record<string, number> = {
+  tiny: 0,
+  base: 1,
+  small: 2,
+  medium: 3,
+  large: 4,
+  "large-v1": 4,
+  "large-v2": 4,
+  "large-v3": 5,
+};
+
+function modelRank(model: string): number | undefined {
+  return MODEL_RANK[model.toLowerCase().replace(/\.en$/, "")];
+}
+
+export function modelSatisfies(cachedModel: string, requested: string): boolean {
+  if (cachedModel === requested) return true;
+  const have = modelRank(cachedModel);
+  const want = modelRank(requested);
+  return have !== undefined && want !== undefined && have >= want;
+}
+
+function cachePath() {
+  return path.join(dataDir(), "transcript-cache.json");
+}
+
+function ttlMs() {
+  const h = Number(process.env.TRANSCRIPT_CACHE_TTL_HOURS || "168");
+  return (Number.isFinite(h) && h > 0 ? h : 168) * 3_600_000;
+}
+
+function maxEntries() {
+  const n = Number(process.env.TRANSCRIPT_CACHE_MAX_ENTRIES || "200");
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : 200;
+}
+
+function keyOf(k: VideoKey) {
+  return `${k.platform}:${k.id}`;
+}
+
+let cache: Record<string, CacheEntry> | null = null;
+let lock: Promise<unknown> = Promise.resolve();
+
+async function load() {
+  if (!cache) {
+    const file = await readJsonFile<CacheFile>(cachePath(), { version: 1, entries: {} });
+    cache = file.entries && typeof file.entries === "object" ? file.entries : {};
+  }
+  return cache;
+}
+
+function expire(entries: Record<string, CacheEntry>) {
+  const cutoff = Date.now() - ttlMs();
+  for (const [k, e] of Object.entries(entries)) {
+    if (e.source && e.source.at < cutoff) delete e.source;
+    if (e.whisper && e.whisper.at < cutoff) delete e.whisper;
+    if (!e.source && !e.whisper) delete entries[k];
+  }
+
+  // size cap: evict least recently used
+  const keys = Object.keys(entries);
+  const over = keys.length - maxEntries();
+  if (over > 0) {
+    keys
+      .sort((a, b) => entries[a].usedAt - entries[b].usedAt)
+      .slice(0, over)
+      .forEach((k) => delete entries[k]);
+  }
+}
+
+function mutate(fn: (entries: Record<string, CacheEntry>) => void): Promise<void> {
+  const next = lock.then(async () => {
+    const entries = await load();
+    fn(entries);
+    expire(entries);
+    await writeJsonFile(cachePath(), { version: 1, entries } satisfies CacheFile);
+  });
+  lock = next.catch(() => {});
+  return next;
+}
+
+export async function getCachedSource(k: VideoKey): Promise<SourceText | null> {
+  const e = (await load())[keyOf(k)];
+  if (!e?.source || e.source.at < Date.now() - ttlMs()) return null;
+  e.usedAt = Date.now();
+  return { ...e.source.value };
+}
+
+export async function getCachedWhisper(k: VideoKey, model: string): Promise<CachedWhisper | null> {
+  const e = (await load())[keyOf(k)];
+  const w = e?.whisper;
+  if (!w || w.at < Date.now() - ttlMs() || !modelSatisfies(w.model, model)) return null;
+  e.usedAt = Date.now();
+  return w;
+}
+
+export function putCachedSource(k: VideoKey, source: SourceText) {
+  const value = { ...source }; // callers go on to mutate theirs (source.text = whisper text)
+  return mutate((entries) => {
+    const key = keyOf(k);
+    const e = (entries[key] ??= { key, usedAt: Date.now() });
+    e.source = { value, at: Date.now() };
+    e.usedAt = Date.now();
+  });
+}
+
+// Never replaces a transcript from a larger model with one from a smaller model
+export function putCachedWhisper(k: VideoKey, w: Omit<CachedWhisper, "at">) {
+  return mutate((entries) => {
+    const key = keyOf(k);
+    const e = (entries[key] ??= { key, usedAt: Date.now() });
+    const fresh = e.whisper && e.whisper.at >= Date.now() - ttlMs();
+    if (fresh && e.whisper && !modelSatisfies(w.model, e.whisper.model)) return;
+    e.whisper = { ...w, at: Date.now() };
+    e.usedAt = Date.now();
+  });
+}
@@ -0,0 +1,217 @@
+// src/lib/server/upload.ts
+// Audio/video files posted to /api/extract as multipart/form-data. The body is
+// read as it arrives: the file part is checked against the accepted formats and
+// streamed to a temp dir, counting bytes against UPLOAD_MAX_MB, so an upload is
+// never held in memory. The caller removes it with discardUpload() once it's
+// transcribed.
+import { mkdtemp, open, rm, type FileHandle } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+// Extension -> MIME types clients send for it; messaging apps often drop the extension
+const FORMATS: Record<string, string[]> = {
+  ".mp4": ["video/mp4"],
+  ".mov": ["video/quicktime"],
+  ".webm": ["video/webm", "audio/webm"],
+  ".m4a": ["audio/mp4", "audio/x-m4a", "audio/m4a"],
+  ".wav": ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"],
+};
+
+const FORM_OVERHEAD = 1024 * 1024; // boundaries and the other fields, on top of the file
+const MAX_PART_HEADERS = 16 * 1024;
+
+export type Upload = {
+  path: string;
+  dir: string;
+  name: string; // as sent by the client; never used in `path`
+  size: number;
+};
+
+// The message is safe to show the client; `status` is the HTTP status to answer with
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export function maxUploadBytes(env: NodeJS.ProcessEnv = process.env) {
+  const mb = Number(env.UPLOAD_MAX_MB || "200");
+  return (Number.isFinite(mb) && mb > 0 ? mb : 200) * 1024 * 1024;
+}
+
+export function isMultipart(req: Request) {
+  return /^multipart\/form-data\b/i.test(req.headers.get("content-type") ?? "");
+}
+
+function extensionFor(name: string, type: string): string | null {
+  const ext = path.extname(name).toLowerCase();
+  if (FORMATS[ext]) return ext;
+  const mime = type.split(";")[0].trim().toLowerCase();
+  return Object.keys(FORMATS).find((e) => FORMATS[e].includes(mime)) ?? null;
+}
+
+type Part = { name: string; filename?: string; type: string };
+
+// Where a part's bytes go; throwing from either stops reading the body
+type PartSink = { write(chunk: Buffer): unknown; end(): unknown };
+
+function malformed(why: string) {
+  return new UploadError(`Couldn't read the multipart body: ${why}`, 400);
+}
+
+// Clients escape quotes and line breaks in names as %22, %0D, %0A
+function dispositionParam(disposition: string, key: string): string | undefined {
+  const value = disposition.match(new RegExp(`;\\s*${key}="([^"]*)"`, "i"))?.[1];
+  return value?.replace(/%22/g, '"').replace(/%0D/gi, "\r").replace(/%0A/gi, "\n");
+}
+
+function parsePart(raw: string): Part {
+  const headers = new Map<string, string>();
+  for (const line of raw.split("\r\n")) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  const disposition = headers.get("content-disposition") ?? "";
+  const name = dispositionParam(disposition, "name");
+  if (name === undefined) throw malformed("a part has no name");
+  return { name, filename: dispositionParam(disposition, "filename"), type: headers.get("content-type") ?? "" };
+}
+
+// Walks the parts of a multipart body chunk by chunk, handing each part's bytes
+// to the sink onPart returns for it. Only the tail that could be the start of a
+// boundary is held back between chunks.
+async function readParts(
+  body: ReadableStream<Uint8Array>,
+  boundary: string,
+  onPart: (part: Part) => Promise<PartSink>
+) {
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const reader = body.getReader();
+  // the first boundary has no line break in front of it
+  let buf = Buffer.from("\r\n");
+  let state: "preamble" | "boundary" | "headers" | "body" = "preamble";
+  let sink: PartSink | undefined;
+
+  try {
+    for (;;) {
+      let needMore = false;
+      while (!needMore) {
+        if (state === "preamble" || state === "body") {
+          const at = buf.indexOf(delimiter);
+          const upTo = at === -1 ? Math.max(0, buf.length - delimiter.length + 1) : at;
+          if (state === "body" && upTo > 0) await sink!.write(buf.subarray(0, upTo));
+          if (at === -1) {
+            buf = buf.subarray(upTo);
+            needMore = true;
+            continue;
+          }
+          if (state === "body") await sink!.end();
+          buf = buf.subarray(at + delimiter.length);
+          state = "boundary";
+        } else if (state === "boundary") {
+          if (buf.length < 2) {
+            needMore = true;
+            continue;
+          }
+          const after = buf.subarray(0, 2).toString("latin1");
+          if (after === "--") return; // closing boundary
+          if (after !== "\r\n") throw malformed("bad boundary line");
+          buf = buf.subarray(2);
+          state = "headers";
+        } else {
+          const end = buf.indexOf("\r\n\r\n");
+          if (end === -1) {
+            if (buf.length > MAX_PART_HEADERS) throw malformed("part headers too long");
+            needMore = true;
+            continue;
+          }
+          sink = await onPart(parsePart(buf.subarray(0, end).toString("utf8")));
+          buf = buf.subarray(end + 4);
+          state = "body";
+        }
+      }
+
+      const { done, value } = await reader.read();
+      if (done) throw malformed("body ended before the closing boundary");
+      buf = Buffer.concat([buf, value]);
+    }
+  } finally {
+    // stops the client's upload when we give up early
+    await reader.cancel().catch(() => {});
+  }
+}
+
+// Reads the `file` part and every other field (as strings) from the request
+export async function receiveUpload(
+  req: Request
+): Promise<{ upload: Upload; fields: Record<string, string> }> {
+  const maxBytes = maxUploadBytes();
+  const mb = Math.round(maxBytes / 1024 / 1024);
+  const tooLarge = () => new UploadError(`Upload is larger than ${mb} MB`, 413);
+  // refuse early when the client says up front that it's too big
+  if (Number(req.headers.get("content-length") || 0) > maxBytes + FORM_OVERHEAD) throw tooLarge();
+
+  const boundary = req.headers.get("content-type")?.match(/;\s*boundary="?([^";]+)"?/i)?.[1];
+  if (!boundary || !req.body) throw malformed("no boundary");
+
+  const fields: Record<string, string> = {};
+  let fieldBytes = 0;
+  let upload: Upload | undefined;
+  let file: FileHandle | undefined;
+
+  const onPart = async (part: Part): Promise<PartSink> => {
+    if (part.name === "file" && part.filename !== undefined && !upload) {
+      const ext = extensionFor(part.filename, part.type);
+      if (!ext) {
+        throw new UploadError(
+          `Unsupported file type (${part.filename || part.type || "unknown"}); send ${Object.keys(FORMATS).join(", ")}`,
+          415
+        );
+      }
+      const dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-upload-"));
+      const saved: Upload = { path: path.join(dir, `upload${ext}`), dir, name: part.filename, size: 0 };
+      upload = saved;
+      const handle = (file = await open(saved.path, "w"));
+      return {
+        async write(chunk) {
+          saved.size += chunk.length;
+          if (saved.size > maxBytes) throw tooLarge();
+          await handle.write(chunk);
+        },
+        end: () => handle.close(),
+      };
+    }
+
+    // text fields, and any other file parts, which are dropped
+    const chunks: Buffer[] = [];
+    return {
+      write(chunk) {
+        fieldBytes += chunk.length;
+        if (fieldBytes > FORM_OVERHEAD) throw tooLarge();
+        if (part.filename === undefined) chunks.push(Buffer.from(chunk));
+      },
+      end() {
+        if (part.filename === undefined) fields[part.name] = Buffer.concat(chunks).toString("utf8");
+      },
+    };
+  };
+
+  try {
+    await readParts(req.body, boundary, onPart);
+    if (!upload) throw new UploadError('Missing "file" part', 400);
+    if (!upload.size) throw new UploadError("Uploaded file is empty", 400);
+  } catch (e) {
+    await file?.close().catch(() => {});
+    if (upload) await discardUpload(upload);
+    throw e;
+  }
+  return { upload, fields };
+}
+
+export async function discardUpload(upload: Upload) {
+  await rm(upload.dir, { recursive: true, force: true }).catch(() => {});
+}
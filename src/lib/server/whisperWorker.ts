@@ -0,0 +1,420 @@
+// src/lib/server/whisperWorker.ts
+// One long-lived scripts/whisper_worker.py per server, so Whisper models stay
+// loaded between requests. Jobs go over stdin/stdout as JSON lines and run one
+// at a time. The worker is started on first use and restarted after a crash;
+// models unused for WHISPER_WORKER_IDLE_MINUTES are unloaded, and the process
+// itself stops once nothing is loaded.
+import { spawn, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import { KILL_GRACE_MS, ProcessError } from "@/lib/server/process";
+import type { PushStep, TranscribeConfig } from "@/lib/server/transcribe";
+
+type Request = { op: "transcribe" | "ping" | "unload"; [key: string]: unknown };
+
+type Pending = {
+  id: number;
+  bin: string; // python to run the worker with
+  request: Request;
+  timeoutMs?: number;
+  push?: PushStep;
+  signal?: AbortSignal;
+  resolve: (reply: any) => void;
+  reject: (e: unknown) => void;
+  cleanup: () => void;
+};
+
+type Worker = {
+  proc: ChildProcess;
+  bin: string;
+  pid?: number;
+  startedAt: number;
+  ready: boolean;
+  stdout: string; // unparsed tail
+  stderr: string; // last few KB, for crash reports
+  fatal?: { error?: string; code?: string };
+  startTimer?: NodeJS.Timeout;
+};
+
+type WorkerState = {
+  worker?: Worker;
+  queue: Pending[];
+  current?: Pending;
+  nextId: number;
+  restarts: number;
+  lastExit?: { at: number; code: number | null; signal: string | null };
+  models: Map<string, number>; // loaded model key -> last used
+  lastActivity: number;
+  sweeper?: NodeJS.Timeout;
+};
+
+// globalThis for the same reason as jobs.ts: dev reloads must not orphan the worker
+const g = globalThis as typeof globalThis & { __recipeRipperWhisperWorker?: WorkerState };
+const state: WorkerState = (g.__recipeRipperWhisperWorker ??= {
+  queue: [],
+  nextId: 1,
+  restarts: 0,
+  models: new Map(),
+  lastActivity: Date.now(),
+});
+
+const START_TIMEOUT_MS = 60_000;
+const PING_TIMEOUT_MS = 5000;
+const STDERR_KEEP = 4000;
+
+function idleMs() {
+  const min = Number(process.env.WHISPER_WORKER_IDLE_MINUTES || "15");
+  return (Number.isFinite(min) && min > 0 ? min : 15) * 60_000;
+}
+
+export function workerScript() {
+  return path.join(process.cwd(), "scripts", "whisper_worker.py");
+}
+
+function modelKey(cfg: Pick<TranscribeConfig, "model" | "device" | "computeType">) {
+  return `${cfg.model}/${cfg.device}/${cfg.computeType}`;
+}
+
+// ---------- process ----------
+
+function start(bin: string): Worker {
+  const proc = spawn(bin, [workerScript()], {
+    stdio: ["pipe", "pipe", "pipe"],
+    cwd: path.dirname(workerScript()), // so `from transcribe import ...` resolves
+  });
+  const worker: Worker = { proc, bin, pid: proc.pid, startedAt: Date.now(), ready: false, stdout: "", stderr: "" };
+  state.worker = worker;
+  state.models.clear();
+
+  proc.stdout!.on("data", (d) => {
+    worker.stdout += d.toString();
+    let nl: number;
+    while ((nl = worker.stdout.indexOf("\n")) !== -1) {
+      const line = worker.stdout.slice(0, nl).trim();
+      worker.stdout = worker.stdout.slice(nl + 1);
+      if (line) onLine(worker, line);
+    }
+  });
+  proc.stderr!.on("data", (d) => {
+    worker.stderr = (worker.stderr + d.toString()).slice(-STDERR_KEEP);
+  });
+  proc.stdin!.on("error", () => {}); // EPIPE when it dies mid-write; "exit" handles it
+
+  proc.on("error", (e: NodeJS.ErrnoException) => {
+    if (state.worker !== worker) return;
+    state.worker = undefined;
+    const err = new ProcessError(
+      `${bin} could not be started (${e.code ?? e.message})`,
+      bin,
+      null,
+      "",
+      "",
+      "spawn",
+      e.code
+    );
+    failAll(err);
+  });
+  proc.on("exit", (code, signal) => onExit(worker, code, signal));
+
+  // An idle worker must not keep the CLI or tests alive; running jobs hold their own timers
+  proc.unref();
+  for (const s of [proc.stdin, proc.stdout, proc.stderr]) (s as any)?.unref?.();
+  return worker;
+}
+
+function onLine(worker: Worker, line: string) {
+  let msg: any;
+  try {
+    msg = JSON.parse(line);
+  } catch {
+    worker.stderr = (worker.stderr + `\n[stdout] ${line}`).slice(-STDERR_KEEP);
+    return;
+  }
+  if (msg?.event === "ready") {
+    clearTimeout(worker.startTimer);
+    worker.ready = true;
+    worker.pid = msg.pid ?? worker.pid;
+    pump();
+    return;
+  }
+  if (msg?.event === "fatal") {
+    worker.fatal = msg;
+    return;
+  }
+  const job = state.current;
+  if (!job || msg?.id !== job.id) return; // reply to a job we already gave up on
+  state.current = undefined;
+  state.lastActivity = Date.now();
+  job.cleanup();
+  job.resolve(msg);
+  pump();
+}
+
+function onExit(worker: Worker, code: number | null, signal: string | null) {
+  if (state.worker !== worker) return;
+  state.worker = undefined;
+  state.models.clear();
+  state.lastExit = { at: Date.now(), code, signal };
+
+  const report = worker.fatal ? JSON.stringify(worker.fatal) : "";
+  const err = new ProcessError(
+    `Whisper worker exited (${signal ?? code}). ${worker.stderr.slice(-800)}`,
+    worker.bin,
+    code,
+    report,
+    worker.stderr,
+    "exit"
+  );
+
+  const job = state.current;
+  state.current = undefined;
+  if (job) {
+    job.cleanup();
+    job.reject(err);
+  }
+  if (!worker.ready) {
+    // died during startup (missing deps, bad script): retrying would loop
+    failAll(err);
+    return;
+  }
+  if (state.queue.length) {
+    state.restarts++;
+    pump();
+  }
+}
+
+function failAll(err: unknown) {
+  const jobs = state.current ? [state.current, ...state.queue] : [...state.queue];
+  state.current = undefined;
+  state.queue = [];
+  for (const job of jobs) {
+    job.cleanup();
+    job.reject(err);
+  }
+}
+
+function kill(worker: Worker) {
+  if (worker.proc.exitCode !== null || worker.proc.signalCode !== null) return;
+  worker.proc.kill("SIGTERM");
+  const t = setTimeout(() => worker.proc.kill("SIGKILL"), KILL_GRACE_MS);
+  t.unref();
+  worker.proc.once("exit", () => clearTimeout(t));
+}
+
+// ---------- queue ----------
+
+function pump() {
+  if (state.current || !state.queue.length) return;
+  const { bin } = state.queue[0];
+
+  const worker = state.worker;
+  if (worker && worker.bin !== bin) {
+    // PYTHON_BIN changed under us; the old worker goes once it's idle
+    kill(worker);
+    return;
+  }
+  if (!worker) {
+    state.queue[0].push?.("whisper.worker.spawn", `Starting Whisper worker (${bin})`);
+    const w = start(bin);
+    w.startTimer = setTimeout(() => {
+      if (!w.ready && state.worker === w) {
+        w.stderr += `\nNo ready line after ${START_TIMEOUT_MS / 1000}s`;
+        kill(w);
+      }
+    }, START_TIMEOUT_MS);
+    w.proc.once("exit", () => clearTimeout(w.startTimer));
+    return; // the ready line calls pump() again
+  }
+  if (!worker.ready) return;
+
+  const job = state.queue.shift()!;
+  state.current = job;
+  state.lastActivity = Date.now();
+  job.push?.("whisper.worker.job", `Whisper worker job ${job.id} (pid ${worker.pid})`, { op: job.request.op });
+
+  if (job.timeoutMs) {
+    const w = worker;
+    const timer = setTimeout(() => {
+      if (state.current !== job) return;
+      state.current = undefined;
+      job.cleanup();
+      job.reject(
+        new ProcessError(
+          `Whisper worker timed out after ${Math.round(job.timeoutMs! / 1000)}s`,
+          w.bin,
+          null,
+          "",
+          w.stderr,
+          "timeout"
+        )
+      );
+      kill(w); // the only way to stop a transcription in progress
+    }, job.timeoutMs);
+    const prev = job.cleanup;
+    job.cleanup = () => {
+      clearTimeout(timer);
+      prev();
+    };
+  }
+
+  worker.proc.stdin!.write(JSON.stringify({ id: job.id, ...job.request }) + "\n");
+}
+
+function enqueue(
+  bin: string,
+  request: Request,
+  opts: { timeoutMs?: number; push?: PushStep; signal?: AbortSignal } = {}
+): Promise<any> {
+  const { signal } = opts;
+  if (signal?.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const job: Pending = {
+      id: state.nextId++,
+      bin,
+      request,
+      ...opts,
+      resolve,
+      reject,
+      cleanup: () => signal?.removeEventListener("abort", onAbort),
+    };
+    const onAbort = () => {
+      if (state.current === job) {
+        state.current = undefined;
+        if (state.worker) kill(state.worker);
+      } else {
+        state.queue = state.queue.filter((j) => j !== job);
+      }
+      job.cleanup();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    state.queue.push(job);
+    if (state.current || (state.worker && !state.worker.ready)) {
+      opts.push?.("whisper.worker.queued", `Waiting for the Whisper worker (${state.queue.length} queued)`);
+    }
+    ensureSweeper();
+    pump();
+  });
+}
+
+// ---------- idle eviction ----------
+
+function ensureSweeper() {
+  if (state.sweeper) return;
+  state.sweeper = setInterval(sweep, Math.min(idleMs(), 60_000));
+  state.sweeper.unref();
+}
+
+function sweep() {
+  const worker = state.worker;
+  if (!worker) {
+    clearInterval(state.sweeper);
+    state.sweeper = undefined;
+    return;
+  }
+  if (state.current || state.queue.length) return;
+
+  const cutoff = Date.now() - idleMs();
+  // nothing used lately: stopping the process gives all of its memory back
+  if (state.lastActivity < cutoff && [...state.models.values()].every((t) => t < cutoff)) {
+    kill(worker);
+    return;
+  }
+  for (const [key, lastUsed] of state.models) {
+    if (lastUsed >= cutoff) continue;
+    const [model, device, compute_type] = key.split("/");
+    state.models.delete(key);
+    enqueue(worker.bin, { op: "unload", model, device, compute_type }, { timeoutMs: PING_TIMEOUT_MS }).catch(
+      () => {}
+    );
+  }
+}
+
+// ---------- public API ----------
+
+// Same result shape as scripts/transcribe.py. Failures are ProcessErrors whose
+// stdout holds the worker's {"error", "code"} report, like the one-shot script's.
+export async function transcribeInWorker(
+  audioPath: string,
+  cfg: TranscribeConfig,
+  push?: PushStep,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const reply = await enqueue(
+    cfg.pythonBin,
+    {
+      op: "transcribe",
+      audio: audioPath,
+      model: cfg.model,
+      device: cfg.device,
+      compute_type: cfg.computeType,
+      beam_size: cfg.beamSize,
+      vad: cfg.vad,
+    },
+    { timeoutMs: cfg.whisperTimeoutMs, push, signal }
+  );
+  const key = modelKey(cfg);
+  if (reply?.ok) {
+    state.models.set(key, Date.now());
+    return reply;
+  }
+  if (reply?.code !== "model_unavailable") state.models.set(key, Date.now());
+  const report = JSON.stringify({ error: reply?.error, code: reply?.code });
+  throw new ProcessError(`Whisper worker: ${reply?.error ?? "job failed"}`, cfg.pythonBin, null, report, "", "exit");
+}
+
+export type WorkerStatus = {
+  running: boolean;
+  ready: boolean;
+  pid?: number;
+  startedAt?: number;
+  busy: boolean;
+  queued: number;
+  restarts: number;
+  lastExit?: WorkerState["lastExit"];
+  models: { key: string; lastUsed: number }[];
+  idleMinutes: number;
+};
+
+export function workerStatus(): WorkerStatus {
+  const w = state.worker;
+  return {
+    running: !!w,
+    ready: !!w?.ready,
+    pid: w?.pid,
+    startedAt: w?.startedAt,
+    busy: !!state.current,
+    queued: state.queue.length,
+    restarts: state.restarts,
+    lastExit: state.lastExit,
+    models: [...state.models].map(([key, lastUsed]) => ({ key, lastUsed })),
+    idleMinutes: idleMs() / 60_000,
+  };
+}
+
+// Round trip to the worker. A busy worker can't answer until its job is done, so
+// that counts as healthy without asking; a stopped one is only started with `start`.
+export async function pingWorker(
+  opts: { start?: boolean; pythonBin?: string } = {}
+): Promise<{ ok: boolean; status: WorkerStatus; error?: string }> {
+  const w = state.worker;
+  if (state.current || (w && !w.ready) || (!w && !opts.start)) return { ok: true, status: workerStatus() };
+  try {
+    const bin = w?.bin ?? opts.pythonBin;
+    if (!bin) throw new Error("pythonBin is required to start the worker");
+    await enqueue(bin, { op: "ping" }, { timeoutMs: PING_TIMEOUT_MS });
+    return { ok: true, status: workerStatus() };
+  } catch (e: any) {
+    return { ok: false, status: workerStatus(), error: e?.message ?? String(e) };
+  }
+}
+
+export function stopWorker() {
+  failAll(new Error("Whisper worker stopped"));
+  if (state.worker) kill(state.worker);
+  state.worker = undefined; // the next job starts a fresh one, even before this one exits
+  state.models.clear();
+  clearInterval(state.sweeper);
+  state.sweeper = undefined;
+}
@@ -0,0 +1,279 @@
+// Shopping lists: the ingredients of several recipes merged into one list.
+// Lines naming the same food (plurals and synonyms folded, via foods.ts) are
+// summed, converting between units where they measure the same thing, grouped
+// by store aisle, and staples the cook always has are left off.
+import { canonicalTokens, foodKey } from "@/lib/foods";
+import { formatAmount, parseIngredients, unitFromItem, type ParsedIngredient } from "@/lib/ingredients";
+import type { Recipe } from "@/lib/recipe";
+import {
+  densityFor,
+  fromGrams,
+  fromMl,
+  isLiquid,
+  isMass,
+  isVolume,
+  toGrams,
+  toMl,
+  type Converted,
+  type UnitSystem,
+} from "@/lib/units";
+
+// In the order you'd walk a store
+export const AISLES = [
+  "produce",
+  "meat",
+  "seafood",
+  "dairy",
+  "bakery",
+  "grains",
+  "baking",
+  "canned",
+  "spices",
+  "condiments",
+  "frozen",
+  "other",
+] as const;
+export type Aisle = (typeof AISLES)[number];
+
+export const AISLE_LABELS: Record<Aisle, string> = {
+  produce: "Produce",
+  meat: "Meat",
+  seafood: "Seafood",
+  dairy: "Dairy & eggs",
+  bakery: "Bread & bakery",
+  grains: "Pasta, rice & grains",
+  baking: "Baking",
+  canned: "Canned & jarred",
+  spices: "Spices & seasonings",
+  condiments: "Oils, sauces & condiments",
+  frozen: "Frozen",
+  other: "Other",
+};
+
+export type ShoppingAmount = { quantity: number; quantityMax?: number; unit?: string };
+
+export type ShoppingItem = {
+  key: string; // the food the lines were merged on, e.g. "scallion"
+  name: string; // as the first recipe wrote it
+  aisle: Aisle;
+  amounts: ShoppingAmount[]; // one per kind of unit that couldn't be converted into another
+  unmeasured: boolean; // some line had no quantity ("salt to taste")
+  optional: boolean; // every recipe marks it optional
+  text: string; // "3 cups all-purpose flour + extra"
+  recipes: string[]; // titles of the recipes that use it
+};
+
+export type ShoppingList = {
+  recipes: string[];
+  aisles: { aisle: Aisle; label: string; items: ShoppingItem[] }[];
+  skipped: ShoppingItem[]; // staples left off the list
+};
+
+export type ShoppingOptions = {
+  staples?: string[]; // "always have" items, matched on the same key as the lines
+  system?: UnitSystem; // units for converted sums; by default whichever the lines mostly use
+};
+
+const AISLE_FOODS: Record<Exclude<Aisle, "other">, string[]> = {
+  produce: [
+    "onion", "red onion", "scallion", "shallot", "leek", "garlic", "ginger", "tomato", "cherry tomato", "potato",
+    "sweet potato", "carrot", "celery", "cucumber", "lettuce", "spinach", "kale", "cabbage", "broccoli",
+    "cauliflower", "mushroom", "bell pepper", "chili", "jalapeño", "zucchini", "eggplant", "squash", "pumpkin",
+    "avocado", "corn", "lemon", "lime", "orange", "apple", "banana", "blueberry", "strawberry", "raspberry",
+    "berry", "cilantro", "parsley", "basil", "mint", "dill", "thyme", "rosemary", "sage", "chive", "arugula",
+    "herb", "fruit",
+  ],
+  meat: [
+    "beef", "ground beef", "steak", "pork", "ground pork", "chicken", "chicken breast", "chicken thigh", "turkey",
+    "lamb", "veal", "bacon", "ham", "sausage", "chorizo", "pancetta", "prosciutto",
+  ],
+  seafood: ["fish", "salmon", "tuna", "cod", "shrimp", "scallop", "crab", "mussel", "clam", "anchovy"],
+  dairy: [
+    "milk", "buttermilk", "butter", "cream", "heavy cream", "sour cream", "cream cheese", "yogurt", "cheese",
+    "cheddar", "mozzarella", "parmesan", "feta", "ricotta", "egg",
+  ],
+  bakery: ["bread", "bun", "tortilla", "pita", "baguette"],
+  grains: ["rice", "pasta", "spaghetti", "noodle", "oat", "quinoa", "couscous", "lentil", "breadcrumb", "panko"],
+  baking: [
+    "flour", "all-purpose flour", "sugar", "brown sugar", "powdered sugar", "baking soda", "baking powder",
+    "yeast", "cornstarch", "cocoa powder", "chocolate", "chocolate chip", "vanilla", "vanilla extract",
+    "walnut", "almond", "pecan", "peanut",
+  ],
+  canned: [
+    "stock", "broth", "chicken stock", "chicken broth", "beef broth", "vegetable stock", "vegetable broth",
+    "tomato paste", "tomato sauce", "coconut milk", "bean", "black bean", "kidney bean", "chickpea",
+  ],
+  spices: [
+    "salt", "kosher salt", "sea salt", "pepper", "black pepper", "cumin", "paprika", "smoked paprika", "cinnamon",
+    "nutmeg", "turmeric", "garam masala", "curry powder", "chili powder", "chili flake", "cayenne", "oregano",
+    "bay leaf", "garlic powder", "onion powder", "seasoning", "spice", "sesame seed",
+  ],
+  condiments: [
+    "oil", "olive oil", "vegetable oil", "sesame oil", "vinegar", "soy sauce", "fish sauce", "hot sauce",
+    "worcestershire sauce", "honey", "maple syrup", "ketchup", "mayo", "mayonnaise", "mustard", "pickle", "salsa",
+    "peanut butter", "jam",
+  ],
+  frozen: ["ice cream"],
+};
+
+const AISLE_OF = new Map(
+  Object.entries(AISLE_FOODS).flatMap(([aisle, foods]) =>
+    foods.map((f) => [canonicalTokens(f).join(" "), aisle as Aisle] as const)
+  )
+);
+
+export function aisleFor(key: string, unit?: string): Aisle {
+  const tokens = key.split(" ");
+  if (unit === "can") return "canned";
+  if (tokens[0] === "frozen") return "frozen";
+  if (tokens[0] === "dried" && AISLE_OF.get(tokens.slice(1).join(" ")) === "produce") return "spices";
+  // the whole name, then shorter endings ("smoked paprika", "paprika"), then any word in it
+  for (let i = 0; i < tokens.length; i++) {
+    const hit = AISLE_OF.get(tokens.slice(i).join(" "));
+    if (hit) return hit;
+  }
+  for (let i = tokens.length - 1; i >= 0; i--) {
+    const hit = AISLE_OF.get(tokens[i]);
+    if (hit) return hit;
+  }
+  return "other";
+}
+
+const METRIC_UNITS = new Set(["g", "kg", "ml", "l"]);
+
+function sum(lines: ParsedIngredient[], of: (p: ParsedIngredient) => number) {
+  return lines.reduce((n, p) => n + of(p), 0);
+}
+
+// Lines in one unit: add them up as they are
+function plainTotal(lines: ParsedIngredient[]): ShoppingAmount {
+  const ranged = lines.some((p) => p.quantityMax !== undefined);
+  return {
+    quantity: sum(lines, (p) => p.quantity!),
+    quantityMax: ranged ? sum(lines, (p) => p.quantityMax ?? p.quantity!) : undefined,
+    unit: lines[0].unit,
+  };
+}
+
+// Grams or millilitres: mixed units (or a system asked for) go through the base
+// unit, into the system most of the lines use
+function measuredTotal(
+  lines: ParsedIngredient[],
+  toBase: (qty: number, unit: string) => number,
+  fromBase: (n: number, system: UnitSystem) => Converted,
+  system?: UnitSystem
+): ShoppingAmount {
+  const units = new Set(lines.map((p) => p.unit!));
+  const metric = lines.filter((p) => METRIC_UNITS.has(p.unit!)).length;
+  if (units.size === 1 && (!system || METRIC_UNITS.has(lines[0].unit!) === (system === "metric"))) {
+    return plainTotal(lines);
+  }
+
+  const base = sum(lines, (p) => toBase(p.quantity!, p.unit!));
+  const out: ShoppingAmount = fromBase(base, system ?? (metric * 2 >= lines.length ? "metric" : "imperial"));
+  if (lines.some((p) => p.quantityMax !== undefined)) {
+    // keep the range in one unit, as convertAmount does
+    out.quantityMax = sum(lines, (p) => toBase(p.quantityMax ?? p.quantity!, p.unit!)) * (out.quantity / base);
+  }
+  return out;
+}
+
+function sumAmounts(lines: ParsedIngredient[], item: string, system?: UnitSystem): ShoppingAmount[] {
+  const measured = lines.filter((p) => p.quantity !== undefined);
+  let mass = measured.filter((p) => isMass(p.unit));
+  let volume = measured.filter((p) => isVolume(p.unit));
+
+  // weighed in one recipe and spooned in another: one figure when the density is
+  // known, by weight for dry goods (always, in metric) and by volume for liquids
+  if (densityFor(item) !== undefined) {
+    if (!isLiquid(item) && (mass.length || system === "metric")) {
+      mass = [...mass, ...volume];
+      volume = [];
+    } else if (isLiquid(item) && volume.length) {
+      volume = [...volume, ...mass];
+      mass = [];
+    }
+  }
+
+  const amounts: ShoppingAmount[] = [];
+  if (mass.length) amounts.push(measuredTotal(mass, (q, unit) => toGrams(q, unit, item)!, fromGrams, system));
+  if (volume.length) amounts.push(measuredTotal(volume, (q, unit) => toMl(q, unit, item)!, fromMl, system));
+
+  // counts, cloves, cans, pinches: summed per unit
+  const others = new Map<string, ParsedIngredient[]>();
+  for (const p of measured) {
+    if (isMass(p.unit) || isVolume(p.unit)) continue;
+    others.set(p.unit ?? "", [...(others.get(p.unit ?? "") ?? []), p]);
+  }
+  for (const group of others.values()) amounts.push(plainTotal(group));
+  return amounts;
+}
+
+export function buildShoppingList(recipes: Recipe[], opts: ShoppingOptions = {}): ShoppingList {
+  const groups = new Map<string, { lines: ParsedIngredient[]; recipes: Set<string> }>();
+  for (const recipe of recipes) {
+    const lines = recipe.parsedIngredients?.length ? recipe.parsedIngredients : parseIngredients(recipe.ingredients);
+    for (const p of lines.map(unitFromItem)) {
+      const key = foodKey(p.item);
+      if (!key) continue;
+      const group = groups.get(key) ?? { lines: [], recipes: new Set<string>() };
+      group.lines.push(p);
+      group.recipes.add(recipe.title);
+      groups.set(key, group);
+    }
+  }
+
+  const staples = new Set((opts.staples ?? []).map(foodKey));
+  const items: ShoppingItem[] = [...groups].map(([key, { lines, recipes }]) => {
+    const name = lines[0].item;
+    const amounts = sumAmounts(lines, name, opts.system);
+    const unmeasured = lines.some((p) => p.quantity === undefined);
+    const optional = lines.every((p) => p.optional);
+    let text = amounts.length ? `${amounts.map(formatAmount).join(" + ")} ${name}` : name;
+    if (unmeasured && amounts.length) text += " + extra";
+    if (optional) text += " (optional)";
+    return {
+      key,
+      name,
+      aisle: aisleFor(key, lines.find((p) => p.unit)?.unit),
+      amounts,
+      unmeasured,
+      optional,
+      text,
+      recipes: [...recipes],
+    };
+  });
+
+  const byName = (a: ShoppingItem, b: ShoppingItem) => a.name.localeCompare(b.name);
+  const wanted = items.filter((i) => !staples.has(i.key));
+  return {
+    recipes: recipes.map((r) => r.title),
+    aisles: AISLES.map((aisle) => ({
+      aisle,
+      label: AISLE_LABELS[aisle],
+      items: wanted.filter((i) => i.aisle === aisle).sort(byName),
+    })).filter((a) => a.items.length),
+    skipped: items.filter((i) => staples.has(i.key)).sort(byName),
+  };
+}
+
+export function shoppingToMarkdown(list: ShoppingList): string {
+  const out = ["# Shopping list", ""];
+  if (list.recipes.length) out.push(`_For: ${list.recipes.join(" · ")}_`, "");
+  for (const { label, items } of list.aisles) {
+    out.push(`## ${label}`, "", ...items.map((i) => `- [ ] ${i.text}`), "");
+  }
+  if (list.skipped.length) out.push(`_Already in the pantry: ${list.skipped.map((i) => i.name).join(", ")}_`, "");
+  return out.join("\n");
+}
+
+// Printable, like the recipe text export
+export function shoppingToText(list: ShoppingList): string {
+  const out = ["SHOPPING LIST", "============="];
+  if (list.recipes.length) out.push(`For: ${list.recipes.join(", ")}`);
+  for (const { label, items } of list.aisles) {
+    out.push("", label.toUpperCase(), ...items.map((i) => `[ ] ${i.text}`));
+  }
+  if (list.skipped.length) out.push("", `Already in the pantry: ${list.skipped.map((i) => i.name).join(", ")}`);
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,24 @@
+// src/lib/sources/facebook.ts
+// Facebook videos/reels (incl. fb.watch): description from the public page's og: tags.
+import type { SourceAdapter } from "@/lib/platform";
+import { fetchHtml, metaContent, pageTitle } from "@/lib/sources/html";
+
+export const facebook: SourceAdapter = {
+  platform: "facebook",
+  matches: (u) => /(^|\.)facebook\.com$/.test(u.hostname) || u.hostname === "fb.watch",
+  async fetch(url) {
+    let title: string | undefined;
+    let text = "";
+    try {
+      const html = await fetchHtml(url);
+      title = metaContent(html, "og:title") ?? pageTitle(html);
+      text = metaContent(html, "og:description") ?? metaContent(html, "description") ?? "";
+    } catch (e: any) {
+      console.error("Facebook fetch failed:", e?.message ?? e);
+    }
+    // og:title is usually "<caption> | By <Page Name>"
+    const author = title?.match(/\|\s*By\s+(.+)$/i)?.[1]?.trim();
+    title = title?.replace(/\s*\|\s*By\s+.+$/i, "").trim() || title;
+    return { platform: "facebook", title, author, text };
+  },
+};
@@ -0,0 +1,196 @@
+// src/lib/sources/html.ts
+// Shared bits for adapters that scrape plain HTML pages (no DOM parser on the server).
+import { lookup as dnsLookup } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { Agent } from "undici";
+
+const BROWSER_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36",
+  "Accept-Language": "en-US,en;q=0.9",
+  Accept: "text/html,application/xhtml+xml",
+};
+
+// Pages come from URLs users paste, so a fetch gives up after a while, reads at
+// most MAX_PAGE_BYTES and never reaches the server's own network (localhost,
+// 10.x, the cloud metadata address), redirects included.
+const PAGE_TIMEOUT_MS = 15_000;
+const MAX_PAGE_BYTES = 5_000_000;
+const MAX_REDIRECTS = 5;
+
+const PRIVATE = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+] as const) {
+  PRIVATE.addSubnet(net, prefix, "ipv4");
+}
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE.addSubnet(net, prefix, "ipv6");
+}
+
+const isPrivate = (address: string, family: number) => PRIVATE.check(address, family === 6 ? "ipv6" : "ipv4");
+
+// checkHost's answer can change by the time fetch resolves the name again (DNS
+// rebinding), so page fetches connect through a lookup that applies the same check.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+    const addresses = typeof address === "string" ? [{ address, family: family ?? 4 }] : address;
+    if (addresses.some((a) => isPrivate(a.address, a.family))) {
+      return callback(
+        Object.assign(new Error(`Refusing to fetch ${hostname}: not a public address`), { code: "EPRIVATE" }),
+        address,
+        family
+      );
+    }
+    callback(null, address, family);
+  });
+};
+
+const pageDispatcher = new Agent({ connect: { lookup: publicLookup } });
+
+// Every address the host resolves to has to be public. A name that doesn't
+// resolve is left for fetch to fail on.
+async function checkHost(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error(`Not an http(s) URL: ${url.href}`);
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true }).catch(() => []);
+  for (const { address, family } of addresses) {
+    if (isPrivate(address, family)) {
+      throw new Error(`Refusing to fetch ${url.hostname}: not a public address`);
+    }
+  }
+}
+
+// The body up to MAX_PAGE_BYTES; the rest of a larger page is dropped
+async function readCapped(res: Response): Promise<string> {
+  if (!res.body) return "";
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+  let bytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const room = MAX_PAGE_BYTES - bytes;
+    bytes += value.byteLength;
+    text += decoder.decode(value.subarray(0, room), { stream: true });
+    if (bytes >= MAX_PAGE_BYTES) {
+      await reader.cancel();
+      break;
+    }
+  }
+  return text + decoder.decode();
+}
+
+export async function fetchHtml(url: string): Promise<string> {
+  const signal = AbortSignal.timeout(PAGE_TIMEOUT_MS);
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    await checkHost(target);
+    // Node's fetch takes undici's `dispatcher`, which lib.dom's RequestInit doesn't list
+    const init: RequestInit & { dispatcher: Agent } = {
+      headers: BROWSER_HEADERS,
+      redirect: "manual",
+      signal,
+      dispatcher: pageDispatcher,
+    };
+    const res = await fetch(target.href, init);
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects for ${url}`);
+      target = new URL(location, target);
+      continue;
+    }
+
+    if (!res.ok) throw new Error(`Fetch failed (${res.status}) for ${url}`);
+    const type = res.headers.get("content-type") || "";
+    if (type && !/html|xml/i.test(type)) throw new Error(`Not an HTML page (${type})`);
+    return readCapped(res);
+  }
+}
+
+export function decodeEntities(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_m, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_m, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;|&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function attrs(tag: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/gi)) {
+    out[m[1].toLowerCase()] = m[2] ?? m[3] ?? "";
+  }
+  return out;
+}
+
+// <meta property="og:title" content="..."> / <meta name="description" ...>, any attribute order
+export function metaContent(html: string, key: string): string | undefined {
+  const want = key.toLowerCase();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const a = attrs(tag);
+    const k = (a.property ?? a.name ?? a.itemprop ?? "").toLowerCase();
+    if (k === want && a.content) return decodeEntities(a.content).trim() || undefined;
+  }
+  return undefined;
+}
+
+export function pageTitle(html: string): string | undefined {
+  const m = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return m ? decodeEntities(m[1]).replace(/\s+/g, " ").trim() || undefined : undefined;
+}
+
+// Contents of a <script> tag by id, parsed as JSON (Pinterest, Next.js-style pages)
+export function scriptJson(html: string, id: string): unknown {
+  const re = new RegExp(`<script[^>]*id=["']${id}["'][^>]*>([\\s\\S]*?)</script>`, "i");
+  const m = html.match(re);
+  if (!m) return null;
+  try {
+    return JSON.parse(m[1]);
+  } catch {
+    return null;
+  }
+}
+
+// Readable text of a page: prefers <article>/<main>, keeps block boundaries as newlines
+export function htmlToText(html: string, maxLen = 20000): string {
+  const body =
+    html.match(/<article[\s\S]*?<\/article>/i)?.[0] ??
+    html.match(/<main[\s\S]*?<\/main>/i)?.[0] ??
+    html.match(/<body[\s\S]*?<\/body>/i)?.[0] ??
+    html;
+
+  const text = body
+    .replace(/<(script|style|noscript|svg|nav|header|footer|aside|form|iframe)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(?:br|hr)\s*\/?>/gi, "\n")
+    .replace(/<\/?(?:p|div|li|ul|ol|h[1-6]|tr|section|blockquote|figcaption)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]+>/g, " ");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((l) => l.replace(/[ \t\f\v\r]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n")
+    .slice(0, maxLen);
+}
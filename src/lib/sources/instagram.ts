@@ -0,0 +1,36 @@
+// src/lib/sources/instagram.ts
+// Instagram Reels/posts: the public page's og: tags carry the caption.
+import type { SourceAdapter } from "@/lib/platform";
+import { fetchHtml, metaContent } from "@/lib/sources/html";
+
+// og:description looks like: `1,234 likes, 56 comments - chefname on March 3, 2024: "caption..."`
+export function parseInstagramDescription(desc: string): { author?: string; caption?: string } {
+  const m = desc.match(/-\s*([\w.]+)\s+on\s+[^:]+:\s*"([\s\S]*)"\s*\.?\s*$/);
+  if (m) return { author: m[1], caption: m[2].trim() };
+  return { caption: desc.trim() || undefined };
+}
+
+export const instagram: SourceAdapter = {
+  platform: "instagram",
+  matches: (u) => /(^|\.)instagram\.com$/.test(u.hostname) || u.hostname === "instagr.am",
+  async fetch(url) {
+    let title: string | undefined;
+    let author: string | undefined;
+    let text = "";
+    try {
+      const html = await fetchHtml(url);
+      const desc = metaContent(html, "og:description") ?? metaContent(html, "description") ?? "";
+      const parsed = parseInstagramDescription(desc);
+      author = parsed.author;
+      text = parsed.caption ?? "";
+
+      // og:title: `Chef Name on Instagram: "caption"`; keep the first caption line as title
+      const ogTitle = metaContent(html, "og:title");
+      author ??= ogTitle?.match(/^(.+?)\s+on Instagram/i)?.[1];
+      title = text.split("\n")[0]?.slice(0, 100) || ogTitle;
+    } catch (e: any) {
+      console.error("Instagram fetch failed:", e?.message ?? e);
+    }
+    return { platform: "instagram", title, author, text };
+  },
+};
@@ -0,0 +1,43 @@
+// src/lib/sources/pinterest.ts
+// Pinterest pins (incl. pin.it short links). The pin itself only has a short
+// description; when it links out to a recipe page we fetch that page too.
+import type { SourceAdapter } from "@/lib/platform";
+import { fetchHtml, metaContent, pageTitle } from "@/lib/sources/html";
+import { web } from "@/lib/sources/web";
+
+function resolveLink(href: string, base: string): URL | null {
+  try {
+    return new URL(href, base);
+  } catch {
+    return null;
+  }
+}
+
+export const pinterest: SourceAdapter = {
+  platform: "pinterest",
+  matches: (u) => /(^|\.)pinterest\.[a-z.]+$/.test(u.hostname) || u.hostname === "pin.it",
+  async fetch(url) {
+    let title: string | undefined;
+    let text = "";
+    let outbound: string | undefined;
+    try {
+      const html = await fetchHtml(url);
+      title = metaContent(html, "og:title") ?? pageTitle(html);
+      text = metaContent(html, "og:description") ?? metaContent(html, "description") ?? "";
+      outbound = metaContent(html, "pinterestapp:source") ?? metaContent(html, "og:see_also");
+    } catch (e: any) {
+      console.error("Pinterest fetch failed:", e?.message ?? e);
+    }
+
+    const link = outbound ? resolveLink(outbound, url) : null;
+    if (link && !pinterest.matches(link)) {
+      const linked = await web.fetch(link.toString());
+      if (linked.text) {
+        text = [text, `LINKED PAGE (${link}):\n${linked.text}`].filter(Boolean).join("\n\n");
+      }
+      title ??= linked.title;
+      return { platform: "pinterest", title, author: linked.author, text, recipe: linked.recipe, language: linked.language };
+    }
+    return { platform: "pinterest", title, text };
+  },
+};
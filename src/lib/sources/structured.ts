@@ -0,0 +1,231 @@
+// src/lib/sources/structured.ts
+// schema.org/Recipe markup (JSON-LD first, then microdata). Food blogs embed it
+// for Google's rich results, and it beats anything the heuristics can guess.
+import { parseIngredients } from "@/lib/ingredients";
+import { CONFIDENCE } from "@/lib/quality";
+import { linkRecipe, type Recipe, type RecipeTimes } from "@/lib/recipe";
+import { decodeEntities } from "@/lib/sources/html";
+
+// "PT1H30M" -> 90, "P0DT0H45M" -> 45, "PT90S" -> 2 (rounded up). null when unparseable.
+export function parseIsoDuration(s: unknown): number | null {
+  if (typeof s !== "string") return null;
+  const m = s
+    .trim()
+    .match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!m || !(m[1] || m[2] || m[3] || m[4])) return null;
+  const [d, h, min, sec] = m.slice(1).map((x) => Number(x || 0));
+  return Math.ceil(d * 1440 + h * 60 + min + sec / 60);
+}
+
+export function formatMinutes(min: number): string {
+  const h = Math.floor(min / 60);
+  const m = min % 60;
+  if (!h) return `${m} min`;
+  return m ? `${h} h ${m} min` : `${h} h`;
+}
+
+function describeTimes(t: RecipeTimes): string | undefined {
+  const parts = [
+    t.prepMin ? `Prep ${formatMinutes(t.prepMin)}` : "",
+    t.cookMin ? `Cook ${formatMinutes(t.cookMin)}` : "",
+    t.totalMin ? `Total ${formatMinutes(t.totalMin)}` : "",
+  ].filter(Boolean);
+  return parts.length ? parts.join(" · ") : undefined;
+}
+
+function textOf(v: unknown): string {
+  if (typeof v === "number") return String(v);
+  if (typeof v !== "string") return "";
+  return decodeEntities(v.replace(/<[^>]+>/g, " ")).replace(/\s+/g, " ").trim();
+}
+
+function asArray(v: unknown): unknown[] {
+  if (v === undefined || v === null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+// A JSON-LD object; every field is checked (textOf, asArray) before use
+type LdNode = Record<string, unknown>;
+
+function isNode(v: unknown): v is LdNode {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function hasType(node: LdNode, type: string): boolean {
+  return asArray(node["@type"]).some((t) => typeof t === "string" && t.replace(/^.*[/:]/, "") === type);
+}
+
+// ---------- JSON-LD ----------
+
+function findRecipeNode(node: unknown, depth = 0): LdNode | null {
+  if (depth > 6) return null;
+  if (Array.isArray(node)) {
+    for (const n of node) {
+      const hit = findRecipeNode(n, depth + 1);
+      if (hit) return hit;
+    }
+    return null;
+  }
+  if (!isNode(node)) return null;
+  if (hasType(node, "Recipe")) return node;
+  for (const key of ["@graph", "mainEntity", "mainEntityOfPage", "itemListElement", "item"]) {
+    const hit = findRecipeNode(node[key], depth + 1);
+    if (hit) return hit;
+  }
+  return null;
+}
+
+// HowToStep / HowToSection / ItemList / plain strings, flattened to step texts
+function instructionTexts(v: unknown, section?: string): string[] {
+  const out: string[] = [];
+  for (const item of asArray(v)) {
+    if (typeof item === "string") {
+      // some sites put every step in one string separated by newlines
+      for (const line of item.split(/\n+/)) {
+        const t = textOf(line);
+        if (t) out.push(section ? `${section}: ${t}` : t);
+      }
+    } else if (isNode(item)) {
+      if (hasType(item, "HowToSection") || (item.itemListElement && !item.text)) {
+        out.push(...instructionTexts(item.itemListElement, textOf(item.name) || section));
+      } else {
+        const t = textOf(item.text) || textOf(item.name) || textOf(item.description);
+        if (t) out.push(section ? `${section}: ${t}` : t);
+      }
+    }
+  }
+  return out;
+}
+
+function authorName(v: unknown): string | undefined {
+  for (const a of asArray(v)) {
+    const name = typeof a === "string" ? textOf(a) : textOf(isNode(a) ? a.name : undefined);
+    if (name) return name;
+  }
+  return undefined;
+}
+
+// recipeYield is "4", 4, "4 servings" or ["4", "4 servings"]; prefer the most descriptive
+function yieldText(v: unknown): string | undefined {
+  const all = asArray(v).map(textOf).filter(Boolean);
+  return all.find((y) => /[a-z]/i.test(y)) ?? all[0];
+}
+
+function buildRecipe(r: {
+  title: string;
+  ingredients: string[];
+  steps: string[];
+  servings?: string;
+  times: RecipeTimes;
+  author?: string;
+}): Recipe | null {
+  if (!r.ingredients.length && !r.steps.length) return null;
+  const hasTimes = Object.values(r.times).some(Boolean);
+  return linkRecipe({
+    title: r.title || "Recipe",
+    servings: r.servings,
+    time: describeTimes(r.times),
+    times: hasTimes ? r.times : undefined,
+    author: r.author,
+    ingredients: r.ingredients,
+    parsedIngredients: parseIngredients(r.ingredients).map((p) => ({
+      ...p,
+      confidence: CONFIDENCE.structured,
+    })),
+    steps: r.steps.map((s, i) => `${i + 1}. ${s}`),
+    stepDetails: r.steps.map((text) => ({ text, confidence: CONFIDENCE.structured })),
+    extractedBy: "structured",
+  });
+}
+
+function times(get: (key: string) => unknown): RecipeTimes {
+  const t: RecipeTimes = {};
+  const prep = parseIsoDuration(get("prepTime"));
+  const cook = parseIsoDuration(get("cookTime"));
+  const total = parseIsoDuration(get("totalTime"));
+  if (prep) t.prepMin = prep;
+  if (cook) t.cookMin = cook;
+  if (total) t.totalMin = total;
+  else if (prep || cook) t.totalMin = (prep ?? 0) + (cook ?? 0);
+  return t;
+}
+
+export function recipeFromJsonLd(html: string): Recipe | null {
+  const blocks = html.matchAll(
+    /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  );
+  for (const [, raw] of blocks) {
+    let json: unknown;
+    try {
+      // raw newlines inside strings are common and not valid JSON
+      json = JSON.parse(raw.trim().replace(/[\r\n\t]+/g, " "));
+    } catch {
+      continue;
+    }
+    const node = findRecipeNode(json);
+    if (!node) continue;
+
+    const recipe = buildRecipe({
+      title: textOf(node.name) || textOf(node.headline),
+      ingredients: asArray(node.recipeIngredient ?? node.ingredients).map(textOf).filter(Boolean),
+      steps: instructionTexts(node.recipeInstructions),
+      servings: yieldText(node.recipeYield),
+      times: times((k) => node[k]),
+      author: authorName(node.author),
+    });
+    if (recipe) return recipe;
+  }
+  return null;
+}
+
+// ---------- microdata ----------
+
+function itempropValues(scope: string, prop: string): string[] {
+  const out: string[] = [];
+  const re = new RegExp(
+    `<(\\w+)\\b([^>]*\\bitemprop=["'][^"']*\\b${prop}\\b[^"']*["'][^>]*)>(?:([\\s\\S]*?)</\\1>)?`,
+    "gi"
+  );
+  for (const m of scope.matchAll(re)) {
+    const attrs = m[2];
+    // <meta content>, <time datetime>, <link href> carry the value in an attribute
+    const attr = attrs.match(/\b(?:content|datetime)=["']([^"']*)["']/i)?.[1];
+    const v = attr !== undefined ? textOf(attr) : textOf(m[3] ?? "");
+    if (v) out.push(v);
+  }
+  return out;
+}
+
+export function recipeFromMicrodata(html: string): Recipe | null {
+  const start = html.search(/itemtype=["']https?:\/\/schema\.org\/Recipe["']/i);
+  if (start === -1) return null;
+  const scope = html.slice(html.lastIndexOf("<", start));
+
+  // recipeInstructions is either one element per step or one block with <li>s
+  const stepBlocks = [
+    ...scope.matchAll(
+      /<(\w+)\b[^>]*\bitemprop=["'][^"']*\brecipeInstructions\b[^"']*["'][^>]*>([\s\S]*?)<\/\1>/gi
+    ),
+  ].map((m) => m[2]);
+  const steps = stepBlocks.flatMap((block) => {
+    const items = [...block.matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi)].map((m) => textOf(m[1]));
+    return items.length ? items : [textOf(block)];
+  });
+
+  const first = (prop: string) => itempropValues(scope, prop)[0];
+  return buildRecipe({
+    title: first("name") ?? "",
+    ingredients: [
+      ...itempropValues(scope, "recipeIngredient"),
+      ...itempropValues(scope, "ingredients"),
+    ],
+    steps: steps.filter(Boolean),
+    servings: first("recipeYield"),
+    times: times((k) => first(k)),
+    author: first("author"),
+  });
+}
+
+export function structuredRecipe(html: string): Recipe | null {
+  return recipeFromJsonLd(html) ?? recipeFromMicrodata(html);
+}
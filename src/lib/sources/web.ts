@@ -0,0 +1,56 @@
+// src/lib/sources/web.ts
+// Catch-all for plain recipe blogs and any other http(s) page.
+import { parseIngredient } from "@/lib/ingredients";
+import { baseLanguage, detectLanguage, rulesFor, wordsPattern } from "@/lib/locales";
+import type { SourceAdapter } from "@/lib/platform";
+import type { Recipe } from "@/lib/recipe";
+import { fetchHtml, htmlToText, metaContent, pageTitle } from "@/lib/sources/html";
+import { structuredRecipe } from "@/lib/sources/structured";
+
+const MIN_MEASURED_LINES = 3;
+
+// A page's text only counts when it reads like a recipe: an ingredients heading
+// over a line with a quantity, or a few measured lines ("2 cups flour"). A video
+// page on a host we have no adapter for is mostly menus and footer; its text goes
+// back empty so Whisper gets the video instead.
+function looksLikeRecipe(text: string, language?: string) {
+  const rules = rulesFor(language ?? detectLanguage(text));
+  const header = new RegExp(`^\\s*${wordsPattern(rules.flatMap((r) => r.ingredientHeaders))}\\s*:?\\s*$`, "imu");
+  const lines = text
+    .split("\n")
+    .filter((line) => line.length < 120)
+    .map((line) => parseIngredient(line))
+    .filter((p) => p.quantity !== undefined);
+  const measured = lines.filter((p) => p.unit !== undefined).length;
+  return measured >= MIN_MEASURED_LINES || (lines.length > 0 && header.test(text));
+}
+
+export const web: SourceAdapter = {
+  platform: "web",
+  matches: (u) => u.protocol === "http:" || u.protocol === "https:",
+  async fetch(url) {
+    let title: string | undefined;
+    let author: string | undefined;
+    let text = "";
+    let recipe: Recipe | undefined;
+    let language: string | undefined;
+    try {
+      const html = await fetchHtml(url);
+      title = metaContent(html, "og:title") ?? pageTitle(html);
+      author = metaContent(html, "author") ?? metaContent(html, "article:author");
+      const description = metaContent(html, "og:description") ?? metaContent(html, "description");
+      const pageText = [description, htmlToText(html)].filter(Boolean).join("\n\n");
+      language = baseLanguage(html.match(/<html\b[^>]*\blang=["']?([\w-]+)/i)?.[1]);
+      recipe = structuredRecipe(html) ?? undefined;
+      if (recipe || looksLikeRecipe(pageText, language)) text = pageText;
+      if (recipe) {
+        recipe.author ??= author;
+        recipe.sourceUrl = url;
+        recipe.language ??= language;
+      }
+    } catch (e: any) {
+      console.error("Web page fetch failed:", e?.message ?? e);
+    }
+    return { platform: "web", title, author, text, recipe, language };
+  },
+};
@@ -0,0 +1,323 @@
+// Step building for the heuristic extractor. Sources arrive as punctuated prose
+// (Whisper, descriptions), unpunctuated caption lines, or timed segments; all of
+// them are cut into pieces, regrouped into one unit per action (discourse
+// markers, leading verbs, pauses), stripped of chit-chat and sponsor reads, and
+// kept as steps when they contain a cooking verb.
+import { isPromo } from "@/lib/clean";
+import { wordsPattern, type LocaleRules } from "@/lib/locales";
+import { CONFIDENCE, type Confidence } from "@/lib/quality";
+import type { TranscriptSegment } from "@/lib/segments";
+
+export type StepDuration = { minutes: number; maxMinutes?: number; text: string }; // "10-12 minutes" -> 10, 12
+export type StepTemperature = { value: number; unit: "C" | "F"; text: string };
+export type HeatLevel = "low" | "medium-low" | "medium" | "medium-high" | "high";
+
+export type StepTiming = { duration?: StepDuration; temperature?: StepTemperature; heat?: HeatLevel };
+
+export type BuiltStep = { text: string; confidence: Confidence };
+
+const MAX_STEPS = 18;
+const GAP_SECONDS = 1.5; // a pause this long between caption segments ends an instruction
+const LONG_UNIT = 160; // units longer than this are cut again at markers and verbs
+
+// How a piece relates to the one before it: "hard" always starts a new unit
+// (sentence end, list item, blank line), "gap" unless it plainly continues, "soft"
+// only at a marker or leading verb.
+type Break = "hard" | "gap" | "soft";
+type Piece = { text: string; break: Break };
+
+// Words a clause can't end on, and words that carry a fragment on from the last one.
+// "in"/"on" are left out: they end plenty of clauses ("stir in", "with the lid on")
+const TRAILING = new Set(
+  ("and or with of the a an to into until till for plus but your some " +
+    "y o con de la el los las en hasta e di il fino et avec des jusqu und mit bis aur").split(" ")
+);
+const LEADING = new Set("and or with until till plus y o con hasta e et avec und mit bis aur".split(" "));
+
+// "these smash burgers", "over medium heat": the verb is a noun here
+const NOUN_BEFORE = new Set(
+  "the a an these this those that my your our their some of medium high low el la los las il le der die das".split(" ")
+);
+// "let it cook", "you're gonna add": the verb belongs to the clause before
+const NO_CUT_BEFORE = new Set(
+  [...TRAILING, ..."it them let will gonna can you we i i'll we'll you'll just to then".split(" ")]
+);
+
+const SECTION = /^(TITLE|AUTHOR|SOURCE TEXT|ON-SCREEN TEXT|PASTED TEXT):[ \t]*/gm;
+const LIST_ITEM = /^\s*(?:\d{1,2}[.)]|[-–•*])\s+/;
+const FILLER_LEAD = /^(?:(?:okay|ok|alright|all right|so|um|uh|well|guys)\b[,!]?\s*)+/i;
+
+// Chatter that mentions a verb in passing ("now I'm gonna add a little love"); only short units
+const FILLER =
+  /\b(?:a little (?:bit of )?love|so good|trust me|what's up|hey guys|welcome back|today we're (?:making|doing)|i'm gonna show you)\b/i;
+const FILLER_MAX_WORDS = 12;
+
+function clean(s: string) {
+  return s.replace(/\s+/g, " ").trim();
+}
+
+function wordsOf(s: string) {
+  return s.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+}
+
+// ---------- pieces ----------
+
+// Labelled sections of the combined text (see combinedText in extract.ts); one
+// unlabelled section when the text has no labels
+function sections(text: string): { label?: string; body: string }[] {
+  const found = [...text.matchAll(SECTION)];
+  if (!found.length) return [{ body: text }];
+  return found.map((m, i) => ({
+    label: m[1],
+    body: text.slice(m.index + m[0].length, found[i + 1]?.index ?? text.length),
+  }));
+}
+
+function sentences(line: string) {
+  return line
+    .split(/(?<=[.!?])\s+|\s+[–•]\s+|\s+-\s+/)
+    .map(clean)
+    .filter(Boolean);
+}
+
+function piecesFromText(body: string, everyLine = false): Piece[] {
+  const out: Piece[] = [];
+  let blank = true;
+  for (const raw of body.split("\n")) {
+    if (!raw.trim()) {
+      blank = true;
+      continue;
+    }
+    const listed = LIST_ITEM.test(raw);
+    sentences(raw.replace(LIST_ITEM, "")).forEach((text, i) => {
+      const prev = out.at(-1)?.text ?? "";
+      const hard = everyLine || blank || listed || i > 0 || /[.!?:]$/.test(prev);
+      out.push({ text, break: hard ? "hard" : "soft" });
+    });
+    blank = false;
+  }
+  return out;
+}
+
+function piecesFromSegments(segments: TranscriptSegment[]): Piece[] {
+  const out: Piece[] = [];
+  segments.forEach((seg, n) => {
+    const gap = n > 0 && seg.start - segments[n - 1].end >= GAP_SECONDS;
+    sentences(seg.text.replace(/\n+/g, " ")).forEach((text, i) => {
+      const prev = out.at(-1)?.text ?? "";
+      const hard = i > 0 || /[.!?]$/.test(prev);
+      out.push({ text, break: hard ? "hard" : gap ? "gap" : "soft" });
+    });
+  });
+  return out;
+}
+
+// ---------- units ----------
+
+type Matchers = {
+  verb: RegExp; // global, for scanning
+  leadingVerb: RegExp;
+  marker: RegExp; // global
+  leadingMarker: RegExp;
+  verbFinal: boolean;
+};
+
+function matchers(rules: LocaleRules[]): Matchers {
+  const verbs = wordsPattern(rules.flatMap((r) => r.verbs));
+  const markers = wordsPattern(rules.flatMap((r) => r.markers));
+  return {
+    verb: new RegExp(verbs, "giu"),
+    leadingVerb: new RegExp(`^${verbs}`, "iu"),
+    marker: new RegExp(markers, "giu"),
+    leadingMarker: new RegExp(`^(?:${markers})[,:]?\\s*`, "iu"),
+    verbFinal: rules.length > 0 && rules.every((r) => r.verbFinal),
+  };
+}
+
+function lastWord(s: string) {
+  return wordsOf(s).at(-1) ?? "";
+}
+
+// Strip filler and markers off the front: "okay so now then add ..." -> "add ..."
+function bare(text: string, m: Matchers) {
+  let s = text;
+  for (let prev = ""; prev !== s; ) {
+    prev = s;
+    s = s.replace(FILLER_LEAD, "").replace(m.leadingMarker, "");
+  }
+  return s;
+}
+
+// Verb positions that read as a verb, not a noun ("these smash burgers")
+function verbHits(text: string, m: Matchers): number[] {
+  return [...text.matchAll(m.verb)]
+    .filter((hit) => !NOUN_BEFORE.has(lastWord(text.slice(0, hit.index))))
+    .map((hit) => hit.index);
+}
+
+function continues(unit: string, piece: string) {
+  return TRAILING.has(lastWord(unit)) || LEADING.has(wordsOf(piece)[0] ?? "");
+}
+
+function group(pieces: Piece[], m: Matchers): string[] {
+  const units: string[] = [];
+  for (const piece of pieces) {
+    const current = units.at(-1);
+    // chatter starts its own unit so it doesn't take the instruction before it down with it
+    const startsAction =
+      m.leadingMarker.test(piece.text) || m.leadingVerb.test(bare(piece.text, m)) || isChatter(piece.text);
+    const fresh =
+      current === undefined ||
+      piece.break === "hard" ||
+      (piece.break === "gap" && (startsAction || !continues(current, piece.text))) ||
+      (piece.break === "soft" && startsAction && !TRAILING.has(lastWord(current)));
+    if (fresh) units.push(piece.text);
+    else units[units.length - 1] = `${current} ${piece.text}`;
+  }
+  return units;
+}
+
+// Cut a run-on at markers and, outside verb-final languages, at verbs that start a clause
+function split(unit: string, m: Matchers): string[] {
+  if (unit.length <= LONG_UNIT) return [unit];
+  const cuts = new Set<number>();
+  for (const hit of unit.matchAll(m.marker)) if (hit.index > 0) cuts.add(hit.index);
+  if (!m.verbFinal) {
+    for (const at of verbHits(unit, m)) {
+      const before = unit.slice(0, at);
+      if (at > 0 && !NO_CUT_BEFORE.has(lastWord(before))) cuts.add(at);
+    }
+  }
+  const out: string[] = [];
+  let from = 0;
+  for (const at of [...cuts].sort((a, b) => a - b)) {
+    // a cut that would leave a word or two behind isn't worth making
+    if (wordsOf(unit.slice(from, at)).length < 3) continue;
+    out.push(unit.slice(from, at));
+    from = at;
+  }
+  out.push(unit.slice(from));
+  return out.map(clean).filter(Boolean);
+}
+
+function tidy(unit: string, m: Matchers) {
+  let s = clean(bare(unit, m)).replace(/^[,;:\s]+/, "");
+  // a cut can leave the joiner that led into the next clause: "season with salt and"
+  while (TRAILING.has(lastWord(s)) && /[\p{L}']$/u.test(s)) s = s.replace(/[,\s]*[\p{L}']+$/u, "");
+  return s.charAt(0).toLocaleUpperCase() + s.slice(1);
+}
+
+function isChatter(text: string) {
+  // promo lines are never a step, however cooking-ish they sound
+  return isPromo(text) || (wordsOf(text).length <= FILLER_MAX_WORDS && FILLER.test(text));
+}
+
+// ---------- steps ----------
+
+export function buildSteps(
+  text: string,
+  opts: { rules: LocaleRules[]; segments?: TranscriptSegment[] }
+): BuiltStep[] {
+  const m = matchers(opts.rules);
+  const units: string[] = [];
+  const all = sections(text);
+  for (const { label, body } of all) {
+    if (label === "TITLE" || label === "AUTHOR") continue;
+    const timed = opts.segments?.length && (label === "SOURCE TEXT" || all.length === 1);
+    const pieces = timed
+      ? piecesFromSegments(opts.segments!)
+      : piecesFromText(body, label === "ON-SCREEN TEXT");
+    units.push(...group(pieces, m).flatMap((u) => split(u, m)));
+  }
+
+  const steps: BuiltStep[] = [];
+  const others: string[] = [];
+  let lastWasStep = false;
+  for (const unit of units) {
+    const step = tidy(unit, m);
+    if (step.length < 3 || isChatter(step)) {
+      lastWasStep = false;
+      continue;
+    }
+    if (verbHits(step, m).length) {
+      const confidence = m.leadingVerb.test(step) ? CONFIDENCE.leadingVerb : CONFIDENCE.cookingVerb;
+      steps.push({ text: step, confidence });
+      lastWasStep = true;
+    } else if (lastWasStep && LEADING.has(wordsOf(unit)[0] ?? "")) {
+      // "pour in the tomatoes" + "and a cup of broth"
+      steps[steps.length - 1].text += ` ${unit.trim()}`;
+    } else {
+      others.push(step);
+      lastWasStep = false;
+    }
+  }
+
+  const picked = steps.length
+    ? steps
+    : others.map((s) => ({ text: s, confidence: CONFIDENCE.fallbackSentence }));
+  const seen = new Set<string>();
+  return picked.filter((s) => !seen.has(s.text) && seen.add(s.text)).slice(0, MAX_STEPS);
+}
+
+// ---------- timing ----------
+
+const NUM = "(\\d+(?:[.,]\\d+)?|\\d+\\s*\\/\\s*\\d+)";
+const RANGE = "\\s*(?:-|–|to|or|a|à|bis)\\s*";
+const HOURS = "(?:hours?|hrs?|h|horas?|ore|ora|heures?|stunden?|std|ghante|ghanta)";
+const MINUTES = "(?:minutes?|mins?|minutos?|minuti|minuten|minat|min)";
+const SECONDS = "(?:seconds?|secs?|segundos?|secondi|secondes?|sekunden?)";
+const END = "(?![\\p{L}])";
+
+const DURATION = new RegExp(
+  `${NUM}(?:${RANGE}${NUM})?\\s*(${HOURS}|${MINUTES}|${SECONDS})${END}(?:\\s*(?:and|y|e|et|und)?\\s*${NUM}\\s*${MINUTES}${END})?`,
+  "iu"
+);
+const TEMPERATURE = new RegExp(
+  `(\\d{2,3})\\s*(?:°|º|degrees?|grados|gradi|degrés|grad)\\s*(c|f|celsius|fahrenheit)?${END}`,
+  "iu"
+);
+
+const HEAT: [RegExp, HeatLevel][] = [
+  [/\bmedium[- ]high\b|\bmedio[- ]alto\b|\bmittlere[rn]? bis hohe[rn]?\b/i, "medium-high"],
+  [/\bmedium[- ]low\b|\bmedio[- ]bajo\b/i, "medium-low"],
+  [/\b(?:high|full) heat\b|\bfuego (?:alto|fuerte)\b|\bfuoco (?:alto|vivace)\b|\bfeu vif\b|\b(?:hoher|starker) hitze\b|\btez aanch\b/iu, "high"],
+  [/\blow heat\b|\bfuego (?:bajo|lento)\b|\bfuoco (?:basso|dolce)\b|\bfeu doux\b|\b(?:niedriger|schwacher) hitze\b|\bdheemi aanch\b/iu, "low"],
+  [/\bmedium heat\b|\bfuego medio\b|\bfuoco medio\b|\bfeu moyen\b|\bmittlerer hitze\b|\bmedium aanch\b/iu, "medium"],
+];
+
+function amount(s: string) {
+  const frac = s.match(/^(\d+)\s*\/\s*(\d+)$/);
+  return frac ? Number(frac[1]) / Number(frac[2]) : Number(s.replace(",", "."));
+}
+
+function toMinutes(n: number, unit: string) {
+  const u = unit.toLowerCase();
+  const factor = new RegExp(`^${HOURS}$`, "i").test(u) ? 60 : new RegExp(`^${SECONDS}$`, "i").test(u) ? 1 / 60 : 1;
+  return Math.round(n * factor * 100) / 100;
+}
+
+// Times, oven temperatures and stovetop heat mentioned in a step; the first of each
+export function parseStepTiming(text: string): StepTiming {
+  const out: StepTiming = {};
+
+  const d = text.match(DURATION);
+  if (d) {
+    const [, lo, hi, unit, extra] = d;
+    const plus = extra ? amount(extra) : 0;
+    out.duration = { minutes: toMinutes(amount(lo), unit) + plus, text: clean(d[0]) };
+    if (hi) out.duration.maxMinutes = toMinutes(amount(hi), unit) + plus;
+  }
+
+  const t = text.match(TEMPERATURE);
+  if (t) {
+    const value = Number(t[1]);
+    const scale = t[2]?.[0].toUpperCase();
+    // bare "350 degrees" is an American oven; "180 degrees" a metric one
+    const unit = scale === "C" || scale === "F" ? scale : value > 230 ? "F" : "C";
+    out.temperature = { value, unit, text: clean(t[0]) };
+  }
+
+  const heat = HEAT.find(([re]) => re.test(text))?.[1];
+  if (heat) out.heat = heat;
+  return out;
+}
@@ -0,0 +1,149 @@
+// Unit conversion for parsed ingredients. Units are the normalized names from
+// ingredients.ts ("cup", "tbsp", "g", ...).
+
+export type UnitSystem = "metric" | "imperial";
+
+// millilitres per unit
+const VOLUME: Record<string, number> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  "fl oz": 29.5735,
+  cup: 236.588,
+  ml: 1,
+  l: 1000,
+};
+
+// grams per unit
+const MASS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+// g/ml for things people measure by the cup; checked in order, first keyword hit wins
+const DENSITY: [RegExp, number][] = [
+  [/\b(powdered|icing|confectioners'?)\s+sugar\b/i, 0.51],
+  [/\bbrown\s+sugar\b/i, 0.93],
+  [/\bsugar\b/i, 0.85],
+  [/\b(almond|coconut)\s+flour\b/i, 0.41],
+  [/\b(bread|whole\s*wheat|all[- ]purpose|plain|self[- ]raising|cake)?\s*flour\b/i, 0.53],
+  [/\b(cornstarch|corn\s*flour|cornflour)\b/i, 0.54],
+  [/\bcocoa\b/i, 0.42],
+  [/\b(rolled\s+)?oats\b/i, 0.38],
+  [/\brice\b/i, 0.8],
+  [/\bbutter\b/i, 0.96],
+  [/\bhoney|maple\s+syrup|syrup\b/i, 1.4],
+  [/\b(kosher\s+)?salt\b/i, 1.2],
+  [/\bbaking\s+(soda|powder)\b/i, 0.9],
+  [/\b(grated|shredded)\b.*\bcheese\b|\bparmesan\b/i, 0.42],
+  [/\b(chocolate\s+chips?)\b/i, 0.72],
+  [/\b(breadcrumbs|panko)\b/i, 0.25],
+  [/\b(yogurt|yoghurt|sour\s+cream)\b/i, 1.03],
+  [/\b(milk|cream|buttermilk)\b/i, 1.03],
+  [/\b(oil)\b/i, 0.92],
+  [/\bwater|stock|broth\b/i, 1],
+];
+
+export function densityFor(item: string): number | undefined {
+  return DENSITY.find(([re]) => re.test(item))?.[1];
+}
+
+export function isVolume(unit?: string) {
+  return !!unit && unit in VOLUME;
+}
+
+export function isMass(unit?: string) {
+  return !!unit && unit in MASS;
+}
+
+// Liquids stay liquid in metric (ml), everything with a density becomes grams
+export function isLiquid(item: string) {
+  return /\b(milk|cream|water|stock|broth|oil|juice|vinegar|wine|sauce|syrup)\b/i.test(item);
+}
+
+export function toMl(qty: number, unit: string, item = ""): number | undefined {
+  if (unit in VOLUME) return qty * VOLUME[unit];
+  const d = densityFor(item);
+  if (unit in MASS && d) return (qty * MASS[unit]) / d;
+  return undefined;
+}
+
+export function toGrams(qty: number, unit: string, item = ""): number | undefined {
+  if (unit in MASS) return qty * MASS[unit];
+  const d = densityFor(item);
+  if (unit in VOLUME && d) return qty * VOLUME[unit] * d;
+  return undefined;
+}
+
+function roundMetric(n: number) {
+  if (n >= 100) return Math.round(n / 5) * 5;
+  if (n >= 10) return Math.round(n);
+  return Math.round(n * 10) / 10;
+}
+
+function roundTo(n: number, step: number) {
+  return Math.max(step, Math.round(n / step) * step);
+}
+
+// Best kitchen unit for an amount in ml, US-style
+function imperialVolume(ml: number): { quantity: number; unit: string } {
+  if (ml >= VOLUME.cup / 4) return { quantity: roundTo(ml / VOLUME.cup, 0.25), unit: "cup" };
+  if (ml >= VOLUME.tbsp) return { quantity: roundTo(ml / VOLUME.tbsp, 0.5), unit: "tbsp" };
+  return { quantity: roundTo(ml / VOLUME.tsp, 0.125), unit: "tsp" };
+}
+
+export type Converted = { quantity: number; quantityMax?: number; unit: string };
+
+// An amount in grams/millilitres in the unit a cook of that system would use
+export function fromGrams(g: number, system: UnitSystem): Converted {
+  if (system === "metric") {
+    return g >= 1000 ? { quantity: roundMetric(g / 1000), unit: "kg" } : { quantity: roundMetric(g), unit: "g" };
+  }
+  return g >= MASS.lb
+    ? { quantity: roundTo(g / MASS.lb, 0.25), unit: "lb" }
+    : { quantity: roundTo(g / MASS.oz, 0.5), unit: "oz" };
+}
+
+export function fromMl(ml: number, system: UnitSystem): Converted {
+  if (system === "metric") {
+    return ml >= 1000 ? { quantity: roundMetric(ml / 1000), unit: "l" } : { quantity: roundMetric(ml), unit: "ml" };
+  }
+  return imperialVolume(ml);
+}
+
+// Convert one amount to the target system. Returns null when there is nothing to
+// do: units with no conversion (clove, pinch, can, none) or already in that system.
+export function convertAmount(
+  amount: { quantity: number; quantityMax?: number; unit?: string },
+  item: string,
+  system: UnitSystem
+): Converted | null {
+  const { unit } = amount;
+  if (!unit || !(isVolume(unit) || isMass(unit))) return null;
+
+  const convert = (qty: number): Converted | null => {
+    if (system === "metric") {
+      if (unit === "g" || unit === "kg" || unit === "ml" || unit === "l") return null;
+      // dry goods by weight, liquids by volume
+      const g = !isLiquid(item) ? toGrams(qty, unit, item) : undefined;
+      if (g !== undefined) return fromGrams(g, "metric");
+      const ml = toMl(qty, unit, item);
+      return ml === undefined ? null : fromMl(ml, "metric");
+    }
+
+    if (!(unit === "g" || unit === "kg" || unit === "ml" || unit === "l")) return null;
+    // with a density, cups/spoons are what an imperial cook reaches for
+    const ml = toMl(qty, unit, item);
+    if (ml !== undefined) return fromMl(ml, "imperial");
+    return fromGrams(toGrams(qty, unit, item)!, "imperial");
+  };
+
+  const lo = convert(amount.quantity);
+  if (!lo) return null;
+  if (amount.quantityMax === undefined) return lo;
+  const hi = convert(amount.quantityMax);
+  // keep a range in one unit: convert the max with the same factor as the min
+  const factor = lo.quantity / amount.quantity;
+  return { ...lo, quantityMax: hi && hi.unit === lo.unit ? hi.quantity : amount.quantityMax * factor };
+}
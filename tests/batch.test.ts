@@ -0,0 +1,145 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET as listRoute, POST as createRoute } from "@/app/api/batch/route";
+import { cancelBatch, createBatch, getBatch, resumeBatches } from "@/lib/server/batch";
+import { enqueueJob } from "@/lib/server/jobs";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+const VIDEO = "https://www.youtube.com/watch?v=aBcDeFgHiJk";
+const OPTIONS = { whisperModel: "tiny", forceRefresh: false };
+
+// Lets a test make writes fail, as on a full or read-only disk
+const fail = vi.hoisted(() => ({ write: false }));
+vi.mock("@/lib/server/jsonFile", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/server/jsonFile")>();
+  return {
+    ...actual,
+    writeJsonFile: async (file: string, data: unknown) => {
+      if (fail.write) throw new Error("ENOSPC: no space left on device");
+      return actual.writeJsonFile(file, data);
+    },
+  };
+});
+
+// Resolves once open() is called
+function gate() {
+  let open!: () => void;
+  const opened = new Promise<void>((resolve) => (open = resolve));
+  return { opened, open };
+}
+
+describe("batches", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+    vi.stubEnv("LLM_BASE_URL", "");
+    vi.stubEnv("JOB_CONCURRENCY", "1");
+  });
+  afterEach(async () => {
+    // a batch saves once more after its last item; let that land in `dir`
+    await sleep(100);
+    fail.write = false;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("waits for a job slot like any other job", async () => {
+    const { fn } = mockFetch(youtubeRoutes());
+    const other = gate();
+    enqueueJob("transcribe", () => other.opened);
+
+    const batch = await createBatch([VIDEO], OPTIONS);
+    await vi.waitFor(() => expect(batch.items[0]?.status).toBe("running"));
+    await sleep(50);
+    expect(fn).not.toHaveBeenCalled();
+
+    other.open();
+    await vi.waitFor(() => expect(batch.status).toBe("done"));
+    expect(batch.items[0].status).toBe("done");
+  });
+
+  it("defaults to the WHISPER_MODEL single extractions use", async () => {
+    mockFetch(youtubeRoutes());
+    vi.stubEnv("WHISPER_MODEL", "small");
+    const res = await createRoute(
+      new Request("http://localhost/api/batch", { method: "POST", body: JSON.stringify({ urls: [VIDEO] }) })
+    );
+    const batch = await getBatch((await res.json()).batchId);
+    expect(batch?.options.whisperModel).toBe("small");
+    await vi.waitFor(() => expect(batch?.status).toBe("done"));
+  });
+
+  it("lists and resumes the other batches when one file is corrupt", async () => {
+    mockFetch(youtubeRoutes());
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await mkdir(path.join(dir, "batches"), { recursive: true });
+    await writeFile(path.join(dir, "batches", "broken.json"), "{ not json", "utf8");
+    const unfinished = {
+      id: "unfinished",
+      status: "running",
+      createdAt: 1,
+      updatedAt: 1,
+      inputs: [VIDEO],
+      options: OPTIONS,
+      items: [{ url: VIDEO, status: "running", attempts: 1 }],
+    };
+    await writeFile(path.join(dir, "batches", "unfinished.json"), JSON.stringify(unfinished), "utf8");
+
+    const res = await listRoute();
+    expect(res.status).toBe(200);
+    expect((await res.json()).batches.map((b: { id: string }) => b.id)).toEqual(["unfinished"]);
+    expect(await resumeBatches()).toEqual(["unfinished"]);
+    await vi.waitFor(async () => expect((await getBatch("unfinished"))?.status).toBe("done"));
+  });
+
+  it("keeps going when the batch file can't be written", async () => {
+    mockFetch(youtubeRoutes());
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const batch = await createBatch([VIDEO, "https://youtu.be/aBcDeFgHiJk"], OPTIONS);
+    fail.write = true;
+
+    await vi.waitFor(() => expect(batch.status).toBe("done"));
+    expect(batch.items.map((i) => i.status)).toEqual(["done", "done"]);
+    expect(console.error).toHaveBeenCalledWith(`batch ${batch.id} not saved:`, "ENOSPC: no space left on device");
+  });
+
+  it("keeps a cancelled item cancelled when its extraction finishes anyway", async () => {
+    vi.stubEnv("LLM_BASE_URL", "http://llm.test/v1");
+    const reply = { title: "Garlic shrimp", ingredients: ["1 lb shrimp"], steps: ["Cook the shrimp."] };
+    const { fn } = mockFetch(
+      youtubeRoutes([
+        {
+          match: /llm\.test\/v1\/chat\/completions/,
+          body: JSON.stringify({ choices: [{ message: { content: JSON.stringify(reply) } }] }),
+          contentType: "application/json",
+        },
+      ])
+    );
+    // the LLM call doesn't watch the batch's signal
+    const llm = gate();
+    const llmCalled = vi.fn();
+    vi.stubGlobal("fetch", async (...args: Parameters<typeof fn>) => {
+      if (String(args[0]).includes("llm.test")) {
+        llmCalled();
+        await llm.opened;
+      }
+      return fn(...args);
+    });
+
+    const batch = await createBatch([VIDEO], OPTIONS);
+    await vi.waitFor(() => expect(llmCalled).toHaveBeenCalled());
+    await cancelBatch(batch.id);
+    llm.open();
+    await sleep(300);
+
+    const item = (await getBatch(batch.id))!.items[0];
+    expect(item.status).toBe("cancelled");
+    expect(item.result).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cleanTranscript } from "@/lib/clean";
+import type { TranscriptSegment } from "@/lib/segments";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { loadSkipSpans } from "@/lib/server/sponsorBlock";
+import { recorder } from "./helpers/bins";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+const WHISPER = [
+  "Hey guys, welcome back to the channel!",
+  "Preheat the oven to 200°C and line a tray with baking paper.",
+  "But first, this video is sponsored by HelloSpice.",
+  "Go to hellospice.com and use code CHEF for 20% off your first box.",
+  "Anyway, back to the recipe.",
+  "Toss the potatoes with 2 tbsp olive oil and salt.",
+  "Roast for 35 minutes until crisp.",
+  "If you liked this one, hit subscribe and I'll see you next week.",
+].join(" ");
+
+function timed(lines: [number, number, string][]): TranscriptSegment[] {
+  return lines.map(([start, end, text]) => ({ start, end, text }));
+}
+
+describe("cleanTranscript", () => {
+  it("cuts intros, sponsor reads through the hand-back, and calls to action", () => {
+    const { text, removed, removedChars } = cleanTranscript({ text: WHISPER });
+
+    expect(text).toBe(
+      "Preheat the oven to 200°C and line a tray with baking paper. " +
+        "Toss the potatoes with 2 tbsp olive oil and salt. Roast for 35 minutes until crisp."
+    );
+    expect(removed.map((r) => r.category)).toEqual(["intro", "sponsor", "interaction"]);
+    expect(removed[1].text).toBe("But first, this video is sponsored by HelloSpice.");
+    expect(removedChars).toBe(WHISPER.length - text.length - 5); // not counting the spaces between sentences
+  });
+
+  it("keeps description lines that merely follow a sponsor mention", () => {
+    const description = "Sponsored by HelloSpice.\n\nINGREDIENTS\n2 cups flour\n1 tsp salt";
+    expect(cleanTranscript({ text: description }).text).toBe("INGREDIENTS\n2 cups flour\n1 tsp salt");
+  });
+
+  it("leaves greetings with quantities alone", () => {
+    const text = "Hi everyone, grab 2 cups of rice for this one. Rinse the rice.";
+    expect(cleanTranscript({ text })).toMatchObject({ text, removed: [], removedChars: 0 });
+  });
+
+  it("blanks timed segments in place, by phrase and by skip span", () => {
+    const segments = timed([
+      [0, 3, "what's up everybody"],
+      [3, 6, "melt the butter in a pan"],
+      [6, 9, "quick word from our sponsor"],
+      [9, 12, "they make great knives"],
+      [12, 15, "add the onions and cook until soft"],
+    ]);
+    const { text, segments: kept, removed } = cleanTranscript({ text: "", segments }, [
+      { start: 6, end: 12, category: "sponsor" },
+    ]);
+
+    expect(kept?.map((s) => s.text)).toEqual(["", "melt the butter in a pan", "", "", "add the onions and cook until soft"]);
+    expect(kept?.map((s) => s.start)).toEqual([0, 3, 6, 9, 12]);
+    expect(text).toBe("melt the butter in a pan add the onions and cook until soft");
+    expect(removed).toEqual([
+      { category: "intro", by: "phrase", text: "what's up everybody", start: 0, end: 3 },
+      { category: "sponsor", by: "sponsorblock", text: "quick word from our sponsor", start: 6, end: 12 },
+    ]);
+  });
+});
+
+describe("SponsorBlock file", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function sponsorFile(data: unknown) {
+    const file = path.join(dir, "sponsorblock.json");
+    await writeFile(file, JSON.stringify(data));
+    vi.stubEnv("SPONSORBLOCK_FILE", file);
+  }
+
+  it("reads both file shapes and keeps the configured skip categories", async () => {
+    const segments = [
+      { segment: [10, 20], category: "sponsor", actionType: "skip" },
+      { segment: [0, 5], category: "intro" },
+      { segment: [40, 45], category: "music_offtopic" },
+      { segment: [50, 50], category: "poi_highlight", actionType: "poi" },
+    ];
+    await sponsorFile([{ videoID: "aBcDeFgHiJk", segments }, { videoID: "other", segments }]);
+    expect(await loadSkipSpans("aBcDeFgHiJk")).toEqual([
+      { start: 10, end: 20, category: "sponsor" },
+      { start: 0, end: 5, category: "intro" },
+    ]);
+
+    await sponsorFile({ aBcDeFgHiJk: segments });
+    vi.stubEnv("SPONSORBLOCK_CATEGORIES", "sponsor");
+    expect(await loadSkipSpans("aBcDeFgHiJk")).toEqual([{ start: 10, end: 20, category: "sponsor" }]);
+    expect(await loadSkipSpans("missing")).toEqual([]);
+  });
+
+  it("cuts its spans from the captions before extraction and logs what went", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    await sponsorFile({ aBcDeFgHiJk: [{ segment: [29, 34], category: "sponsor" }] });
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const { body } = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), push);
+
+    const done = steps.find((s) => s.step === "clean.done")?.data as any;
+    expect(done.removed.map((r: any) => [r.category, r.by])).toEqual([
+      ["intro", "phrase"],
+      ["sponsor", "sponsorblock"],
+    ]);
+    expect(done.removedChars).toBeGreaterThan(0);
+    const recipeSteps = (body.recipe as any).steps.join("\n");
+    expect(recipeSteps).not.toMatch(/toss the pasta/i);
+    expect(recipeSteps).toMatch(/melt 3 tablespoons butter/i);
+    // the response still shows the transcript as fetched
+    expect((body.sourceUsed as any).text).toMatch(/toss the pasta/);
+  });
+
+  it("reports a broken file without failing the extraction", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    await sponsorFile({ aBcDeFgHiJk: "nope" });
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const { status } = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), push);
+
+    expect(status).toBe(200);
+    expect(steps.find((s) => s.step === "clean.sponsorblock.fail")?.msg).toMatch(/not a SponsorBlock/);
+  });
+});
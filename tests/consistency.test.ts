@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { checkConsistency } from "@/lib/consistency";
+import { canonicalFood, singular } from "@/lib/foods";
+import { parseIngredients } from "@/lib/ingredients";
+import { diagnoseRecipe } from "@/lib/quality";
+import type { Recipe } from "@/lib/recipe";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { recorder } from "./helpers/bins";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+function recipe(ingredients: string[], steps: string[]): Recipe {
+  return {
+    title: "Test",
+    ingredients,
+    parsedIngredients: parseIngredients(ingredients),
+    steps: steps.map((s, i) => `${i + 1}. ${s}`),
+    stepDetails: steps.map((text) => ({ text })),
+  };
+}
+
+describe("foods", () => {
+  it("singularizes and folds synonyms onto one name", () => {
+    expect(["tomatoes", "berries", "leaves", "asparagus", "glass"].map(singular)).toEqual([
+      "tomato",
+      "berry",
+      "leaf",
+      "asparagus",
+      "glass",
+    ]);
+    expect(canonicalFood("Green Onions")).toBe("scallion");
+    expect(canonicalFood("icing sugar")).toBe("powdered sugar");
+    expect(canonicalFood("aceite de oliva")).toBe("olive oil");
+  });
+});
+
+describe("checkConsistency", () => {
+  it("links steps to ingredients through plurals and synonyms", () => {
+    const r = recipe(
+      ["2 scallions, sliced", "3 tomatoes", "1 cup all-purpose flour", "1 aubergine"],
+      ["Dice the tomato and the eggplant.", "Stir the flour with the green onions."]
+    );
+    const { stepIngredients, missing, unused } = checkConsistency(r);
+
+    expect(stepIngredients).toEqual([[1, 3], [0, 2]]);
+    expect(r.stepDetails?.map((s) => s.ingredients)).toEqual(stepIngredients);
+    expect(missing).toEqual([]);
+    expect(unused).toEqual([]);
+  });
+
+  it("matches the longest name first", () => {
+    const r = recipe(
+      ["1 lb ground beef", "2 cups beef broth"],
+      ["Brown the beef.", "Pour in the beef broth."]
+    );
+    expect(checkConsistency(r).stepIngredients).toEqual([[0], [1]]);
+  });
+
+  it("reports foods the list lacks and listed items no step uses", () => {
+    const r = recipe(
+      ["1 lb ground beef", "1 tsp cumin", "salt to taste (optional)"],
+      ["Brown the beef with the onion.", "Top with sour cream and salt."]
+    );
+    const consistency = checkConsistency(r);
+
+    expect(consistency.missing).toEqual([
+      { name: "onion", steps: [0] },
+      { name: "sour cream", steps: [1] },
+    ]);
+    expect(consistency.unused).toEqual([{ index: 1, item: "cumin" }]);
+
+    const diagnostics = diagnoseRecipe(r, consistency);
+    expect(diagnostics.issues).toEqual(
+      expect.arrayContaining([
+        { code: "ingredient_not_listed", severity: "warning", message: "Steps use onion, sour cream, missing from the ingredients" },
+        { code: "ingredient_unused", severity: "info", message: "No step mentions cumin" },
+      ])
+    );
+    expect(diagnostics.consistency?.unused).toEqual(consistency.unused);
+  });
+
+  it("doesn't call sentences taken for ingredients unused", () => {
+    const r = recipe(["olive oil in a big pot over medium heat", "2 eggs"], ["Beat the eggs."]);
+    expect(checkConsistency(r).unused).toEqual([]);
+  });
+
+  it("runs as part of extraction", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const { body } = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), push);
+
+    const step = steps.find((s) => s.step === "recipe.consistency");
+    expect(step?.data).toMatchObject({ missing: expect.any(Array), unused: expect.any(Array) });
+    const stepDetails = (body.recipe as Recipe).stepDetails ?? [];
+    expect(stepDetails.some((s) => s.ingredients?.length)).toBe(true);
+    expect((body.diagnostics as any).consistency).toBeDefined();
+  });
+});
@@ -0,0 +1,56 @@
+// Fake yt-dlp/python (tests/fixtures/bin) wired in through YTDLP_BIN/PYTHON_BIN,
+// with each invocation logged to a per-test file.
+import { existsSync, readFileSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, expect, vi } from "vitest";
+import { TranscribeError, type StepEvent } from "@/lib/server/transcribe";
+import { FIXTURES } from "./fixtures";
+
+export type BinCall = { bin: string; args: string[]; [key: string]: unknown };
+
+// Call at the top of a test file; the getters are valid inside tests
+export function setupFakeBins() {
+  let dir = "";
+  let log = "";
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    log = path.join(dir, "bin.log");
+    vi.stubEnv("YTDLP_BIN", path.join(FIXTURES, "bin", "yt-dlp"));
+    vi.stubEnv("PYTHON_BIN", path.join(FIXTURES, "bin", "python"));
+    vi.stubEnv("FAKE_BIN_LOG", log);
+    vi.stubEnv("MAX_AUDIO_MINUTES", "");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  return {
+    dir: () => dir,
+    calls(): BinCall[] {
+      if (!existsSync(log)) return [];
+      return readFileSync(log, "utf8")
+        .trim()
+        .split("\n")
+        .map((l) => JSON.parse(l));
+    },
+  };
+}
+
+export async function failure(promise: Promise<unknown>): Promise<TranscribeError> {
+  const e = await promise.then(
+    () => null,
+    (e) => e
+  );
+  expect(e).toBeInstanceOf(TranscribeError);
+  return e as TranscribeError;
+}
+
+export function recorder() {
+  const steps: StepEvent[] = [];
+  return { steps, push: (step: string, msg?: string, data?: unknown) => steps.push({ t: 0, step, msg, data }) };
+}
@@ -0,0 +1,61 @@
+// Fixture loading and a fetch stand-in, so platform adapters run without the network.
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { vi } from "vitest";
+
+export const FIXTURES = path.join(__dirname, "..", "fixtures");
+
+export function fixture(name: string): string {
+  return readFileSync(path.join(FIXTURES, name), "utf8");
+}
+
+export function fixtureJson<T = unknown>(name: string): T {
+  return JSON.parse(fixture(name)) as T;
+}
+
+// First matching route answers; `fixture` is a path under tests/fixtures
+export type Route = {
+  match: RegExp | ((url: string) => boolean);
+  fixture?: string;
+  body?: string;
+  status?: number;
+  contentType?: string;
+  headers?: Record<string, string>; // e.g. a redirect's location
+};
+
+export type FetchCall = { url: string; headers: Record<string, string> };
+
+// Replaces the global fetch for the current test. Requests no route matches fail
+// the test instead of reaching the network.
+export function mockFetch(routes: Route[]) {
+  const calls: FetchCall[] = [];
+  const fn = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    calls.push({ url, headers: Object.fromEntries(new Headers(init?.headers).entries()) });
+
+    const route = routes.find((r) => (typeof r.match === "function" ? r.match(url) : r.match.test(url)));
+    if (!route) throw new Error(`Unexpected network request in test: ${url}`);
+
+    const body = route.fixture !== undefined ? fixture(route.fixture) : (route.body ?? "");
+    const contentType =
+      route.contentType ?? (route.fixture?.endsWith(".json") ? "application/json" : "text/html; charset=utf-8");
+    return new Response(body, {
+      status: route.status ?? 200,
+      headers: { "content-type": contentType, ...route.headers },
+    });
+  });
+  vi.stubGlobal("fetch", fn);
+  return { fn, calls };
+}
+
+// The YouTube fixture responses for video aBcDeFgHiJk. The timedtext route without
+// fmt=json3 is what youtube-transcript asks for; the watch-page fallback adds it.
+export function youtubeRoutes(overrides: Route[] = []): Route[] {
+  return [
+    ...overrides,
+    { match: /youtube\.com\/oembed\?/, fixture: "youtube/oembed.json" },
+    { match: /youtube\.com\/watch\?v=aBcDeFgHiJk/, fixture: "youtube/watch.html" },
+    { match: /\/api\/timedtext\?.*fmt=json3/, fixture: "youtube/timedtext.json3.json" },
+    { match: /\/api\/timedtext\?/, fixture: "youtube/timedtext.xml", contentType: "text/xml" },
+  ];
+}
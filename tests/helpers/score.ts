@@ -0,0 +1,68 @@
+// Precision/recall of an extracted recipe against a hand-written expected one.
+// Matching is by content words, so "2 tbsp unsalted butter, melted" counts for
+// "butter" and a step counts when it covers most of the expected step's words.
+import type { Recipe } from "@/lib/recipe";
+
+export type Score = { precision: number; recall: number; matched: number; extracted: number; expected: number };
+
+export type Expected = {
+  source: string;
+  language?: string;
+  ingredients: string[];
+  steps: string[];
+  min: { ingredients: Floors; steps: Floors }; // lowest scores the case may drop to
+};
+
+type Floors = Pick<Score, "precision" | "recall">;
+
+const STOPWORDS = new Set(
+  "a an and the of in on to into for with until it its then some your de del la el los las y en con".split(" ")
+);
+
+// Lowercase, accent-folded content words, with a naive plural strip
+export function contentWords(s: string): string[] {
+  const words = s
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}°/-]+/gu);
+  return (words ?? [])
+    .filter((w) => !STOPWORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w));
+}
+
+// Share of `expected`'s words that appear in `actual`
+function coverage(expected: string, actual: string): number {
+  const want = contentWords(expected);
+  if (!want.length) return 0;
+  const have = new Set(contentWords(actual));
+  return want.filter((w) => have.has(w)).length / want.length;
+}
+
+// Greedy one-to-one matching: each extracted line can satisfy one expected line
+function score(expected: string[], extracted: string[], threshold: number): Score {
+  const used = new Set<number>();
+  let matched = 0;
+  for (const want of expected) {
+    const i = extracted.findIndex((got, j) => !used.has(j) && coverage(want, got) >= threshold);
+    if (i === -1) continue;
+    used.add(i);
+    matched++;
+  }
+  return {
+    precision: extracted.length ? matched / extracted.length : 0,
+    recall: expected.length ? matched / expected.length : 1,
+    matched,
+    extracted: extracted.length,
+    expected: expected.length,
+  };
+}
+
+export function scoreIngredients(recipe: Recipe, expected: string[]): Score {
+  return score(expected, recipe.ingredients, 1);
+}
+
+export function scoreSteps(recipe: Recipe, expected: string[]): Score {
+  const steps = recipe.stepDetails?.map((s) => s.text) ?? recipe.steps;
+  return score(expected, steps, 0.6);
+}
@@ -0,0 +1,64 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { setTimeout as sleep } from "node:timers/promises";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { POST as extract } from "@/app/api/extract/route";
+import { cancelJob, enqueueJob, getJob, queuePosition } from "@/lib/server/jobs";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+// A job that runs until released
+function held() {
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => (release = resolve));
+  return { run: () => done, release };
+}
+
+describe("jobs", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("moves the jobs behind a cancelled one up the queue", async () => {
+    vi.stubEnv("JOB_CONCURRENCY", "1");
+    const first = held();
+    const running = enqueueJob("extract", first.run);
+    const cancelled = enqueueJob("extract", async () => null);
+    const last = enqueueJob("extract", async () => "last");
+
+    expect(queuePosition(last.id)).toBe(1);
+    cancelJob(cancelled.id);
+    expect(queuePosition(cancelled.id)).toBeNull();
+    expect(queuePosition(last.id)).toBe(0);
+
+    first.release();
+    await vi.waitFor(() => expect(getJob(last.id)?.status).toBe("done"));
+    expect(getJob(running.id)?.status).toBe("done");
+    expect(getJob(cancelled.id)?.status).toBe("cancelled");
+  });
+
+  it("queues synchronous requests behind running jobs", async () => {
+    vi.stubEnv("JOB_CONCURRENCY", "1");
+    vi.stubEnv("LLM_BASE_URL", "");
+    const dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+    const { fn } = mockFetch(youtubeRoutes());
+    const first = held();
+    enqueueJob("transcribe", first.run);
+
+    const res = extract(
+      new Request("http://localhost/api/extract", {
+        method: "POST",
+        body: JSON.stringify({ url: "https://youtu.be/aBcDeFgHiJk", forceRefresh: true }),
+      })
+    );
+    await sleep(50);
+    expect(fn).not.toHaveBeenCalled();
+
+    first.release();
+    expect((await res).status).toBe(200);
+    expect(fn).toHaveBeenCalled();
+    await rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,61 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DELETE, GET } from "@/app/api/recipes/[id]/route";
+import { createRecipe, deleteRecipe, getRecipe, listRecipes, updateRecipe } from "@/lib/server/library";
+
+// Lets a test make the next write fail, as on a full or read-only disk
+const fail = vi.hoisted(() => ({ write: false }));
+vi.mock("@/lib/server/jsonFile", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@/lib/server/jsonFile")>();
+  return {
+    ...actual,
+    writeJsonFile: async (file: string, data: unknown) => {
+      if (fail.write) throw new Error("ENOSPC: no space left on device");
+      return actual.writeJsonFile(file, data);
+    },
+  };
+});
+
+const recipe = (title: string) => ({ title, ingredients: ["1 egg"], steps: ["1. Cook."] });
+
+describe("library", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+  });
+  afterEach(async () => {
+    fail.write = false;
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("leaves the library as it was when a write fails", async () => {
+    const saved = await createRecipe(recipe("Eggs"));
+
+    fail.write = true;
+    await expect(createRecipe(recipe("Toast"))).rejects.toThrow(/ENOSPC/);
+    await expect(updateRecipe(saved.id, { recipe: recipe("Fried eggs") })).rejects.toThrow(/ENOSPC/);
+    await expect(deleteRecipe(saved.id)).rejects.toThrow(/ENOSPC/);
+
+    expect((await listRecipes()).items.map((r) => r.recipe.title)).toEqual(["Eggs"]);
+    expect((await getRecipe(saved.id))?.recipe.title).toBe("Eggs");
+
+    fail.write = false;
+    await updateRecipe(saved.id, { recipe: recipe("Fried eggs") });
+    expect((await getRecipe(saved.id))?.recipe.title).toBe("Fried eggs");
+  });
+
+  it("answers API errors with an error body", async () => {
+    const saved = await createRecipe(recipe("Eggs"));
+    const params = Promise.resolve({ id: saved.id });
+
+    fail.write = true;
+    const res = await DELETE(new Request(`http://localhost/api/recipes/${saved.id}`), { params });
+    expect(res.status).toBe(500);
+    expect(await res.json()).toEqual({ ok: false, error: "ENOSPC: no space left on device" });
+    expect((await GET(new Request(`http://localhost/api/recipes/${saved.id}`), { params })).status).toBe(200);
+  });
+});
@@ -0,0 +1,145 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/nutrition/route";
+import { POST as scale } from "@/app/api/recipes/scale/route";
+import { estimateNutrition, matchFood } from "@/lib/nutrition";
+import { extractRecipe, type Recipe } from "@/lib/recipe";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { createRecipe } from "@/lib/server/library";
+import { recorder } from "./helpers/bins";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+const PANCAKES: Recipe = {
+  title: "Pancakes",
+  servings: "2",
+  ingredients: [
+    "200 g all-purpose flour",
+    "2 large eggs",
+    "1 cup milk",
+    "1 tbsp lemon zest",
+    "salt to taste",
+    "1/2 tsp salt",
+    "2 garlic cloves",
+    "1 handful parsley",
+    "1 tbsp maple syrup (optional)",
+  ],
+  steps: ["1. Mix everything."],
+};
+
+describe("matchFood", () => {
+  it("matches names through plurals, synonyms, extra words and typos", () => {
+    const name = (item: string, language?: string) => matchFood(item, language)?.food.name;
+    expect(name("Chicken Thighs")).toBe("chicken thigh");
+    expect(name("sharp cheddar cheese")).toBe("cheddar");
+    expect(name("freshly ground black pepper")).toBe("black pepper");
+    expect(name("mozarella")).toBe("mozzarella");
+    expect(name("aceite de oliva", "es")).toBe("olive oil");
+    expect(name("patatas medianas", "es")).toBe("potato");
+    expect(matchFood("kosher salt")?.match).toBe(1);
+    expect(matchFood("ground cumin")?.match).toBe(0.5);
+  });
+
+  it("won't match a word that isn't the main noun", () => {
+    expect(matchFood("lemon zest")).toBeUndefined();
+    expect(matchFood("dragon fruit")).toBeUndefined();
+  });
+});
+
+describe("estimateNutrition", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("weighs each line and divides by the servings", () => {
+    const n = estimateNutrition(PANCAKES);
+
+    expect(n).toMatchObject({ servings: 2, servingsAssumed: false, counted: 5 });
+    expect(n.perServing).toEqual({ calories: 514, protein: 20.7, fat: 9.8, carbs: 83.5, fiber: 2.8, sodium: 699 });
+    expect(n.lines[0]).toMatchObject({ food: "all-purpose flour", match: 1, grams: 200, nutrients: { calories: 728 } });
+    expect(n.lines[2]).toMatchObject({ food: "milk", grams: 244 }); // a cup, through the density of milk
+    expect(n.lines[6]).toMatchObject({ food: "garlic", grams: 6 });
+  });
+
+  it("says why lines were left out", () => {
+    const ignored = estimateNutrition(PANCAKES)
+      .lines.filter((l) => l.ignored)
+      .map((l) => [l.line, l.ignored]);
+    expect(ignored).toEqual([
+      ["1 tbsp lemon zest", "no match in the nutrient table"],
+      ["salt to taste", "no quantity"],
+      ["1 handful parsley", "no weight for a handful of parsley"],
+      ["1 tbsp maple syrup (optional)", "optional"],
+    ]);
+  });
+
+  it("counts a repeated line each time and falls back to the whole recipe without servings", () => {
+    // butter for the cake, then butter for the frosting
+    const n = estimateNutrition({ title: "Cake", ingredients: ["1 tbsp butter", "1 tbsp butter"], steps: [] });
+    const once = estimateNutrition({ title: "Cake", ingredients: ["1 tbsp butter"], steps: [] });
+    expect(n).toMatchObject({ servings: 1, servingsAssumed: true, counted: 2 });
+    expect(n.total.calories).toBe(2 * once.total.calories);
+    expect(estimateNutrition(PANCAKES, { servings: 4 }).perServing.calories).toBe(257);
+  });
+
+  it("counts a line once when the extraction found it twice", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    // the bulleted section line, and the same text matched again by the quantity pattern
+    const recipe = await extractRecipe("Omelette\n\nIngredients:\n- 2 eggs\n- 1 tbsp butter\n");
+    expect(recipe.ingredients).toEqual(["- 2 eggs", "- 1 tbsp butter"]);
+    expect(estimateNutrition(recipe).counted).toBe(2);
+  });
+});
+
+describe("nutrition in the API", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("estimates posted and saved recipes", async () => {
+    const post = await POST(
+      new Request("http://localhost/api/nutrition", { method: "POST", body: JSON.stringify({ recipe: PANCAKES }) })
+    );
+    expect((await post.json()).nutrition.perServing.calories).toBe(514);
+
+    const saved = await createRecipe(PANCAKES);
+    const get = await GET(new Request(`http://localhost/api/nutrition?id=${saved.id}&servings=1`));
+    expect((await get.json()).nutrition.perServing.calories).toBe(1029);
+    expect((await GET(new Request("http://localhost/api/nutrition?id=nope"))).status).toBe(404);
+  });
+
+  it("is attached to extracted recipes", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const { body } = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), push);
+
+    // the caption heuristics run lines together, which the report shows
+    const nutrition = (body.recipe as Recipe).nutrition;
+    expect(nutrition?.lines.map((l) => l.ignored)).toEqual([
+      "no match in the nutrient table",
+      "no match in the nutrient table",
+    ]);
+    expect(steps.find((s) => s.step === "recipe.nutrition")?.data).toEqual({
+      counted: 0,
+      lines: 2,
+      caloriesPerServing: 0,
+    });
+  });
+
+  it("follows scaling", async () => {
+    const recipe = { ...PANCAKES, nutrition: estimateNutrition(PANCAKES) };
+    const res = await scale(
+      new Request("http://localhost/api/recipes/scale", { method: "POST", body: JSON.stringify({ recipe, servings: 4 }) })
+    );
+    const scaled = (await res.json()).recipe as Recipe;
+
+    expect(scaled.nutrition?.servings).toBe(4);
+    expect(scaled.nutrition?.total.calories).toBe(2057);
+    expect(scaled.nutrition?.perServing.calories).toBe(recipe.nutrition.perServing.calories);
+  });
+});
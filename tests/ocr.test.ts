@@ -0,0 +1,159 @@
+import { existsSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Recipe } from "@/lib/recipe";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { dedupeOverlayLines, ocrVideo, OcrError, type OnScreenText } from "@/lib/server/ocr";
+import { recorder, setupFakeBins } from "./helpers/bins";
+import { FIXTURES, fixture, mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+const OVERLAY = [
+  "SMASH BURGERS",
+  "1 lb ground beef (80/20)",
+  "4 slices american cheese",
+  "4 potato buns",
+  "salt & pepper",
+  "cast iron, screaming hot",
+  "flip after 2 min",
+  "@smashkitchen",
+];
+
+const bins = setupFakeBins();
+
+beforeEach(() => {
+  vi.stubEnv("FFMPEG_BIN", path.join(FIXTURES, "bin", "ffmpeg"));
+  vi.stubEnv("TESSERACT_BIN", path.join(FIXTURES, "bin", "tesseract"));
+  vi.stubEnv("FAKE_MEDIA_SECONDS", "16"); // 8 frames, one per fixture page
+  vi.stubEnv("WHISPER_WORKER", "0");
+  vi.stubEnv("LLM_BASE_URL", "");
+  vi.stubEnv("DATA_DIR", bins.dir());
+});
+
+async function video() {
+  const file = path.join(bins.dir(), "clip.mp4");
+  await writeFile(file, "fake mp4 bytes");
+  return file;
+}
+
+async function ocrFailure(promise: Promise<unknown>) {
+  const e = await promise.then(
+    () => null,
+    (e) => e
+  );
+  expect(e).toBeInstanceOf(OcrError);
+  return e as OcrError;
+}
+
+describe("dedupeOverlayLines", () => {
+  it("keeps each overlay once, in order, with its most-read spelling", () => {
+    const pages = fixture("ocr/frames.txt").split(/^---$/m);
+    expect(dedupeOverlayLines(pages)).toEqual(OVERLAY);
+  });
+
+  it("drops stray glyphs", () => {
+    expect(dedupeOverlayLines(["| — ,\n~ .\n||| 1\nok"])).toEqual([]);
+  });
+});
+
+describe("ocrVideo", () => {
+  it("samples frames with ffmpeg and reads them in one Tesseract run", async () => {
+    const { steps, push } = recorder();
+    expect(await ocrVideo(await video(), push)).toEqual({ frames: 8, lines: OVERLAY });
+
+    const [ffmpeg, tesseract] = bins.calls();
+    expect(ffmpeg.args).toEqual(expect.arrayContaining(["-vf", "fps=1/2", "-frames:v", "60"]));
+    expect(tesseract.args.slice(1)).toEqual(["stdout", "-l", "eng", "--psm", "11"]);
+    expect(existsSync(path.dirname(tesseract.args[0]))).toBe(false);
+    expect(steps.find((s) => s.step === "ocr.frames.done")?.data).toEqual({ frames: 8 });
+  });
+
+  it("follows OCR_FRAME_SECONDS, OCR_MAX_FRAMES and OCR_LANG", async () => {
+    vi.stubEnv("OCR_FRAME_SECONDS", "4");
+    vi.stubEnv("OCR_MAX_FRAMES", "3");
+    vi.stubEnv("OCR_LANG", "eng+spa");
+    const { frames } = await ocrVideo(await video());
+
+    expect(frames).toBe(3);
+    const [ffmpeg, tesseract] = bins.calls();
+    expect(ffmpeg.args).toEqual(expect.arrayContaining(["fps=1/4", "-frames:v", "3"]));
+    expect(tesseract.args).toContain("eng+spa");
+  });
+
+  it("classifies failures", async () => {
+    vi.stubEnv("FAKE_MEDIA_AUDIO_ONLY", "1");
+    expect(await ocrFailure(ocrVideo(await video()))).toMatchObject({ code: "no_video" });
+    vi.stubEnv("FAKE_MEDIA_AUDIO_ONLY", "");
+
+    vi.stubEnv("FAKE_TESSERACT_FAIL", "lang");
+    vi.stubEnv("OCR_LANG", "xyz");
+    expect(await ocrFailure(ocrVideo(await video()))).toMatchObject({
+      code: "ocr_failed",
+      message: expect.stringMatching(/no "xyz" language data/),
+    });
+
+    vi.stubEnv("TESSERACT_BIN", "/nonexistent/tesseract");
+    expect(await ocrFailure(ocrVideo(await video()))).toMatchObject({ code: "tesseract_missing" });
+  });
+});
+
+describe("runExtract with ocr", () => {
+  it("downloads the video for OCR when the captions were enough", async () => {
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const input = ExtractBodySchema.parse({ url: "https://www.youtube.com/watch?v=aBcDeFgHiJk", ocr: true });
+    const { body } = await runExtract(input, push);
+
+    expect(body.usedWhisper).toBe(false);
+    expect(body.ocr).toEqual({ frames: 8, lines: OVERLAY });
+    const [ytdlp] = bins.calls();
+    expect(ytdlp.args).not.toContain("-x");
+    expect(steps.map((s) => s.step)).toEqual(expect.arrayContaining(["ocr.start", "ocr.done"]));
+  });
+
+  it("reads the video Whisper's download kept, without fetching it twice", async () => {
+    mockFetch(
+      youtubeRoutes([{ match: /youtube\.com\/watch\?v=nOcApTiOnS1/, fixture: "youtube/watch-no-captions.html" }])
+    );
+    const { steps, push } = recorder();
+    const input = ExtractBodySchema.parse({ url: "https://www.youtube.com/watch?v=nOcApTiOnS1", ocr: true });
+    const { body } = await runExtract(input, push);
+
+    expect(body.usedWhisper).toBe(true);
+    expect((body.ocr as OnScreenText).lines).toEqual(OVERLAY);
+    const downloads = bins.calls().filter((c) => c.bin === "yt-dlp");
+    expect(downloads).toHaveLength(1);
+    expect(downloads[0].args).toEqual(expect.arrayContaining(["-k", "-x"]));
+    // OCR runs between the download and Whisper
+    const order = steps
+      .map((s) => s.step)
+      .filter((s) => ["transcribe.dl.start", "ocr.done", "transcribe.whisper.start"].includes(s));
+    expect(order).toEqual(["transcribe.dl.start", "ocr.done", "transcribe.whisper.start"]);
+  });
+
+  it("adds the lines to the text the recipe is extracted from", async () => {
+    mockFetch(youtubeRoutes());
+    const without = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), () => {});
+    const withOcr = await runExtract(
+      ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk", ocr: true }),
+      () => {}
+    );
+
+    expect(without.body.ocr).toBeNull();
+    const ingredients = (withOcr.body.recipe as Recipe).ingredients.join("\n");
+    expect(ingredients).toMatch(/4 potato buns/);
+    expect((without.body.recipe as Recipe).ingredients.join("\n")).not.toMatch(/potato buns/);
+  });
+
+  it("reports OCR failures without failing the extraction", async () => {
+    mockFetch(youtubeRoutes());
+    vi.stubEnv("TESSERACT_BIN", "/nonexistent/tesseract");
+    const { status, body } = await runExtract(
+      ExtractBodySchema.parse({ url: "https://www.youtube.com/watch?v=aBcDeFgHiJk", ocr: true }),
+      () => {}
+    );
+
+    expect(status).toBe(200);
+    expect(body.ocr).toMatchObject({ frames: 0, lines: [], code: "tesseract_missing" });
+  });
+});
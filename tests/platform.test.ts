@@ -0,0 +1,210 @@
+import type { LookupAllOptions } from "node:dns";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { extractJsonObject, fetchSourceText, transcriptFromJson3 } from "@/lib/platform";
+import { fetchHtml } from "@/lib/sources/html";
+import { fixture, fixtureJson, mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+const VIDEO = "https://www.youtube.com/watch?v=aBcDeFgHiJk";
+
+// Lets a test make the up-front DNS check see a different answer than the connection does
+const dns = vi.hoisted(() => ({ answer: undefined as { address: string; family: number }[] | undefined }));
+vi.mock("node:dns/promises", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:dns/promises")>();
+  return {
+    ...actual,
+    lookup: async (host: string, options: LookupAllOptions) =>
+      dns.answer ?? actual.lookup(host, options),
+  };
+});
+
+beforeEach(() => {
+  // adapters log fetch failures; keep test output to the assertions
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  dns.answer = undefined;
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("extractJsonObject", () => {
+  it("pulls ytInitialPlayerResponse out of a watch page", () => {
+    const player = extractJsonObject(fixture("youtube/watch.html"), "ytInitialPlayerResponse");
+    expect(player).toMatchObject({
+      videoDetails: { videoId: "aBcDeFgHiJk" },
+      captions: { playerCaptionsTracklistRenderer: { captionTracks: [expect.anything(), expect.anything()] } },
+    });
+  });
+
+  it("keeps braces and escaped quotes inside strings", () => {
+    const player = extractJsonObject(fixture("youtube/watch.html"), "ytInitialPlayerResponse");
+    expect(player).toMatchObject({
+      videoDetails: { shortDescription: expect.stringContaining('1 lb shrimp {peeled}\n"Don\'t skip the lemon"') },
+      captions: {
+        playerCaptionsTracklistRenderer: {
+          captionTracks: [expect.anything(), { baseUrl: expect.stringContaining("&lang=en") }],
+        },
+      },
+    });
+  });
+
+  it("returns null for a missing marker or an unterminated object", () => {
+    expect(extractJsonObject("<html></html>", "ytInitialPlayerResponse")).toBeNull();
+    expect(extractJsonObject('var ytInitialPlayerResponse = {"a":{"b":1}', "ytInitialPlayerResponse")).toBeNull();
+  });
+});
+
+describe("transcriptFromJson3", () => {
+  it("joins segs into text and timed segments", () => {
+    const { text, segments } = transcriptFromJson3(fixtureJson("youtube/timedtext.json3.json"));
+    expect(text.split("\n")[0]).toBe("hey everyone welcome back to the kitchen");
+    expect(text).toContain("start by boiling 8 oz spaghetti in salted water until al dente");
+    // the window-setup event and the "\n" append event carry no text
+    expect(segments).toHaveLength(9);
+    expect(segments[2]).toEqual({
+      start: 7.78,
+      end: 12.3,
+      text: "start by boiling 8 oz spaghetti in salted water until al dente",
+    });
+  });
+
+  it("tolerates empty or malformed payloads", () => {
+    expect(transcriptFromJson3(null)).toEqual({ text: "", segments: [] });
+    expect(transcriptFromJson3({ events: [{ segs: [{ utf8: "no time" }] }] })).toEqual({
+      text: "no time",
+      segments: [],
+    });
+  });
+});
+
+describe("fetchSourceText: youtube", () => {
+  it("uses youtube-transcript captions and the oEmbed title", async () => {
+    const { calls } = mockFetch(youtubeRoutes());
+    const src = await fetchSourceText(VIDEO);
+
+    expect(src).toMatchObject({
+      platform: "youtube",
+      title: "Garlic Butter Shrimp Pasta in 20 Minutes",
+      author: "Weeknight Kitchen",
+      language: "en",
+    });
+    expect(src.text).toContain("melt 3 tablespoons butter");
+    expect(src.segments).toHaveLength(9);
+    expect(src.segments?.[0]).toEqual({ start: 0.48, end: 3.68, text: "hey everyone welcome back to the kitchen" });
+    expect(calls.some((c) => c.url.includes("fmt=json3"))).toBe(false);
+  });
+
+  it("falls back to the watch page json3 track when the XML track fails", async () => {
+    const { calls } = mockFetch(
+      youtubeRoutes([{ match: (u) => u.includes("/api/timedtext?") && !u.includes("fmt="), status: 404 }])
+    );
+    const src = await fetchSourceText(VIDEO);
+
+    expect(src.text).toContain("toss the pasta with the shrimp and 1/4 cup parmesan");
+    expect(src.language).toBe("en");
+    // the uploaded English track wins over the auto-generated one
+    const json3 = calls.find((c) => c.url.includes("fmt=json3"));
+    expect(json3?.url).toContain("signature=9C1D");
+  });
+
+  it("asks for a machine translation when there is no native track", async () => {
+    const { calls } = mockFetch(
+      youtubeRoutes([{ match: /fmt=json3/, fixture: "youtube/timedtext.es.json3.json" }])
+    );
+    const src = await fetchSourceText(VIDEO, { language: "es" });
+
+    expect(src.language).toBe("es");
+    expect(src.translated).toBe(true);
+    expect(src.text).toContain("derrite 3 cucharadas de mantequilla");
+    expect(calls.find((c) => c.url.includes("fmt=json3"))?.url).toContain("tlang=es");
+  });
+
+  it("returns empty text (for Whisper) when captions are disabled", async () => {
+    mockFetch([
+      { match: /youtube\.com\/oembed\?/, status: 404 },
+      { match: /youtube\.com\/watch\?v=nOcApTiOnS1/, fixture: "youtube/watch-no-captions.html" },
+    ]);
+    const src = await fetchSourceText("https://youtu.be/nOcApTiOnS1");
+    expect(src).toMatchObject({ platform: "youtube", text: "" });
+    expect(src.title).toBeUndefined();
+  });
+});
+
+describe("fetchSourceText: tiktok", () => {
+  it("uses the oEmbed caption as text", async () => {
+    const { calls } = mockFetch([{ match: /tiktok\.com\/oembed\?/, fixture: "tiktok/oembed.json" }]);
+    const src = await fetchSourceText("https://www.tiktok.com/@breakfastclub/video/7301234567890123456");
+
+    expect(src.platform).toBe("tiktok");
+    expect(src.author).toBe("Breakfast Club");
+    expect(src.text).toMatch(/^3 ingredient banana pancakes/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("degrades to empty text when oEmbed is down", async () => {
+    mockFetch([{ match: /tiktok\.com\/oembed\?/, status: 503 }]);
+    const src = await fetchSourceText("https://www.tiktok.com/@breakfastclub/video/7301234567890123456");
+    expect(src).toMatchObject({ platform: "tiktok", text: "" });
+  });
+});
+
+describe("fetchSourceText: web", () => {
+  const PAGE = "<html><head><title>Shakshuka</title></head><body><h2>Ingredients</h2><ul><li>2 eggs</li></ul></body></html>";
+
+  it("follows redirects to the page", async () => {
+    const { calls } = mockFetch([
+      { match: /^https:\/\/recipes\.test\/old$/, status: 301, headers: { location: "/shakshuka" } },
+      { match: /^https:\/\/recipes\.test\/shakshuka$/, body: PAGE },
+    ]);
+    const src = await fetchSourceText("https://recipes.test/old");
+
+    expect(src).toMatchObject({ platform: "web", title: "Shakshuka" });
+    expect(src.text).toMatch(/Ingredients\s+2 eggs/);
+    expect(calls.map((c) => c.url)).toEqual(["https://recipes.test/old", "https://recipes.test/shakshuka"]);
+  });
+
+  it("won't fetch loopback, private or link-local addresses, even through a redirect", async () => {
+    const { calls } = mockFetch([
+      { match: /recipes\.test/, status: 302, headers: { location: "http://169.254.169.254/latest/meta-data/" } },
+      { match: () => true, body: PAGE },
+    ]);
+    for (const url of ["http://localhost:3000/", "http://10.0.0.5/", "http://[::1]/", "http://0x7f.1/"]) {
+      await expect(fetchHtml(url)).rejects.toThrow(/not a public address/);
+    }
+    await expect(fetchHtml("https://recipes.test/")).rejects.toThrow(/Refusing to fetch 169\.254\.169\.254/);
+    expect(calls.map((c) => c.url)).toEqual(["https://recipes.test/"]);
+
+    expect(await fetchSourceText("http://127.0.0.1:8080/admin")).toMatchObject({ platform: "web", text: "" });
+  });
+
+  it("checks the address it connects to, not only the first lookup", async () => {
+    const server = createServer((_req, res) => res.writeHead(200, { "content-type": "text/html" }).end("<p>admin</p>"));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    try {
+      dns.answer = [{ address: "93.184.216.34", family: 4 }];
+      const { port } = server.address() as AddressInfo;
+      const err = await fetchHtml(`http://localhost:${port}/`).catch((e: Error) => e);
+      expect((err as Error & { cause?: Error }).cause?.message).toMatch(/not a public address/);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("drops the text of a page that doesn't read like a recipe", async () => {
+    mockFetch([
+      {
+        match: /videos\.test/,
+        body: "<html><head><title>Lemon tart</title></head><body><nav>Home Watch Upload</nav><p>2 comments</p><footer>Terms Privacy</footer></body></html>",
+      },
+    ]);
+    expect(await fetchSourceText("https://videos.test/123")).toMatchObject({ title: "Lemon tart", text: "" });
+  });
+
+  it("reads at most 5 MB of a page", async () => {
+    mockFetch([{ match: /recipes\.test/, body: `<p>${"a".repeat(6_000_000)}</p>` }]);
+    expect((await fetchHtml("https://recipes.test/huge")).length).toBe(5_000_000);
+  });
+});
@@ -0,0 +1,49 @@
+// Golden corpus: each tests/golden/<case>/ holds a transcript.txt and the recipe a
+// person would write down from it (expected.json). The heuristic extractor is
+// scored on precision/recall and must not drop below the case's `min` floors;
+// raise the floors when the extractor improves. GOLDEN_REPORT=1 prints the scores.
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { extractRecipe } from "@/lib/recipe";
+import { scoreIngredients, scoreSteps, type Expected, type Score } from "./helpers/score";
+
+const GOLDEN = path.join(__dirname, "golden");
+const cases = readdirSync(GOLDEN, { withFileTypes: true })
+  .filter((d) => d.isDirectory())
+  .map((d) => d.name)
+  .sort();
+
+const report: string[] = [];
+const pct = (n: number) => `${Math.round(n * 100)}%`.padStart(4);
+const row = (s: Score) => `P ${pct(s.precision)} R ${pct(s.recall)} (${s.matched}/${s.expected}, ${s.extracted} out)`;
+
+beforeAll(() => {
+  // the LLM path is not deterministic; score the heuristic extractor
+  vi.stubEnv("LLM_BASE_URL", "");
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  if (process.env.GOLDEN_REPORT === "1") console.log(`golden corpus\n${report.join("\n")}`);
+});
+
+describe.each(cases)("golden: %s", (name) => {
+  const dir = path.join(GOLDEN, name);
+  const transcript = readFileSync(path.join(dir, "transcript.txt"), "utf8");
+  const expected = JSON.parse(readFileSync(path.join(dir, "expected.json"), "utf8")) as Expected;
+
+  it("meets its precision/recall floors", async () => {
+    const recipe = await extractRecipe(transcript);
+    const ing = scoreIngredients(recipe, expected.ingredients);
+    const steps = scoreSteps(recipe, expected.steps);
+    report.push(`  ${name.padEnd(40)} ingredients ${row(ing)}   steps ${row(steps)}`);
+
+    if (expected.language) expect(recipe.language).toBe(expected.language);
+    const { min } = expected;
+    expect(ing.precision).toBeGreaterThanOrEqual(min.ingredients.precision);
+    expect(ing.recall).toBeGreaterThanOrEqual(min.ingredients.recall);
+    expect(steps.precision).toBeGreaterThanOrEqual(min.steps.precision);
+    expect(steps.recall).toBeGreaterThanOrEqual(min.steps.recall);
+  });
+});
@@ -0,0 +1,156 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GET, POST } from "@/app/api/shopping-list/route";
+import type { Recipe } from "@/lib/recipe";
+import { createRecipe } from "@/lib/server/library";
+import { setStaples } from "@/lib/server/staples";
+import { aisleFor, buildShoppingList, shoppingToMarkdown, shoppingToText, type ShoppingList } from "@/lib/shopping";
+
+function recipe(title: string, ingredients: string[], servings?: string): Recipe {
+  return { title, servings, ingredients, steps: [] };
+}
+
+const CHILI = recipe(
+  "Weeknight chili",
+  ["1 lb ground beef", "2 onions, diced", "3 cloves garlic", "1 can kidney beans", "1 tbsp chili powder", "salt to taste"],
+  "4"
+);
+const TACOS = recipe("Tacos", [
+  "500 g minced beef",
+  "1 large onion",
+  "2 garlic cloves",
+  "8 tortillas",
+  "1 cup sour cream",
+  "2 green onions (optional)",
+]);
+const CAKE = recipe("Cake", ["2 cups all-purpose flour", "250 g plain flour", "1/2 cup milk", "100 ml milk", "2 large eggs", "1 egg"]);
+
+const item = (list: ShoppingList, key: string) =>
+  [...list.aisles.flatMap((a) => a.items), ...list.skipped].find((i) => i.key === key);
+
+describe("buildShoppingList", () => {
+  it("merges lines across recipes, through synonyms and units", () => {
+    const list = buildShoppingList([CHILI, TACOS, CAKE]);
+
+    // 1 lb + 500 g of the same beef: a tie between systems goes metric
+    expect(item(list, "ground beef")).toMatchObject({ amounts: [{ quantity: 955, unit: "g" }], aisle: "meat" });
+    expect(item(list, "ground beef")?.recipes).toEqual(["Weeknight chili", "Tacos"]);
+    expect(item(list, "onion")?.text).toBe("3 onions");
+    expect(item(list, "garlic")?.text).toBe("5 cloves garlic");
+    // flour by cup and by weight: one figure in grams, through its density
+    expect(item(list, "all purpose flour")?.text).toBe("500 g all-purpose flour");
+    // milk stays a liquid
+    expect(item(list, "milk")?.text).toBe("220 ml milk");
+    expect(item(list, "egg")?.text).toBe("3 large eggs");
+    expect(item(list, "scallion")).toMatchObject({ optional: true, text: "2 green onions (optional)" });
+    expect(item(list, "salt")).toMatchObject({ amounts: [], unmeasured: true, text: "salt", aisle: "spices" });
+    expect(item(list, "kidney bean")?.aisle).toBe("canned");
+  });
+
+  it("keeps one unit when every line uses it, and converts when asked", () => {
+    const list = buildShoppingList([recipe("A", ["1 cup rice"]), recipe("B", ["1 1/2 cups rice", "pinch of salt"])]);
+    expect(item(list, "rice")?.text).toBe("2 1/2 cups rice");
+
+    const metric = buildShoppingList([recipe("A", ["1 cup rice"])], { system: "metric" });
+    expect(item(metric, "rice")?.amounts).toEqual([{ quantity: 190, unit: "g" }]);
+  });
+
+  it("adds ranges and says when some lines weren't measured", () => {
+    const list = buildShoppingList([recipe("A", ["1-2 tbsp olive oil"]), recipe("B", ["olive oil", "2 tbsp olive oil"])]);
+    expect(item(list, "olive oil")?.text).toBe("3-4 tbsp olive oil + extra");
+  });
+
+  it("leaves staples off and groups the rest by aisle", () => {
+    const list = buildShoppingList([CHILI, TACOS], { staples: ["Salt", "garlic"] });
+
+    expect(list.skipped.map((i) => i.name)).toEqual(["garlic", "salt"]);
+    expect(list.aisles.map((a) => a.aisle)).toEqual(["produce", "meat", "dairy", "bakery", "canned", "spices"]);
+    expect(list.aisles[0].items.map((i) => i.key)).toEqual(["scallion", "onion"]);
+  });
+
+  it("renders Markdown and plain-text checklists", () => {
+    const list = buildShoppingList([recipe("A", ["2 onions", "1 cup milk"]), recipe("B", ["salt"])], {
+      staples: ["salt"],
+    });
+    expect(shoppingToMarkdown(list)).toBe(
+      [
+        "# Shopping list",
+        "",
+        "_For: A · B_",
+        "",
+        "## Produce",
+        "",
+        "- [ ] 2 onions",
+        "",
+        "## Dairy & eggs",
+        "",
+        "- [ ] 1 cup milk",
+        "",
+        "_Already in the pantry: salt_",
+        "",
+      ].join("\n")
+    );
+    expect(shoppingToText(list)).toBe(
+      "SHOPPING LIST\n=============\nFor: A, B\n\nPRODUCE\n[ ] 2 onions\n\nDAIRY & EGGS\n[ ] 1 cup milk\n\nAlready in the pantry: salt\n"
+    );
+  });
+
+  it("sorts foods into aisles by their most specific name", () => {
+    expect(aisleFor("smoked paprika")).toBe("spices");
+    expect(aisleFor("bell pepper")).toBe("produce");
+    expect(aisleFor("peanut butter")).toBe("condiments");
+    expect(aisleFor("dried thyme")).toBe("spices");
+    expect(aisleFor("frozen pea")).toBe("frozen");
+    expect(aisleFor("crushed tomato", "can")).toBe("canned");
+    expect(aisleFor("dragon fruit jelly")).toBe("produce");
+    expect(aisleFor("xanthan gum")).toBe("other");
+  });
+});
+
+describe("/api/shopping-list", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const post = (body: unknown) =>
+    POST(new Request("http://localhost/api/shopping-list", { method: "POST", body: JSON.stringify(body) }));
+
+  it("mixes saved and posted recipes, scales them, and skips the saved staples", async () => {
+    const saved = await createRecipe(CHILI);
+    await setStaples(["salt", " Salt ", ""]);
+
+    const res = await post({ recipes: [{ id: saved.id, servings: 8 }, { recipe: TACOS }] });
+    const { list } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(list.recipes).toEqual(["Weeknight chili", "Tacos"]);
+    expect(item(list, "onion")?.text).toBe("5 onions");
+    expect(list.skipped.map((i: any) => i.key)).toEqual(["salt"]);
+
+    // a request's own staples replace the saved ones
+    const { list: own } = await (await post({ recipes: [{ recipe: CHILI }], staples: [] })).json();
+    expect(own.skipped).toEqual([]);
+  });
+
+  it("returns checklists as downloads", async () => {
+    const saved = await createRecipe(TACOS);
+    const res = await GET(new Request(`http://localhost/api/shopping-list?id=${saved.id}&format=text`));
+
+    expect(res.headers.get("Content-Type")).toMatch(/^text\/plain/);
+    expect(res.headers.get("Content-Disposition")).toContain('filename="shopping-list.txt"');
+    expect(await res.text()).toMatch(/^SHOPPING LIST\n/);
+  });
+
+  it("rejects unknown ids and empty requests", async () => {
+    expect((await post({ recipes: [{ id: "nope" }] })).status).toBe(404);
+    expect((await post({ recipes: [] })).status).toBe(400);
+    expect((await post({ recipes: [{ recipe: TACOS, servings: 2 }] })).status).toBe(400); // no servings to scale from
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from "vitest";
+import { rulesFor } from "@/lib/locales";
+import { extractRecipe } from "@/lib/recipe";
+import type { TranscriptSegment } from "@/lib/segments";
+import { buildSteps, parseStepTiming } from "@/lib/steps";
+
+const en = rulesFor("en");
+const texts = (text: string, segments?: TranscriptSegment[]) =>
+  buildSteps(text, { rules: en, segments }).map((s) => s.text);
+
+// Caption lines as the timedtext track gives them: cut mid-sentence, no punctuation
+function captions(lines: [number, number, string][]): TranscriptSegment[] {
+  return lines.map(([start, end, text]) => ({ start, end, text }));
+}
+
+describe("buildSteps", () => {
+  it("regroups caption segments at markers, leading verbs and pauses", () => {
+    const segments = captions([
+      [0, 2, "okay so first melt the butter"],
+      [2, 4, "in a pan over medium heat"],
+      [4, 6, "once that's done add the flour"],
+      [6, 8, "and keep whisking"],
+      [10, 12, "slowly pour in the milk"],
+      [12, 14, "whisking the whole time until it's"],
+      [14, 16, "thick and smooth"],
+    ]);
+    expect(texts(segments.map((s) => s.text).join(" "), segments)).toEqual([
+      "Melt the butter in a pan over medium heat",
+      "Add the flour and keep whisking",
+      "Slowly pour in the milk whisking the whole time until it's thick and smooth",
+    ]);
+  });
+
+  it("drops chit-chat and sponsor reads", () => {
+    const transcript = [
+      "Hey guys, welcome back to the channel.",
+      "This video is sponsored by Skillet Co, use my code CHEF to add 10% off.",
+      "Now I'm gonna add a little love.",
+      "Whisk the eggs with the sugar.",
+      "If you make this, let me know in the comments and don't forget to subscribe!",
+    ].join(" ");
+    expect(texts(transcript)).toEqual(["Whisk the eggs with the sugar."]);
+  });
+
+  it("keeps steps that only sound like a sign-off", () => {
+    const transcript = "Fry the potatoes a second time and say bye to soggy fries.";
+    expect(texts(transcript)).toEqual(["Fry the potatoes a second time and say bye to soggy fries."]);
+  });
+
+  it("merges a trailing fragment into the step it belongs to", () => {
+    const transcript = "pour in the crushed tomatoes\nand a cup of beef broth\nbring it to a boil";
+    expect(texts(transcript)).toEqual([
+      "Pour in the crushed tomatoes and a cup of beef broth",
+      "Bring it to a boil",
+    ]);
+  });
+
+  it("cuts run-ons at markers and clause-starting verbs", () => {
+    const runOn =
+      "now stir in the garlic and cook for a minute add the tomatoes and let it simmer for twenty minutes " +
+      "then season with salt and pepper and after that fold in the fresh basil leaves right before serving";
+    expect(texts(runOn)).toEqual([
+      "Stir in the garlic and cook for a minute",
+      "Add the tomatoes and let it simmer for twenty minutes",
+      "Season with salt and pepper",
+      "Fold in the fresh basil leaves right before serving",
+    ]);
+  });
+
+  it("doesn't read a verb used as a noun as a step", () => {
+    expect(texts("Okay so for these smash burgers you want ground beef. Smash it flat.")).toEqual(["Smash it flat."]);
+  });
+
+  it("keeps the title out and reads on-screen lines one by one", () => {
+    const combined = "TITLE: How to roast vegetables\nON-SCREEN TEXT:\n2 carrots\nroast 25 min at 200°C\ntoss halfway";
+    expect(texts(combined)).toEqual(["Roast 25 min at 200°C", "Toss halfway"]);
+  });
+});
+
+describe("parseStepTiming", () => {
+  it.each([
+    ["Bake 20 minutes at 180°C", { duration: { minutes: 20, text: "20 minutes" }, temperature: { value: 180, unit: "C", text: "180°C" } }],
+    ["Bake for 10-12 minutes until golden", { duration: { minutes: 10, maxMinutes: 12, text: "10-12 minutes" } }],
+    ["Braise for 1 hour 15 minutes", { duration: { minutes: 75, text: "1 hour 15 minutes" } }],
+    ["Preheat the oven to 350 degrees", { temperature: { value: 350, unit: "F", text: "350 degrees" } }],
+    ["Sear for 90 seconds over medium-high heat", { duration: { minutes: 1.5, text: "90 seconds" }, heat: "medium-high" }],
+    ["Cocina a fuego medio durante 20 minutos", { duration: { minutes: 20, text: "20 minutos" }, heat: "medium" }],
+    ["Season with salt and pepper", {}],
+  ])("%s", (text, expected) => {
+    expect(parseStepTiming(text)).toEqual(expected);
+  });
+});
+
+describe("extractRecipe", () => {
+  it("puts timing on stepDetails", async () => {
+    vi.stubEnv("LLM_BASE_URL", "");
+    const recipe = await extractRecipe("Preheat the oven to 400°F. Bake the muffins for 18-20 minutes.");
+    expect(recipe.stepDetails?.map(({ duration, temperature }) => ({ duration, temperature }))).toEqual([
+      { duration: undefined, temperature: { value: 400, unit: "F", text: "400°F" } },
+      { duration: { minutes: 18, maxMinutes: 20, text: "18-20 minutes" }, temperature: undefined },
+    ]);
+    vi.unstubAllEnvs();
+  });
+});
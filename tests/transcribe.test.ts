@@ -0,0 +1,178 @@
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { expandPlaylist } from "@/lib/server/batch";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { getTranscribeConfig, transcribeUrl, type TranscribeErrorCode } from "@/lib/server/transcribe";
+import { failure, recorder, setupFakeBins } from "./helpers/bins";
+import { FIXTURES, mockFetch } from "./helpers/fixtures";
+
+const VIDEO = "https://www.youtube.com/watch?v=sMaShBuRgEr";
+
+const bins = setupFakeBins();
+const binCalls = bins.calls;
+
+beforeEach(() => {
+  // one python process per job; tests/whisperWorker.test.ts covers the worker
+  vi.stubEnv("WHISPER_WORKER", "0");
+});
+
+describe("transcribeUrl", () => {
+  it("downloads with yt-dlp, then returns Whisper's text and segments", async () => {
+    const { steps, push } = recorder();
+    const tr = await transcribeUrl(VIDEO, "small", push);
+
+    expect(tr.language).toBe("en");
+    expect(tr.text).toMatch(/^Okay so for these smash burgers/);
+    // the segment without a numeric start is dropped
+    expect(tr.segments).toHaveLength(7);
+    expect(tr.segments[1]).toEqual({ start: 6.2, end: 8.9, text: "Divide it into 4 balls." });
+
+    const [ytdlp, python] = binCalls();
+    expect(ytdlp.args).toEqual(expect.arrayContaining(["--no-playlist", "-x", "--audio-format", "wav", VIDEO]));
+    expect(python.args[0]).toMatch(/scripts[/\\]transcribe\.py$/);
+    expect(python.args.slice(2)).toEqual(["small", "--device", "cpu", "--compute-type", "int8", "--beam-size", "5"]);
+    expect(steps.map((s) => s.step)).toEqual(
+      expect.arrayContaining(["transcribe.dl.start", "transcribe.whisper.start", "transcribe.whisper.done"])
+    );
+  });
+
+  it("removes its temp dir afterwards", async () => {
+    await transcribeUrl(VIDEO, "tiny");
+    const audio = binCalls()[1].args[1];
+    expect(existsSync(path.dirname(audio))).toBe(false);
+  });
+
+  it("passes MAX_AUDIO_MINUTES to yt-dlp as a download section", async () => {
+    vi.stubEnv("MAX_AUDIO_MINUTES", "8");
+    await transcribeUrl(VIDEO, "tiny");
+    const { args } = binCalls()[0];
+    expect(args[args.indexOf("--download-sections") + 1]).toBe("*00:00-08:00");
+  });
+
+  it("passes config overrides to yt-dlp and the Whisper script", async () => {
+    await transcribeUrl(VIDEO, undefined, undefined, undefined, {
+      model: "base",
+      device: "cuda",
+      computeType: "float16",
+      beamSize: 1,
+      vad: false,
+      ffmpegBin: "/opt/ffmpeg/bin",
+    });
+    const [ytdlp, python] = binCalls();
+    expect(ytdlp.args[ytdlp.args.indexOf("--ffmpeg-location") + 1]).toBe("/opt/ffmpeg/bin");
+    expect(python.args.slice(2)).toEqual([
+      "base",
+      "--device",
+      "cuda",
+      "--compute-type",
+      "float16",
+      "--beam-size",
+      "1",
+      "--no-vad",
+    ]);
+  });
+
+  it("fails before Whisper when yt-dlp fails", async () => {
+    vi.stubEnv("FAKE_YTDLP_FAIL", "1");
+    const { steps, push } = recorder();
+    const e = await failure(transcribeUrl(VIDEO, "tiny", push));
+    expect(e).toMatchObject({ code: "video_unavailable", stage: "download" });
+    expect(e.message).toMatch(/This video is private/);
+    expect(steps.some((s) => s.step === "transcribe.whisper.start")).toBe(false);
+    expect(binCalls().map((c) => c.bin)).toEqual(["yt-dlp"]);
+  });
+
+  it.each<[string, TranscribeErrorCode]>([
+    ["blocked", "ytdlp_blocked"],
+    ["ffmpeg", "ffmpeg_missing"],
+  ])("classifies yt-dlp failure %s as %s", async (mode, code) => {
+    vi.stubEnv("FAKE_YTDLP_FAIL", mode);
+    expect(await failure(transcribeUrl(VIDEO, "tiny"))).toMatchObject({ code, stage: "download" });
+  });
+
+  it.each<[string, TranscribeErrorCode]>([
+    ["1", "model_unavailable"], // recognized from the traceback
+    ["model", "model_unavailable"], // reported by transcribe.py
+    ["crash", "whisper_failed"],
+  ])("classifies Whisper failure %s as %s", async (mode, code) => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", mode);
+    const { steps, push } = recorder();
+    expect(await failure(transcribeUrl(VIDEO, "tiny", push))).toMatchObject({ code, stage: "whisper" });
+    expect(steps.some((s) => s.step === "transcribe.whisper.start")).toBe(true);
+  });
+
+  it("reports missing binaries", async () => {
+    vi.stubEnv("YTDLP_BIN", path.join(bins.dir(), "no-such-yt-dlp"));
+    expect(await failure(transcribeUrl(VIDEO, "tiny"))).toMatchObject({ code: "ytdlp_missing" });
+
+    vi.stubEnv("YTDLP_BIN", path.join(FIXTURES, "bin", "yt-dlp"));
+    vi.stubEnv("PYTHON_BIN", path.join(bins.dir(), "no-such-python"));
+    expect(await failure(transcribeUrl(VIDEO, "tiny"))).toMatchObject({ code: "python_missing" });
+  });
+
+  it.each([
+    ["FAKE_YTDLP_FAIL", { downloadTimeoutMs: 300 }, "download"],
+    ["FAKE_WHISPER_FAIL", { whisperTimeoutMs: 300 }, "whisper"],
+  ] as const)("kills a hung process (%s)", async (env, overrides, stage) => {
+    vi.stubEnv(env, "hang");
+    const e = await failure(transcribeUrl(VIDEO, "tiny", undefined, undefined, overrides));
+    expect(e).toMatchObject({ code: "timeout", stage });
+    expect(e.message).toMatch(/timed out/);
+  });
+});
+
+describe("extracting a video page", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("transcribes a page whose text is only menus and footer", async () => {
+    vi.stubEnv("DATA_DIR", bins.dir());
+    vi.stubEnv("LLM_BASE_URL", "");
+    const footer = "About us · Careers · Press · Help center · Terms of service · Privacy · Cookies · ".repeat(4);
+    mockFetch([
+      {
+        match: /videos\.test/,
+        body: `<html><head><title>Smash burgers</title></head><body><nav>Home Watch Upload</nav><footer>${footer}</footer></body></html>`,
+      },
+    ]);
+    const { steps, push } = recorder();
+    await runExtract(ExtractBodySchema.parse({ url: "https://videos.test/123456" }), push);
+
+    const names = steps.map((s) => s.step);
+    expect(names).toEqual(expect.arrayContaining(["transcribe.dl.start", "transcribe.whisper.start"]));
+    expect(names).not.toContain("transcribe.skip");
+  });
+});
+
+describe("getTranscribeConfig", () => {
+  it("reads env with defaults for bad values", () => {
+    const cfg = getTranscribeConfig({
+      WHISPER_MODEL: "small",
+      WHISPER_BEAM_SIZE: "0",
+      WHISPER_VAD: "0",
+      MAX_AUDIO_MINUTES: "abc",
+      WHISPER_TIMEOUT_MS: "120000",
+    } as unknown as NodeJS.ProcessEnv);
+    expect(cfg).toMatchObject({
+      ytdlpBin: "yt-dlp",
+      model: "small",
+      device: "cpu",
+      computeType: "int8",
+      beamSize: 5,
+      vad: false,
+      maxAudioMinutes: 0,
+      whisperTimeoutMs: 120000,
+    });
+  });
+});
+
+describe("expandPlaylist", () => {
+  it("lists playlist videos from yt-dlp --flat-playlist, skipping nested tabs", async () => {
+    const entries = await expandPlaylist("https://www.youtube.com/playlist?list=PLweeknight123", 10);
+    expect(entries).toEqual([
+      { url: "https://www.youtube.com/watch?v=aBcDeFgHiJk", title: "Garlic Butter Shrimp Pasta in 20 Minutes" },
+      { url: "https://www.youtube.com/watch?v=sMaShBuRgEr", title: "Smash Burgers at Home" },
+    ]);
+    expect(binCalls()[0].args).toEqual(expect.arrayContaining(["--flat-playlist", "-J", "--playlist-end", "10"]));
+  });
+});
@@ -0,0 +1,34 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ExtractBodySchema, runExtract } from "@/lib/server/extract";
+import { recorder } from "./helpers/bins";
+import { mockFetch, youtubeRoutes } from "./helpers/fixtures";
+
+describe("transcript cache", () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), "recipe-ripper-test-"));
+    vi.stubEnv("DATA_DIR", dir);
+    vi.stubEnv("LLM_BASE_URL", "");
+  });
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("extracts without it when the cache file is corrupt", async () => {
+    await writeFile(path.join(dir, "transcript-cache.json"), "{ not json", "utf8");
+    mockFetch(youtubeRoutes());
+    const { steps, push } = recorder();
+    const { status, body } = await runExtract(ExtractBodySchema.parse({ url: "https://youtu.be/aBcDeFgHiJk" }), push);
+
+    expect(status).toBe(200);
+    expect(body.ok).toBe(true);
+    const failed = steps.filter((s) => s.step === "cache.source.fail");
+    expect(failed).toHaveLength(2); // the read, then the write
+    expect(failed[0].msg).toMatch(/transcript-cache\.json/);
+    expect(steps.map((s) => s.step)).toContain("cache.source.miss");
+  });
+});
@@ -0,0 +1,201 @@
+import { existsSync } from "node:fs";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/extract/route";
+import { getJob } from "@/lib/server/jobs";
+import { mediaSeconds, transcribeFile } from "@/lib/server/transcribe";
+import { discardUpload, receiveUpload } from "@/lib/server/upload";
+import { failure, recorder, setupFakeBins } from "./helpers/bins";
+import { FIXTURES } from "./helpers/fixtures";
+
+const bins = setupFakeBins();
+
+beforeEach(() => {
+  vi.stubEnv("FFMPEG_BIN", path.join(FIXTURES, "bin")); // the directory form
+  vi.stubEnv("WHISPER_WORKER", "0");
+  vi.stubEnv("LLM_BASE_URL", "");
+});
+
+async function clip(name = "clip.mp4", content = "fake mp4 bytes") {
+  const file = path.join(bins.dir(), name);
+  await writeFile(file, content);
+  return file;
+}
+
+function uploadRequest(fields: Record<string, string>, file?: File) {
+  const form = new FormData();
+  if (file) form.set("file", file);
+  for (const [k, v] of Object.entries(fields)) form.set(k, v);
+  return new Request("http://localhost/api/extract", { method: "POST", body: form });
+}
+
+// A multipart body sent in chunks with no Content-Length, as a streaming client would
+function streamedRequest(chunks: () => Iterator<Uint8Array>) {
+  const it = chunks();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = it.next();
+      if (next.done) controller.close();
+      else controller.enqueue(next.value);
+    },
+  });
+  return new Request("http://localhost/api/extract", {
+    method: "POST",
+    headers: { "content-type": "multipart/form-data; boundary=XyZ" },
+    body,
+    duplex: "half",
+  } as RequestInit);
+}
+
+const leftoverUploads = async () =>
+  (await readdir(tmpdir())).filter((d) => d.startsWith("recipe-ripper-upload-"));
+
+describe("transcribeFile", () => {
+  it("converts with ffmpeg, then runs Whisper on the WAV", async () => {
+    const { steps, push } = recorder();
+    const tr = await transcribeFile(await clip(), "tiny", push);
+
+    expect(tr.text).toMatch(/^Okay so for these smash burgers/);
+    const [ffmpeg, python] = bins.calls();
+    expect(ffmpeg.bin).toBe("ffmpeg");
+    expect(ffmpeg.args).toEqual(expect.arrayContaining(["-vn", "-ac", "1", "-ar", "16000", "-t", "1801"]));
+    expect(python.args[1]).toBe(ffmpeg.args.at(-1));
+    // the temp dir with the WAV is gone; the input file is the caller's
+    expect(existsSync(path.dirname(python.args[1]))).toBe(false);
+    expect(existsSync(await clip())).toBe(true);
+    expect(steps.find((s) => s.step === "transcribe.convert.done")?.data).toEqual({ seconds: 95 });
+  });
+
+  it("rejects files over UPLOAD_MAX_MINUTES before running Whisper", async () => {
+    vi.stubEnv("FAKE_MEDIA_SECONDS", String(45 * 60));
+    vi.stubEnv("UPLOAD_MAX_MINUTES", "30");
+    expect(await failure(transcribeFile(await clip(), "tiny"))).toMatchObject({
+      code: "too_long",
+      stage: "convert",
+      message: "File is 45 minutes long; the limit is 30",
+    });
+    expect(bins.calls().map((c) => c.bin)).toEqual(["ffmpeg"]);
+  });
+
+  it("classifies ffmpeg failures", async () => {
+    expect(await failure(transcribeFile(await clip("bad.mp4", "not media"), "tiny"))).toMatchObject({
+      code: "bad_media",
+      stage: "convert",
+    });
+
+    vi.stubEnv("FFMPEG_BIN", "/nonexistent/ffmpeg");
+    expect(await failure(transcribeFile(await clip(), "tiny"))).toMatchObject({ code: "ffmpeg_missing" });
+
+    vi.stubEnv("FFMPEG_BIN", path.join(FIXTURES, "bin", "ffmpeg"));
+    vi.stubEnv("FAKE_FFMPEG_FAIL", "hang");
+    const e = await failure(transcribeFile(await clip(), "tiny", undefined, undefined, { convertTimeoutMs: 300 }));
+    expect(e.code).toBe("timeout");
+  });
+
+  it("reads the input length from ffmpeg's banner", () => {
+    expect(mediaSeconds("  Duration: 01:02:03.50, start: 0.000000, bitrate: 128 kb/s")).toBe(3723.5);
+    expect(mediaSeconds("  Duration: N/A, bitrate: N/A")).toBeUndefined();
+  });
+});
+
+describe("POST /api/extract with a file", () => {
+  it("extracts a recipe from an uploaded clip and removes the upload", async () => {
+    const res = await POST(
+      uploadRequest({ debug: "true" }, new File(["fake mp4 bytes"], "Smash Burgers.mp4", { type: "video/mp4" }))
+    );
+    const body = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(body.ok).toBe(true);
+    expect(body.usedWhisper).toBe(true);
+    expect(body.sourceUsed).toMatchObject({ platform: "upload", title: "Smash Burgers", language: "en" });
+    expect(body.recipe.ingredients.length).toBeGreaterThan(0);
+    expect(body.steps.find((s: any) => s.step === "source.upload").data).toMatchObject({ size: 14 });
+    expect(await leftoverUploads()).toEqual([]);
+  });
+
+  it("takes the format from the MIME type when the name has no extension", async () => {
+    const res = await POST(uploadRequest({}, new File(["fake"], "voice-note", { type: "audio/mp4" })));
+    expect(res.status).toBe(200);
+    expect(bins.calls()[0].args[bins.calls()[0].args.indexOf("-i") + 1]).toMatch(/upload\.m4a$/);
+  });
+
+  it("rejects missing, unsupported and oversized files", async () => {
+    expect((await POST(uploadRequest({ title: "x" }))).status).toBe(400);
+    expect((await POST(uploadRequest({}, new File(["%PDF"], "recipe.pdf", { type: "application/pdf" })))).status).toBe(
+      415
+    );
+
+    vi.stubEnv("UPLOAD_MAX_MB", String(10 / 1024 / 1024)); // 10 bytes
+    const res = await POST(uploadRequest({}, new File(["more than ten bytes"], "clip.mov")));
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toMatch(/larger than/);
+    expect(bins.calls()).toEqual([]);
+    expect(await leftoverUploads()).toEqual([]);
+  });
+
+  it("stops reading a streamed upload once it passes the limit", async () => {
+    vi.stubEnv("UPLOAD_MAX_MB", String(64 / 1024)); // 64 KB
+    let sent = 0;
+    const res = await POST(
+      streamedRequest(function* () {
+        yield new TextEncoder().encode(
+          '--XyZ\r\nContent-Disposition: form-data; name="file"; filename="clip.mp4"\r\n\r\n'
+        );
+        for (; sent < 1000; sent++) yield new Uint8Array(1024);
+      })
+    );
+
+    expect(res.status).toBe(413);
+    expect(sent).toBeLessThan(100);
+    expect(bins.calls()).toEqual([]);
+    expect(await leftoverUploads()).toEqual([]);
+  });
+
+  it("reads parts split at any byte", async () => {
+    const body = new TextEncoder().encode(
+      [
+        "preamble\r\n--XyZ",
+        'Content-Disposition: form-data; name="title"',
+        "",
+        "Café\r\n--Xy",
+        "--XyZ",
+        'Content-Disposition: form-data; name="file"; filename="my %22best%22.m4a"',
+        "Content-Type: audio/mp4",
+        "",
+        "bytes\r\n--Xy\r\nmore",
+        "--XyZ--\r\n",
+      ].join("\r\n")
+    );
+    const { upload, fields } = await receiveUpload(
+      streamedRequest(function* () {
+        for (const byte of body) yield Uint8Array.of(byte);
+      })
+    );
+
+    expect(fields).toEqual({ title: "Café\r\n--Xy" });
+    expect(upload).toMatchObject({ name: 'my "best".m4a', size: 17 });
+    expect(await readFile(upload.path, "utf8")).toBe("bytes\r\n--Xy\r\nmore");
+    await discardUpload(upload);
+  });
+
+  it("reports the conversion failure when ffmpeg can't read the file", async () => {
+    const res = await POST(uploadRequest({}, new File(["not media"], "clip.webm")));
+    const body = await res.json();
+    expect(res.status).toBe(502);
+    expect(body).toMatchObject({ ok: false, whisperErrorCode: "bad_media", step: "combine.not_enough_text" });
+    expect(await leftoverUploads()).toEqual([]);
+  });
+
+  it("hands the upload to a background job that cleans up after itself", async () => {
+    const res = await POST(uploadRequest({ async: "1" }, new File(["fake"], "clip.wav")));
+    expect(res.status).toBe(202);
+    const { jobId } = await res.json();
+
+    await vi.waitFor(() => expect(getJob(jobId)?.status).toBe("done"));
+    expect((getJob(jobId)?.result as any).sourceUsed.platform).toBe("upload");
+    await vi.waitFor(async () => expect(await leftoverUploads()).toEqual([]));
+  });
+});
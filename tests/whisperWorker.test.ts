@@ -0,0 +1,109 @@
+import { setTimeout as sleep } from "node:timers/promises";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { transcribeUrl } from "@/lib/server/transcribe";
+import { pingWorker, stopWorker, workerStatus } from "@/lib/server/whisperWorker";
+import { failure, recorder, setupFakeBins } from "./helpers/bins";
+
+const VIDEO = "https://www.youtube.com/watch?v=sMaShBuRgEr";
+
+const bins = setupFakeBins();
+
+// worker processes the fake python started (one "python" log line each)
+const spawns = () => bins.calls().filter((c) => c.bin === "python" && c.args[0]?.endsWith("whisper_worker.py"));
+const jobs = () => bins.calls().filter((c) => c.bin === "worker" && c.op === "transcribe");
+
+afterEach(() => {
+  stopWorker();
+});
+
+describe("whisper worker", () => {
+  it("keeps one worker and its model across jobs", async () => {
+    const { steps, push } = recorder();
+    const first = await transcribeUrl(VIDEO, "tiny", push);
+    const second = await transcribeUrl(VIDEO, "tiny");
+
+    expect(first.text).toMatch(/^Okay so for these smash burgers/);
+    expect(second.segments).toHaveLength(7);
+    expect(spawns()).toHaveLength(1);
+    expect(new Set(jobs().map((j) => j.pid)).size).toBe(1);
+    expect(jobs()[0]).toMatchObject({ model: "tiny", device: "cpu", compute_type: "int8", beam_size: 5, vad: true });
+    expect(workerStatus()).toMatchObject({ running: true, ready: true, busy: false, queued: 0 });
+    expect(workerStatus().models.map((m) => m.key)).toEqual(["tiny/cpu/int8"]);
+    expect(steps.map((s) => s.step)).toEqual(
+      expect.arrayContaining(["whisper.worker.spawn", "whisper.worker.job", "transcribe.whisper.done"])
+    );
+  });
+
+  it("runs concurrent jobs one at a time on the same worker", async () => {
+    const results = await Promise.all([1, 2, 3].map(() => transcribeUrl(VIDEO, "tiny")));
+    expect(results.every((r) => r.language === "en")).toBe(true);
+    expect(spawns()).toHaveLength(1);
+    expect(jobs()).toHaveLength(3);
+  });
+
+  it("reports a model that can't be loaded", async () => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", "model");
+    expect(await failure(transcribeUrl(VIDEO, "large-v3"))).toMatchObject({
+      code: "model_unavailable",
+      stage: "whisper",
+    });
+    expect(workerStatus().running).toBe(true); // a failed job doesn't take the worker down
+  });
+
+  it("reports missing faster-whisper and a missing python at startup", async () => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", "deps");
+    expect(await failure(transcribeUrl(VIDEO, "tiny"))).toMatchObject({ code: "whisper_deps_missing" });
+
+    vi.stubEnv("PYTHON_BIN", "/nonexistent/python");
+    expect(await failure(transcribeUrl(VIDEO, "tiny"))).toMatchObject({ code: "python_missing" });
+  });
+
+  it("restarts after a crash and carries on with queued jobs", async () => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", "crash-once");
+    const results = await Promise.allSettled([transcribeUrl(VIDEO, "tiny"), transcribeUrl(VIDEO, "tiny")]);
+
+    // whichever download finishes first reaches the worker first and takes the crash
+    const crashed = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    expect(crashed).toHaveLength(1);
+    expect(crashed[0].reason).toMatchObject({ code: "whisper_failed" });
+    expect(crashed[0].reason.message).toMatch(/Whisper worker exited \(139\)/);
+    expect(results.filter((r) => r.status === "fulfilled")).toHaveLength(1);
+    expect(spawns()).toHaveLength(2);
+    expect(workerStatus()).toMatchObject({ running: true, restarts: expect.any(Number) });
+    expect(workerStatus().lastExit?.code).toBe(139);
+  });
+
+  it("kills a worker stuck on a job past the timeout", async () => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", "hang");
+    const e = await failure(transcribeUrl(VIDEO, "tiny", undefined, undefined, { whisperTimeoutMs: 300 }));
+    expect(e).toMatchObject({ code: "timeout", stage: "whisper" });
+    await vi.waitFor(() => expect(workerStatus().running).toBe(false));
+  });
+
+  it("kills the worker when its running job is cancelled", async () => {
+    vi.stubEnv("FAKE_WHISPER_FAIL", "hang");
+    const controller = new AbortController();
+    const job = transcribeUrl(VIDEO, "tiny", undefined, controller.signal);
+    await vi.waitFor(() => expect(workerStatus().busy).toBe(true));
+    controller.abort();
+    await expect(job).rejects.toThrow();
+    await vi.waitFor(() => expect(workerStatus().running).toBe(false));
+  });
+
+  it("stops once its models have been idle long enough", async () => {
+    vi.stubEnv("WHISPER_WORKER_IDLE_MINUTES", String(200 / 60_000)); // 200ms
+    await transcribeUrl(VIDEO, "tiny");
+    expect(workerStatus().running).toBe(true);
+    await sleep(600);
+    await vi.waitFor(() => expect(workerStatus().running).toBe(false));
+  });
+
+  it("answers health checks, starting the worker only when asked", async () => {
+    expect(await pingWorker()).toMatchObject({ ok: true, status: { running: false } });
+    expect(spawns()).toHaveLength(0);
+
+    const health = await pingWorker({ start: true, pythonBin: process.env.PYTHON_BIN });
+    expect(health).toMatchObject({ ok: true, status: { running: true, ready: true } });
+    expect(bins.calls().some((c) => c.bin === "worker" && c.op === "ping")).toBe(true);
+  });
+});
@@ -0,0 +1,16 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    environment: "node",
+    // tests swap process.env and the global fetch; run files one at a time
+    pool: "forks",
+    poolOptions: { forks: { singleFork: true } },
+    testTimeout: 20000,
+  },
+});